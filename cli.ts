@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { parseArgs } from 'util';
+import type { AnalysisResult, RiskLevel } from './src/types';
+import { analyzeSource } from './server/analyze';
+import { readMessageFile, readPolicyFile } from './server/files';
+import { resolveProvider } from './server/providers';
+
+// Low is 0 so a plain `&&` treats clean mail as success; 1 stays the generic failure code of Node itself.
+const EXIT_CODES: Record<RiskLevel | 'error', number> = { Low: 0, Medium: 10, High: 20, error: 1 };
+
+const DEFAULT_TIMEOUT_SECONDS = 60;
+
+const USAGE = `Usage: npm run -s scan -- [file.eml] [options]
+       cat message.eml | npm run -s scan -- [options]
+
+Analyses one message with the same pipeline as the web app. Reads the file
+given, or standard input when there is none or it is "-".
+
+Options:
+  --provider <id>       gemini, openai, heuristics or mock (default: server default)
+  --model <name>        model of that provider
+  --policy <file>       organization policy JSON to apply (default: none)
+  --timeout <seconds>   give up on the analysis after this long, retries included (default: ${DEFAULT_TIMEOUT_SECONDS})
+  --json                print the full AnalysisResult as JSON
+  --help                show this help
+
+Exit status:
+  ${EXIT_CODES.Low}    Low risk
+  ${EXIT_CODES.Medium}   Medium risk
+  ${EXIT_CODES.High}   High risk
+  ${EXIT_CODES.error}    error (unreadable input, bad options, provider failure, timeout)`;
+
+function readSource(file: string | undefined): string {
+  const source = readMessageFile(file === undefined || file === '-' ? 0 : file);
+  if (!source.trim()) throw new Error('The message is empty.');
+  return source;
+}
+
+function formatSummary(result: AnalysisResult): string {
+  const lines = [
+    `Verdict     ${result.isPhishing ? 'PHISHING' : 'Legitimate'} (${result.riskLevel} risk, score ${result.score ?? 'n/a'}, confidence ${result.confidence ?? 'n/a'}%)`,
+    `Analysed by ${result.provider ? `${result.provider.label} (${result.provider.model})` : 'unknown provider'}`,
+  ];
+  if (result.scoreFloor) lines.push(`Floor       ${result.scoreFloor.level}: ${result.scoreFloor.reason}`);
+  lines.push('', result.summary);
+
+  const indicators = (result.indicators ?? []).filter(i => i.weight !== 0).sort((a, b) => b.weight - a.weight);
+  if (indicators.length > 0) {
+    lines.push('', 'Indicators');
+    for (const i of indicators) {
+      lines.push(`  ${(i.weight > 0 ? `+${i.weight}` : String(i.weight)).padStart(4)}  [${i.severity}] ${i.title}`);
+    }
+  }
+  lines.push('', `Recommendation: ${result.recommendation}`);
+  return lines.join('\n');
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      provider: { type: 'string' },
+      model: { type: 'string' },
+      policy: { type: 'string' },
+      timeout: { type: 'string', default: String(DEFAULT_TIMEOUT_SECONDS) },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  });
+  if (values.help || positionals.length > 1) {
+    console.log(USAGE);
+    return values.help ? EXIT_CODES.Low : EXIT_CODES.error;
+  }
+
+  const seconds = Number(values.timeout);
+  if (!Number.isFinite(seconds) || seconds <= 0) throw new Error('--timeout must be a positive number of seconds.');
+  const policy = readPolicyFile(values.policy);
+  // Resolved up front so a bad --provider or --model fails before stdin is read.
+  const { provider, model } = resolveProvider(values.provider, values.model);
+  const source = readSource(positionals[0]);
+
+  const { result } = await analyzeSource(source, { provider: provider.id, model, policy, timeoutMs: seconds * 1000 });
+  console.log(values.json ? JSON.stringify(result, null, 2) : formatSummary(result));
+  return EXIT_CODES[result.riskLevel];
+}
+
+main()
+  .catch(err => {
+    console.error(err instanceof Error ? err.message : err);
+    return EXIT_CODES.error;
+  })
+  // Exits explicitly: a timed-out provider request would otherwise keep the process alive.
+  .then(code => process.exit(code));
@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { FEEDBACK_LABELS, evaluate, formatReport, type EvalSample } from './src/lib/evaluation';
+import { analyzeSource } from './server/analyze';
+import { readMessageFile, readPolicyFile } from './server/files';
+import { resolveProvider } from './server/providers';
+
+const USAGE = `Usage: npm run eval -- <corpus-dir> [options]
+       npm run eval -- --history [options]
+
+Runs labelled messages through the analysis pipeline and reports precision,
+recall, the confusion matrix and calibration by risk level.
+
+A corpus directory holds .eml files under phishing/ and legitimate/
+subdirectories. --history uses the scans analysts labelled in the app instead.
+
+Options:
+  --provider <id>       gemini, openai, heuristics or mock (default: server default)
+  --model <name>        model of that provider
+  --policy <file>       organization policy JSON to apply (default: none)
+  --concurrency <n>     messages analysed at once (default: 2)
+  --json                print the report as JSON
+  --help                show this help`;
+
+interface Labelled {
+  name: string;
+  source: string;
+  isPhishing: boolean;
+}
+
+const LABEL_DIRS: Record<string, boolean> = { phishing: true, legitimate: false };
+
+function emlFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) return emlFiles(full);
+    return entry.name.toLowerCase().endsWith('.eml') ? [full] : [];
+  });
+}
+
+function loadCorpus(dir: string): Labelled[] {
+  const messages = Object.entries(LABEL_DIRS).flatMap(([label, isPhishing]) => {
+    const labelDir = path.join(dir, label);
+    if (!fs.existsSync(labelDir)) return [];
+    return emlFiles(labelDir).sort().map(file => ({
+      name: path.relative(dir, file),
+      source: readMessageFile(file),
+      isPhishing,
+    }));
+  });
+  if (messages.length === 0) {
+    throw new Error(`No .eml files found under ${path.join(dir, 'phishing')} or ${path.join(dir, 'legitimate')}.`);
+  }
+  return messages;
+}
+
+async function loadHistoryCorpus(): Promise<Labelled[]> {
+  const { listLabeledScans } = await import('./server/history');
+  const scans = listLabeledScans();
+  if (scans.length === 0) throw new Error('No scans have analyst feedback yet.');
+  return scans.map(scan => ({ name: `scan ${scan.id}`, source: scan.source, isPhishing: FEEDBACK_LABELS[scan.label].isPhishing }));
+}
+
+async function runAll<T, R>(items: T[], concurrency: number, run: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await run(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      provider: { type: 'string' },
+      model: { type: 'string' },
+      policy: { type: 'string' },
+      concurrency: { type: 'string', default: '2' },
+      history: { type: 'boolean', default: false },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  });
+  if (values.help || (!values.history && positionals.length !== 1)) {
+    console.log(USAGE);
+    process.exitCode = values.help ? 0 : 1;
+    return;
+  }
+
+  const concurrency = Math.max(1, Number(values.concurrency) || 1);
+  const policy = readPolicyFile(values.policy);
+  const { provider, model } = resolveProvider(values.provider, values.model);
+  const corpus = values.history ? await loadHistoryCorpus() : loadCorpus(positionals[0]);
+
+  const started = Date.now();
+  let done = 0;
+  const samples = await runAll(corpus, concurrency, async (message): Promise<EvalSample> => {
+    const base = { name: message.name, expected: message.isPhishing };
+    try {
+      const { result } = await analyzeSource(message.source, { provider: provider.id, model, policy });
+      return { ...base, predicted: result.isPhishing, riskLevel: result.riskLevel, score: result.score, confidence: result.confidence };
+    } catch (err) {
+      return { ...base, error: err instanceof Error ? err.message : String(err) };
+    } finally {
+      process.stderr.write(`\r${++done}/${corpus.length} analysed`);
+    }
+  });
+  process.stderr.write('\n');
+
+  const report = evaluate(samples);
+  const source = values.history ? 'analyst-labelled scans' : positionals[0];
+  if (values.json) {
+    console.log(JSON.stringify({ provider: provider.id, model, corpus: source, durationMs: Date.now() - started, ...report }, null, 2));
+  } else {
+    const seconds = ((Date.now() - started) / 1000).toFixed(1);
+    console.log(formatReport(report, `${provider.label} (${model}) on ${source} in ${seconds} s`));
+  }
+  if (report.evaluated === 0) process.exitCode = 1;
+}
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import path from 'path';
+import express from 'express';
+import { config } from './server/config';
+import { createApiRouter } from './server/api';
+import { failInterruptedSubmissions } from './server/apiScans';
+import { backfillFingerprints } from './server/campaigns';
+import { createV1Router } from './server/v1';
+import { errorHandler } from './server/errors';
+
+async function startServer() {
+  failInterruptedSubmissions();
+  backfillFingerprints();
+  const app = express();
+  app.set('trust proxy', config.trustProxy);
+
+  // Registered first so bulk uploads are parsed with their own, larger limit.
+  app.use('/api/batches', express.json({ limit: config.maxBatchSize }));
+  // Parses its own bodies, once the caller is authenticated.
+  app.use('/api/v1', createV1Router());
+  app.use('/api', express.json({ limit: config.maxRequestSize }), createApiRouter());
+  app.use('/api', (_req, res) => {
+    res.status(404).json({ error: 'Not found.' });
+  });
+
+  if (config.production) {
+    const distPath = path.join(process.cwd(), 'dist');
+    app.use(express.static(distPath));
+    app.get('*', (_req, res) => {
+      res.sendFile(path.join(distPath, 'index.html'));
+    });
+  } else {
+    const { createServer: createViteServer } = await import('vite');
+    const vite = await createViteServer({
+      server: { middlewareMode: true },
+      appType: 'spa',
+    });
+    app.use(vite.middlewares);
+  }
+
+  app.use(errorHandler);
+
+  app.listen(config.port, '0.0.0.0', () => {
+    console.log(`PhishGuard server listening on http://localhost:${config.port}`);
+  });
+}
+
+startServer();
@@ -0,0 +1,146 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AnalysisEvent, AnalysisResult, ParsedEmail, PolicyProfile, ProviderChoice } from '../src/types';
+import { parseEmail } from '../src/lib/mime';
+import { checkHeaders, headerScoreIndicators } from '../src/lib/headers';
+import { checkLinks, linkScoreIndicators } from '../src/lib/links';
+import { attachmentScoreIndicators, inspectAttachments } from '../src/lib/attachments';
+import { detectPromptInjection, injectionScoreIndicators } from '../src/lib/injection';
+import { extractIocs } from '../src/lib/iocs';
+import { evaluatePolicy, policyScoreIndicators } from '../src/lib/policy';
+import { attachEvidenceSpans, buildEvidenceText } from '../src/lib/evidence';
+import { scoreAnalysis } from '../src/lib/scoring';
+import { buildAnalysisPrompt } from '../src/lib/prompt';
+import { validateModelAnalysis } from '../src/lib/validation';
+import { DEFAULT_BRANDS, type Brand } from '../src/lib/brands';
+import { resolveProvider } from './providers';
+import { getPolicy } from './policy';
+import { config } from './config';
+import { AnalysisError, classifyError, isRetryable } from './errors';
+import { retry } from './retry';
+
+export interface AnalyzeOptions extends ProviderChoice {
+  // User-configured brands, checked in addition to the built-in list.
+  brands?: Brand[];
+  // Organization policy to apply instead of the saved profile.
+  policy?: PolicyProfile;
+  // Aborts the analysis, e.g. when the client disconnects.
+  signal?: AbortSignal;
+  // Deadline for the whole analysis, retries included.
+  timeoutMs?: number;
+  // Attempts at the model call; callers with their own retry loop pass 1.
+  maxAttempts?: number;
+  // Progress as it happens: local findings, streamed model output and retries.
+  onEvent?: (event: AnalysisEvent) => void;
+}
+
+export interface AnalysisOutcome {
+  email: ParsedEmail;
+  result: AnalysisResult;
+  model: string;
+}
+
+/**
+ * Calls the provider and validates its reply, retrying transient failures
+ * with jittered exponential backoff until the attempts or the deadline run out.
+ */
+async function callModel(
+  attempt: (signal: AbortSignal) => Promise<unknown>,
+  options: AnalyzeOptions
+): Promise<ReturnType<typeof validateModelAnalysis>> {
+  const timeoutMs = options.timeoutMs ?? config.analysisTimeoutMs;
+  const deadline = AbortSignal.timeout(timeoutMs);
+  const signal = options.signal ? AbortSignal.any([options.signal, deadline]) : deadline;
+  const maxAttempts = options.maxAttempts ?? config.analysisMaxAttempts;
+
+  try {
+    return await retry(async () => {
+      signal.throwIfAborted();
+      return validateModelAnalysis(await attempt(signal));
+    }, {
+      attempts: maxAttempts,
+      baseDelayMs: config.analysisRetryDelayMs,
+      signal,
+      retryable: err => !signal.aborted && isRetryable(err),
+      onRetry: (err, n, delayMs) => {
+        const error = classifyError(err) as AnalysisError;
+        options.onEvent?.({ type: 'retry', attempt: n, maxAttempts, delayMs, code: error.code, error: error.message });
+      },
+    });
+  } catch (err) {
+    if (deadline.aborted) {
+      throw new AnalysisError('timeout', `The analysis did not finish within ${Math.round(timeoutMs / 1000)} seconds.`);
+    }
+    if (signal.aborted) throw new AnalysisError('cancelled', 'The analysis was cancelled.');
+    throw classifyError(err);
+  }
+}
+
+/**
+ * Full analysis pipeline: parse the raw message, run the local header, link,
+ * attachment, prompt-injection and organization policy checks, hand
+ * everything to the chosen provider, validate its reply and score its
+ * findings together with the local ones. Local findings are reported
+ * through onEvent before the model is called, and transient model failures
+ * are retried within the deadline. Observables (IOCs) are extracted
+ * alongside for export, and every indicator's evidence is located in the
+ * decoded message for highlighting.
+ */
+export async function analyzeSource(source: string, options: AnalyzeOptions = {}): Promise<AnalysisOutcome> {
+  const { provider, model } = resolveProvider(options.provider, options.model);
+  const email = parseEmail(source);
+  const brands = [...DEFAULT_BRANDS, ...(options.brands ?? [])];
+  const headerIndicators = checkHeaders(email, brands, config.trustedAuthservIds);
+  const linkIndicators = checkLinks(email, brands);
+  const attachmentReports = await inspectAttachments(email);
+  const injectionFindings = detectPromptInjection(email);
+  const policy = options.policy ?? getPolicy();
+  const policyFindings = evaluatePolicy(email, policy, headerIndicators, linkIndicators);
+
+  const evidence = { headerIndicators, linkIndicators, attachmentReports, injectionFindings, policy, policyFindings };
+  const localIndicators = [
+    ...headerScoreIndicators(headerIndicators),
+    ...linkScoreIndicators(linkIndicators),
+    ...attachmentScoreIndicators(attachmentReports),
+    ...injectionScoreIndicators(injectionFindings),
+    ...policyScoreIndicators(policyFindings),
+  ];
+
+  const providerInfo = { id: provider.id, label: provider.label, model };
+  options.onEvent?.({
+    type: 'local',
+    findings: { headerIndicators, linkIndicators, attachmentReports, injectionFindings, indicators: localIndicators, provider: providerInfo },
+  });
+
+  const prompt = buildAnalysisPrompt(email, evidence);
+  const onText = options.onEvent && ((text: string) => options.onEvent!({ type: 'model', text }));
+  const analysis = await callModel(
+    signal => provider.analyze({ email, prompt, evidence, localIndicators, signal, onText }, model),
+    options
+  );
+  const scored = scoreAnalysis(analysis, localIndicators, config.scoreThresholds);
+  const evidenceText = buildEvidenceText(email);
+
+  return {
+    email,
+    result: {
+      ...scored,
+      indicators: attachEvidenceSpans(evidenceText, scored.indicators),
+      suspiciousIndicators: analysis.indicators.map(i => i.title),
+      recommendation: analysis.recommendation,
+      summary: analysis.summary,
+      technicalDetails: analysis.technicalDetails,
+      headerIndicators,
+      linkIndicators,
+      attachmentReports,
+      injectionFindings,
+      iocs: extractIocs(email, attachmentReports),
+      evidenceText,
+      provider: providerInfo,
+    },
+    model,
+  };
+}
@@ -0,0 +1,381 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from 'express';
+import type { Brand } from '../src/lib/brands';
+import type { AnalysisEvent, AnalystFeedback, BatchFile, DashboardQuery, HistoryQuery, ProviderChoice, RiskLevel, VerdictFilter } from '../src/types';
+import { FEEDBACK_LABELS, isFeedbackLabel } from '../src/lib/evaluation';
+import { analyzeSource, type AnalyzeOptions } from './analyze';
+import { createApiKey, listApiKeys, parseIntegrationName, requireAdmin, revokeApiKey } from './apiKeys';
+import { cancelBatch, createBatch, getBatch } from './batches';
+import { getCampaign, listCampaigns } from './campaigns';
+import { buildDashboard, exportDashboard, isDashboardExportFormat } from './dashboard';
+import { deleteScan, getScan, listScans, saveScan, setFeedback } from './history';
+import { exportScanIocs, isExportFormat } from './iocExport';
+import { config } from './config';
+import { HttpError, toErrorPayload } from './errors';
+import { getPolicy, savePolicy } from './policy';
+import { listProviders, resolveProvider } from './providers';
+import { rateLimit } from './rateLimit';
+import { createWebhook, deleteWebhook, listWebhooks, notifyWebhooks, parseMinRisk, parseWebhookUrl } from './webhooks';
+
+export function parseBrands(value: unknown): Brand[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((b): b is Brand =>
+    typeof b?.name === 'string' &&
+    Array.isArray(b.keywords) && b.keywords.every((k: unknown) => typeof k === 'string') &&
+    Array.isArray(b.domains) && b.domains.every((d: unknown) => typeof d === 'string')
+  );
+}
+
+export function parseProviderChoice(body: Record<string, unknown>): ProviderChoice {
+  const text = (key: string) => (typeof body[key] === 'string' && body[key] ? (body[key] as string) : undefined);
+  // Unknown ids and models are rejected by resolveProvider with a 400.
+  return { provider: text('provider') as ProviderChoice['provider'], model: text('model') };
+}
+
+// Clients may shorten the server's deadline, never extend it.
+function parseTimeout(value: unknown): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 1000) {
+    throw new HttpError(400, '"timeoutMs" must be a number of milliseconds, at least 1000.');
+  }
+  return Math.min(value, config.analysisTimeoutMs);
+}
+
+function parseSource(value: unknown): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(400, 'Request body must include the email "source" as a non-empty string.');
+  }
+  return value;
+}
+
+function parseBatchFiles(value: unknown): BatchFile[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new HttpError(400, 'Request body must include "files" as a non-empty array of { name, source }.');
+  }
+  return value.map((file, i) => {
+    if (typeof file?.source !== 'string') {
+      throw new HttpError(400, `files[${i}].source must be a string.`);
+    }
+    return { name: typeof file.name === 'string' && file.name ? file.name : `message-${i + 1}.eml`, source: file.source };
+  });
+}
+
+const RISK_LEVELS: RiskLevel[] = ['Low', 'Medium', 'High'];
+const VERDICTS: VerdictFilter[] = ['phishing', 'legitimate'];
+const MAX_FEEDBACK_NOTE = 2000;
+
+// Milliseconds since the epoch or anything Date.parse understands, e.g. 2025-06-01.
+function parseTime(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isFinite(time) ? time : undefined;
+}
+
+export function parseHistoryQuery(query: Record<string, unknown>): HistoryQuery {
+  const text = (key: string) => (typeof query[key] === 'string' ? (query[key] as string) : undefined);
+  const riskLevel = text('riskLevel') as RiskLevel | undefined;
+  const verdict = text('verdict') as VerdictFilter | undefined;
+  return {
+    q: text('q')?.trim() || undefined,
+    riskLevel: riskLevel && RISK_LEVELS.includes(riskLevel) ? riskLevel : undefined,
+    verdict: verdict && VERDICTS.includes(verdict) ? verdict : undefined,
+    since: parseTime(text('since')),
+    until: parseTime(text('until')),
+    page: Number(text('page')) || undefined,
+    pageSize: Number(text('pageSize')) || undefined,
+  };
+}
+
+function parseDashboardQuery(query: Record<string, unknown>): DashboardQuery {
+  const text = (key: string) => (typeof query[key] === 'string' ? (query[key] as string) : undefined);
+  const tzOffset = Number(text('tzOffset'));
+  return {
+    since: parseTime(text('since')),
+    until: parseTime(text('until')),
+    // UTC-12 to UTC+14.
+    tzOffset: Number.isInteger(tzOffset) && Math.abs(tzOffset) <= 14 * 60 ? tzOffset : undefined,
+  };
+}
+
+export function createApiRouter(): Router {
+  const router = Router();
+  const analyzeLimit = rateLimit({ windowMs: config.rateLimitWindowMs, max: config.rateLimitMax });
+
+  router.get('/providers', (_req, res) => {
+    res.json(listProviders());
+  });
+
+  router.get('/policy', (_req, res, next) => {
+    try {
+      res.json(getPolicy());
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.put('/policy', requireAdmin, (req, res, next) => {
+    try {
+      res.json(savePolicy(req.body));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.get('/policy/export', (_req, res, next) => {
+    try {
+      const { updatedAt: _updatedAt, ...policy } = getPolicy();
+      res.attachment('phishguard-policy.json').json(policy);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.use('/integrations', requireAdmin);
+
+  router.get('/integrations/keys', (_req, res, next) => {
+    try {
+      res.json(listApiKeys());
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.post('/integrations/keys', (req, res, next) => {
+    try {
+      res.status(201).json(createApiKey(parseIntegrationName(req.body?.name)));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.delete('/integrations/keys/:id', (req, res, next) => {
+    try {
+      if (!revokeApiKey(req.params.id)) throw new HttpError(404, 'API key not found.');
+      res.status(204).end();
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.get('/integrations/webhooks', (_req, res, next) => {
+    try {
+      res.json(listWebhooks());
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.post('/integrations/webhooks', async (req, res, next) => {
+    try {
+      const { name, url, minRisk } = req.body ?? {};
+      const parsedName = parseIntegrationName(name);
+      const parsedMinRisk = parseMinRisk(minRisk);
+      res.status(201).json(createWebhook(parsedName, await parseWebhookUrl(url), parsedMinRisk));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.delete('/integrations/webhooks/:id', (req, res, next) => {
+    try {
+      if (!deleteWebhook(req.params.id)) throw new HttpError(404, 'Webhook not found.');
+      res.status(204).end();
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.post('/analyze', analyzeLimit, async (req, res, next) => {
+    try {
+      const source = parseSource(req.body?.source);
+      const outcome = await analyzeSource(source, {
+        brands: parseBrands(req.body.brands),
+        timeoutMs: parseTimeout(req.body.timeoutMs),
+        ...parseProviderChoice(req.body),
+      });
+      const scan = saveScan({ source, ...outcome });
+      notifyWebhooks(scan);
+      res.json(scan);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * Same analysis as /analyze, reported as it runs: one JSON event per line
+   * (local findings, model output, retries) ending in the stored scan or an
+   * error. Closing the connection cancels the analysis.
+   */
+  router.post('/analyze/stream', analyzeLimit, async (req, res, next) => {
+    let options: AnalyzeOptions;
+    let source: string;
+    try {
+      source = parseSource(req.body?.source);
+      options = {
+        brands: parseBrands(req.body.brands),
+        timeoutMs: parseTimeout(req.body.timeoutMs),
+        ...parseProviderChoice(req.body),
+      };
+      // Reject an unknown provider or model with a plain 400 before streaming starts.
+      resolveProvider(options.provider, options.model);
+    } catch (err) {
+      next(err);
+      return;
+    }
+
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+    res.status(200).set({ 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' }).flushHeaders();
+    const send = (event: AnalysisEvent) => {
+      if (!res.writableEnded && !controller.signal.aborted) res.write(`${JSON.stringify(event)}\n`);
+    };
+
+    try {
+      const outcome = await analyzeSource(source, { ...options, signal: controller.signal, onEvent: send });
+      const scan = saveScan({ source, ...outcome });
+      notifyWebhooks(scan);
+      send({ type: 'result', scan });
+    } catch (err) {
+      // errorHandler can no longer be used once the headers are sent.
+      send({ type: 'error', ...toErrorPayload(err).body });
+    }
+    res.end();
+  });
+
+  router.post('/batches', analyzeLimit, (req, res, next) => {
+    try {
+      const { files, brands } = req.body ?? {};
+      res.status(202).json(createBatch(parseBatchFiles(files), { brands: parseBrands(brands), ...parseProviderChoice(req.body) }, req.ip ?? 'unknown'));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.get('/batches/:id', (req, res, next) => {
+    try {
+      const job = getBatch(req.params.id);
+      if (!job) throw new HttpError(404, 'Batch not found.');
+      res.json(job);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.post('/batches/:id/cancel', (req, res, next) => {
+    try {
+      const job = cancelBatch(req.params.id);
+      if (!job) throw new HttpError(404, 'Batch not found.');
+      res.json(job);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.get('/campaigns', (_req, res, next) => {
+    try {
+      res.json(listCampaigns());
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.get('/campaigns/:id', (req, res, next) => {
+    try {
+      const campaign = getCampaign(req.params.id);
+      if (!campaign) throw new HttpError(404, 'Campaign not found.');
+      res.json(campaign);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.get('/history', (req, res, next) => {
+    try {
+      res.json(listScans(parseHistoryQuery(req.query)));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.get('/history/export', async (req, res, next) => {
+    try {
+      const format = req.query.format ?? 'stix';
+      if (!isExportFormat(format)) throw new HttpError(400, 'format must be one of stix, csv or json.');
+      const ids = typeof req.query.ids === 'string' ? req.query.ids.split(',').map(id => id.trim()).filter(Boolean) : [];
+      const file = await exportScanIocs(ids, format);
+      res.type(file.mimeType).attachment(file.filename).send(file.body);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.get('/dashboard', (req, res, next) => {
+    try {
+      res.json(buildDashboard(parseDashboardQuery(req.query)));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.get('/dashboard/export', (req, res, next) => {
+    try {
+      const format = req.query.format ?? 'csv';
+      if (!isDashboardExportFormat(format)) throw new HttpError(400, 'format must be csv or json.');
+      const file = exportDashboard(parseDashboardQuery(req.query), format);
+      res.type(file.mimeType).attachment(file.filename).send(file.body);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.get('/history/:id', (req, res, next) => {
+    try {
+      const scan = getScan(req.params.id);
+      if (!scan) throw new HttpError(404, 'Scan not found.');
+      res.json(scan);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.put('/history/:id/feedback', (req, res, next) => {
+    try {
+      const { label, note } = req.body ?? {};
+      if (!isFeedbackLabel(label)) {
+        throw new HttpError(400, `"label" must be one of ${Object.keys(FEEDBACK_LABELS).join(', ')}.`);
+      }
+      if (note !== undefined && typeof note !== 'string') throw new HttpError(400, '"note" must be a string.');
+      const feedback: AnalystFeedback = { label, note: (note ?? '').trim().slice(0, MAX_FEEDBACK_NOTE), createdAt: Date.now() };
+      if (!setFeedback(req.params.id, feedback)) throw new HttpError(404, 'Scan not found.');
+      res.json(feedback);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.delete('/history/:id/feedback', (req, res, next) => {
+    try {
+      if (!setFeedback(req.params.id, null)) throw new HttpError(404, 'Scan not found.');
+      res.status(204).end();
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.delete('/history/:id', (req, res, next) => {
+    try {
+      if (!deleteScan(req.params.id)) throw new HttpError(404, 'Scan not found.');
+      res.status(204).end();
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import type { RequestHandler, Response } from 'express';
+import type { ApiKeyInfo, CreatedApiKey } from '../src/types';
+import { config } from './config';
+import { getDb } from './db';
+import { HttpError } from './errors';
+
+const KEY_PREFIX = 'pg_';
+const MAX_NAME_LENGTH = 100;
+
+interface ApiKeyRow {
+  id: string;
+  name: string;
+  prefix: string;
+  created_at: number;
+  last_used_at: number | null;
+}
+
+// The integration a request to /api/v1 authenticated as, set by requireApiKey.
+export interface Integration {
+  keyId: string;
+  name: string;
+}
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function bearerToken(value: string | undefined): string | undefined {
+  return value?.match(/^Bearer\s+(\S+)$/i)?.[1];
+}
+
+function toInfo(row: ApiKeyRow): ApiKeyInfo {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    createdAt: row.created_at,
+    ...(row.last_used_at ? { lastUsedAt: row.last_used_at } : {}),
+  };
+}
+
+export function parseIntegrationName(value: unknown): string {
+  const name = typeof value === 'string' ? value.trim() : '';
+  if (!name) throw new HttpError(400, '"name" must be a non-empty string.');
+  return name.slice(0, MAX_NAME_LENGTH);
+}
+
+/** Issues a key for one integration. Only its hash is stored, so this is the one time the key is readable. */
+export function createApiKey(name: string): CreatedApiKey {
+  const key = KEY_PREFIX + randomBytes(24).toString('base64url');
+  const row: ApiKeyRow = { id: randomUUID(), name, prefix: key.slice(0, 10), created_at: Date.now(), last_used_at: null };
+  getDb().prepare(`
+    INSERT INTO api_keys (id, name, prefix, key_hash, created_at) VALUES (@id, @name, @prefix, @keyHash, @created_at)
+  `).run({ ...row, keyHash: hashKey(key) });
+  return { ...toInfo(row), key };
+}
+
+export function listApiKeys(): ApiKeyInfo[] {
+  const rows = getDb()
+    .prepare('SELECT id, name, prefix, created_at, last_used_at FROM api_keys ORDER BY created_at')
+    .all() as ApiKeyRow[];
+  return rows.map(toInfo);
+}
+
+export function revokeApiKey(id: string): boolean {
+  return getDb().prepare('DELETE FROM api_keys WHERE id = ?').run(id).changes > 0;
+}
+
+export function integrationOf(res: Response): Integration {
+  return res.locals.integration as Integration;
+}
+
+/** Accepts `Authorization: Bearer <key>` or `X-API-Key: <key>` and records the integration on res.locals. */
+export const requireApiKey: RequestHandler = (req, res, next) => {
+  const key = bearerToken(req.get('authorization')) ?? req.get('x-api-key');
+  if (!key) {
+    next(new HttpError(401, 'An API key is required: send it as "Authorization: Bearer <key>".'));
+    return;
+  }
+  const db = getDb();
+  const row = db.prepare('SELECT id, name FROM api_keys WHERE key_hash = ?').get(hashKey(key)) as
+    | { id: string; name: string }
+    | undefined;
+  if (!row) {
+    next(new HttpError(401, 'Invalid or revoked API key.'));
+    return;
+  }
+  db.prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?').run(Date.now(), row.id);
+  res.locals.integration = { keyId: row.id, name: row.name } satisfies Integration;
+  next();
+};
+
+/**
+ * Guards key and webhook management and policy changes with the ADMIN_TOKEN setting, sent as
+ * `Authorization: Bearer <token>` or `X-Admin-Token: <token>`.
+ */
+export const requireAdmin: RequestHandler = (req, _res, next) => {
+  if (!config.adminToken) {
+    next(new HttpError(403, 'Administration is disabled: set ADMIN_TOKEN on the server.'));
+    return;
+  }
+  const token = bearerToken(req.get('authorization')) ?? req.get('x-admin-token');
+  // Comparing digests keeps the comparison constant-time whatever the token's length.
+  const valid = token !== undefined &&
+    timingSafeEqual(createHash('sha256').update(token).digest(), createHash('sha256').update(config.adminToken).digest());
+  next(valid ? undefined : new HttpError(401, 'A valid admin token is required: send it as "Authorization: Bearer <token>".'));
+};
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomUUID } from 'crypto';
+import type { ApiScan, ApiScanPage, ApiScanStatus, HistoryQuery } from '../src/types';
+import { analyzeSource, type AnalyzeOptions } from './analyze';
+import type { Integration } from './apiKeys';
+import { config } from './config';
+import { getDb } from './db';
+import { isRetryable } from './errors';
+import { getScan, listScans, saveScan, toApiScan } from './history';
+import { resolveProvider } from './providers';
+import { retry } from './retry';
+import { notifyWebhooks } from './webhooks';
+
+// Submissions track scans handed out by id before their analysis finished.
+// Once it does, the scan is stored in the history under the same id.
+interface SubmissionRow {
+  id: string;
+  created_at: number;
+  integration: string;
+  status: ApiScanStatus;
+  error: string | null;
+}
+
+function updateSubmission(id: string, status: ApiScanStatus, error: string | null = null) {
+  getDb().prepare('UPDATE api_submissions SET status = ?, error = ? WHERE id = ?').run(status, error, id);
+}
+
+async function runSubmission({ id, created_at, integration }: SubmissionRow, source: string, options: AnalyzeOptions) {
+  try {
+    // Same retry policy as batch jobs.
+    const outcome = await retry(() => analyzeSource(source, { ...options, maxAttempts: 1 }), {
+      attempts: config.batchMaxAttempts,
+      baseDelayMs: config.batchRetryDelayMs,
+      retryable: isRetryable,
+    });
+    const scan = saveScan({ id, timestamp: created_at, source, ...outcome });
+    updateSubmission(id, 'completed');
+    notifyWebhooks(scan, integration);
+  } catch (err) {
+    updateSubmission(id, 'failed', err instanceof Error && err.message ? err.message : 'Analysis failed.');
+  }
+}
+
+/** Records a submission and analyses it in the background; poll getApiScan for the result. */
+export function submitScan(source: string, options: AnalyzeOptions, integration: Integration): ApiScan {
+  // Reject an unknown provider or model now rather than in the background.
+  resolveProvider(options.provider, options.model);
+  const row: SubmissionRow = { id: randomUUID(), created_at: Date.now(), integration: integration.name, status: 'pending', error: null };
+  getDb().prepare(`
+    INSERT INTO api_submissions (id, created_at, api_key_id, integration, status) VALUES (@id, @created_at, @keyId, @integration, @status)
+  `).run({ ...row, keyId: integration.keyId });
+  runSubmission(row, source, options).catch(err => console.error('API scan failed:', err));
+  return { id: row.id, status: row.status, createdAt: row.created_at, integration: row.integration };
+}
+
+function integrationsOf(ids: string[]): Map<string, string> {
+  if (ids.length === 0) return new Map();
+  const rows = getDb()
+    .prepare(`SELECT id, integration FROM api_submissions WHERE id IN (${ids.map(() => '?').join(', ')})`)
+    .all(...ids) as { id: string; integration: string }[];
+  return new Map(rows.map(row => [row.id, row.integration]));
+}
+
+/** A scan the given API key submitted; other keys' scans and the app's own are not visible. */
+export function getApiScan(id: string, apiKeyId: string): ApiScan | null {
+  const submission = getDb()
+    .prepare('SELECT * FROM api_submissions WHERE id = ? AND api_key_id = ?')
+    .get(id, apiKeyId) as SubmissionRow | undefined;
+  if (!submission) return null;
+  const scan = getScan(id);
+  if (scan) return toApiScan(scan, submission.integration);
+  // A completed submission without a scan was deleted from the history.
+  if (submission.status === 'completed') return null;
+  return {
+    id: submission.id,
+    status: submission.status,
+    createdAt: submission.created_at,
+    integration: submission.integration,
+    ...(submission.error ? { error: submission.error } : {}),
+  };
+}
+
+/** Completed scans the given API key submitted, newest first; pending and failed submissions are only visible by id. */
+export function listApiScans(query: HistoryQuery, apiKeyId: string): ApiScanPage {
+  const { items, total, page, pageSize } = listScans(query, apiKeyId);
+  const integrations = integrationsOf(items.map(item => item.id));
+  return { items: items.map(item => toApiScan(item, integrations.get(item.id))), total, page, pageSize };
+}
+
+/** Analyses run in memory, so submissions still pending at startup were cut off by a restart. */
+export function failInterruptedSubmissions() {
+  getDb()
+    .prepare("UPDATE api_submissions SET status = 'failed', error = ? WHERE status = 'pending'")
+    .run('The server restarted before the analysis finished; submit the message again.');
+}
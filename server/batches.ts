@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomUUID } from 'crypto';
+import type { BatchFile, BatchItem, BatchItemStatus, BatchJob } from '../src/types';
+import { formatAddress, parseEmail } from '../src/lib/mime';
+import { isMbox, splitMbox } from '../src/lib/mbox';
+import { topIndicators } from '../src/lib/scoring';
+import { analyzeSource, type AnalyzeOptions } from './analyze';
+import { saveScan } from './history';
+import { config } from './config';
+import { HttpError, isRetryable } from './errors';
+import { resolveProvider } from './providers';
+import { backoffDelay } from './retry';
+import { notifyWebhooks } from './webhooks';
+
+// Jobs live in memory only; every analysed message is stored in the scan
+// history, so a restart loses the progress view but not the results.
+const JOB_RETENTION_MS = 60 * 60 * 1000;
+const FINISHED: BatchItemStatus[] = ['done', 'failed', 'cancelled'];
+
+interface JobState {
+  job: BatchJob;
+  options: AnalyzeOptions;
+  // Who submitted the job (the client IP), for the per-client queue cap.
+  client: string;
+  finishedAt?: number;
+}
+
+interface Task {
+  state: JobState;
+  item: BatchItem;
+  source: string;
+}
+
+const jobs = new Map<string, JobState>();
+// One queue shared by all jobs so BATCH_CONCURRENCY bounds the load on the model.
+let pending: Task[] = [];
+let active = 0;
+
+function pruneJobs() {
+  const cutoff = Date.now() - JOB_RETENTION_MS;
+  for (const [id, state] of jobs) {
+    if (state.finishedAt && state.finishedAt < cutoff) jobs.delete(id);
+  }
+}
+
+function settle(state: JobState) {
+  if (state.job.items.every(item => FINISHED.includes(item.status))) {
+    if (state.job.status === 'running') state.job.status = 'completed';
+    state.finishedAt ??= Date.now();
+  }
+}
+
+async function run({ state, item, source }: Task) {
+  item.status = 'running';
+  item.attempts++;
+  try {
+    // Retries are scheduled here, between other queued messages.
+    const outcome = await analyzeSource(source, { ...state.options, maxAttempts: 1 });
+    const scan = saveScan({ source, ...outcome });
+    notifyWebhooks(scan);
+    Object.assign(item, {
+      status: 'done',
+      error: undefined,
+      scanId: scan.id,
+      isPhishing: scan.result.isPhishing,
+      riskLevel: scan.result.riskLevel,
+      score: scan.result.score,
+      topIndicators: topIndicators(scan.result.indicators ?? []).map(i => i.title),
+    });
+  } catch (err) {
+    item.error = err instanceof Error && err.message ? err.message : 'Analysis failed.';
+    if (state.job.status === 'running' && item.attempts < config.batchMaxAttempts && isRetryable(err)) {
+      item.status = 'retrying';
+      setTimeout(() => {
+        if (item.status !== 'retrying') return;
+        item.status = 'queued';
+        pending.push({ state, item, source });
+        pump();
+      }, backoffDelay(config.batchRetryDelayMs, item.attempts));
+      return;
+    }
+    item.status = 'failed';
+  }
+}
+
+function pump() {
+  while (active < config.batchConcurrency && pending.length > 0) {
+    const task = pending.shift()!;
+    active++;
+    run(task).finally(() => {
+      active--;
+      settle(task.state);
+      pump();
+    });
+  }
+}
+
+// Messages the client's earlier jobs have not finished with yet.
+function unfinishedFor(client: string): number {
+  let count = 0;
+  for (const state of jobs.values()) {
+    if (state.client === client) count += state.job.items.filter(item => !FINISHED.includes(item.status)).length;
+  }
+  return count;
+}
+
+/**
+ * Expands uploaded files (single messages or mbox exports) into messages and
+ * queues them. One request can queue hundreds of model calls, so the request
+ * rate limit alone does not bound a client; BATCH_MAX_QUEUED caps how many of
+ * its messages may be waiting or in progress at once.
+ */
+export function createBatch(files: BatchFile[], options: AnalyzeOptions, client: string): BatchJob {
+  pruneJobs();
+  // Reject an unknown provider or model now rather than once per message.
+  resolveProvider(options.provider, options.model);
+
+  const messages = files.flatMap(({ name, source }) => {
+    if (!isMbox(source)) return [{ filename: name, source }];
+    const split = splitMbox(source);
+    return split.map((message, i) => ({ filename: split.length > 1 ? `${name} #${i + 1}` : name, source: message }));
+  }).filter(m => m.source.trim());
+
+  if (messages.length === 0) throw new HttpError(400, 'The upload did not contain any messages.');
+  if (messages.length > config.batchMaxMessages) {
+    throw new HttpError(400, `A batch may contain at most ${config.batchMaxMessages} messages; this upload has ${messages.length}.`);
+  }
+  const unfinished = unfinishedFor(client);
+  if (unfinished + messages.length > config.batchMaxQueued) {
+    throw new HttpError(429, `At most ${config.batchMaxQueued} messages may be queued at once and ${unfinished} of yours are still in progress. Wait for them to finish or cancel a batch.`);
+  }
+
+  const job: BatchJob = { id: randomUUID(), createdAt: Date.now(), status: 'running', items: [] };
+  const state: JobState = { job, options, client };
+  messages.forEach(({ filename, source }, index) => {
+    const email = parseEmail(source);
+    const item: BatchItem = {
+      index,
+      filename,
+      subject: email.subject,
+      sender: email.from.map(formatAddress).join(', '),
+      status: 'queued',
+      attempts: 0,
+    };
+    job.items.push(item);
+    pending.push({ state, item, source });
+  });
+
+  jobs.set(job.id, state);
+  pump();
+  return job;
+}
+
+export function getBatch(id: string): BatchJob | null {
+  return jobs.get(id)?.job ?? null;
+}
+
+/** Stops queued and retrying messages; ones already with the model finish and are kept. */
+export function cancelBatch(id: string): BatchJob | null {
+  const state = jobs.get(id);
+  if (!state) return null;
+  if (state.job.status === 'running') {
+    state.job.status = 'cancelled';
+    pending = pending.filter(task => task.state !== state);
+    for (const item of state.job.items) {
+      if (item.status === 'queued' || item.status === 'retrying') item.status = 'cancelled';
+    }
+    settle(state);
+  }
+  return state.job;
+}
@@ -0,0 +1,216 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+  AnalysisResult,
+  AnalystFeedback,
+  CampaignDetail,
+  CampaignMatch,
+  CampaignMatchReason,
+  CampaignMember,
+  CampaignSummary,
+  CampaignVerdict,
+  RiskLevel,
+  ScanFingerprint,
+} from '../src/types';
+import { isPhishingVerdict } from '../src/lib/evaluation';
+import { compareFingerprints, fingerprintEmail } from '../src/lib/fingerprint';
+import { extractIocs } from '../src/lib/iocs';
+import { parseEmail } from '../src/lib/mime';
+import { maxRisk } from '../src/lib/risk';
+import { config } from './config';
+import { getDb } from './db';
+
+// Most recent fingerprints a new scan is compared with.
+const MAX_CANDIDATES = 5000;
+const MAX_CAMPAIGNS = 50;
+const MAX_COMMON = 15;
+
+interface FingerprintRow {
+  scan_id: string;
+  created_at: number;
+  campaign_id: string | null;
+  simhash: string;
+  urls: string;
+  infrastructure: string;
+  attachments: string;
+}
+
+interface MemberRow {
+  id: string;
+  created_at: number;
+  subject: string;
+  sender: string;
+  is_phishing: number;
+  risk_level: RiskLevel;
+  result: string;
+  feedback: string | null;
+}
+
+function toFingerprint(row: FingerprintRow): ScanFingerprint {
+  return {
+    simhash: row.simhash,
+    urls: JSON.parse(row.urls),
+    infrastructure: JSON.parse(row.infrastructure),
+    attachments: JSON.parse(row.attachments),
+  };
+}
+
+function toMember(row: MemberRow): CampaignMember {
+  const feedback = row.feedback ? (JSON.parse(row.feedback) as AnalystFeedback).label : undefined;
+  return {
+    id: row.id,
+    timestamp: row.created_at,
+    subject: row.subject,
+    sender: row.sender,
+    isPhishing: isPhishingVerdict(feedback, row.is_phishing === 1),
+    riskLevel: row.risk_level,
+    score: (JSON.parse(row.result) as AnalysisResult).score,
+    ...(feedback ? { feedback } : {}),
+  };
+}
+
+function memberRows(campaignId: string): MemberRow[] {
+  return getDb().prepare(`
+    SELECT s.id, s.created_at, s.subject, s.sender, s.is_phishing, s.risk_level, s.result, s.feedback
+    FROM scan_fingerprints f JOIN scans s ON s.id = f.scan_id
+    WHERE f.campaign_id = ? ORDER BY s.created_at DESC
+  `).all(campaignId) as MemberRow[];
+}
+
+function verdictOf(phishing: number, size: number): CampaignVerdict {
+  if (phishing * 2 >= size && phishing > 0) return 'malicious';
+  return phishing > 0 ? 'suspicious' : 'benign';
+}
+
+function mostCommon(values: string[]): string {
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  return [...counts].sort((a, b) => b[1] - a[1])[0]?.[0] ?? '';
+}
+
+function summarise(id: string, members: CampaignMember[]): CampaignSummary {
+  const phishing = members.filter(m => m.isPhishing).length;
+  const times = members.map(m => m.timestamp);
+  return {
+    id,
+    label: mostCommon(members.map(m => m.subject)) || '(no subject)',
+    size: members.length,
+    phishing,
+    riskLevel: maxRisk(members.map(m => m.riskLevel)),
+    verdict: verdictOf(phishing, members.length),
+    firstSeen: Math.min(...times),
+    lastSeen: Math.max(...times),
+  };
+}
+
+interface Candidate {
+  row: FingerprintRow;
+  reasons: CampaignMatchReason[];
+}
+
+// More shared signals win; between equals, joining an existing campaign beats starting one.
+function rank({ row, reasons }: Candidate): number {
+  return reasons.length * 2 + (row.campaign_id ? 1 : 0);
+}
+
+/**
+ * Stores a new scan's fingerprint and adds it to the campaign of the closest
+ * earlier scan, starting a campaign when that scan had none yet. Returns the
+ * campaign as it stood before this scan joined. Runs inside saveScan's
+ * transaction, before the scan row itself is written.
+ */
+export function assignCampaign(scanId: string, fingerprint: ScanFingerprint, createdAt: number): CampaignMatch | undefined {
+  const db = getDb();
+  const candidates = db.prepare(`
+    SELECT * FROM scan_fingerprints WHERE created_at >= ? ORDER BY created_at DESC LIMIT ?
+  `).all(createdAt - config.campaignWindowDays * 24 * 60 * 60 * 1000, MAX_CANDIDATES) as FingerprintRow[];
+
+  // Candidates come newest first, so ties go to the most recent scan.
+  let best: Candidate | undefined;
+  for (const row of candidates) {
+    const reasons = compareFingerprints(fingerprint, toFingerprint(row));
+    if (reasons.length > 0 && (!best || rank({ row, reasons }) > rank(best))) best = { row, reasons };
+  }
+
+  let match: CampaignMatch | undefined;
+  if (best) {
+    const campaignId = best.row.campaign_id ?? randomUUID();
+    if (!best.row.campaign_id) {
+      db.prepare('UPDATE scan_fingerprints SET campaign_id = ? WHERE scan_id = ?').run(campaignId, best.row.scan_id);
+    }
+    const { id, size, phishing, firstSeen, lastSeen, verdict } = summarise(campaignId, memberRows(campaignId).map(toMember));
+    match = { id, matchedOn: best.reasons, size, phishing, firstSeen, lastSeen, verdict };
+  }
+
+  db.prepare(`
+    INSERT INTO scan_fingerprints (scan_id, created_at, campaign_id, simhash, urls, infrastructure, attachments)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    scanId,
+    createdAt,
+    match?.id ?? null,
+    fingerprint.simhash,
+    JSON.stringify(fingerprint.urls),
+    JSON.stringify(fingerprint.infrastructure),
+    JSON.stringify(fingerprint.attachments)
+  );
+  return match;
+}
+
+/** Campaigns with at least two stored scans, most recently active first. */
+export function listCampaigns(): CampaignSummary[] {
+  const ids = getDb().prepare(`
+    SELECT f.campaign_id AS id FROM scan_fingerprints f JOIN scans s ON s.id = f.scan_id
+    WHERE f.campaign_id IS NOT NULL
+    GROUP BY f.campaign_id HAVING COUNT(*) >= 2
+    ORDER BY MAX(s.created_at) DESC LIMIT ?
+  `).all(MAX_CAMPAIGNS) as { id: string }[];
+  return ids.map(({ id }) => summarise(id, memberRows(id).map(toMember)));
+}
+
+function countAcross<T>(lists: T[][], keyOf: (item: T) => string): { item: T; count: number }[] {
+  const counts = new Map<string, { item: T; count: number }>();
+  for (const list of lists) {
+    // Counted once per member, however often it appears in that message.
+    for (const item of new Map(list.map(i => [keyOf(i), i])).values()) {
+      const entry = counts.get(keyOf(item)) ?? { item, count: 0 };
+      entry.count++;
+      counts.set(keyOf(item), entry);
+    }
+  }
+  return [...counts.values()].filter(e => e.count >= 2).sort((a, b) => b.count - a.count).slice(0, MAX_COMMON);
+}
+
+export function getCampaign(id: string): CampaignDetail | null {
+  const rows = memberRows(id);
+  if (rows.length === 0) return null;
+  const members = rows.map(toMember);
+  const results = rows.map(row => JSON.parse(row.result) as AnalysisResult);
+  return {
+    ...summarise(id, members),
+    members,
+    commonIndicators: countAcross(results.map(r => (r.indicators ?? []).filter(i => i.weight > 0)), i => i.title)
+      .map(({ item, count }) => ({ title: item.title, count })),
+    commonIocs: countAcross(results.map(r => r.iocs ?? []), i => `${i.type}|${i.value}`)
+      .map(({ item, count }) => ({ type: item.type, value: item.value, defanged: item.defanged, count })),
+  };
+}
+
+/** Fingerprints scans stored before campaigns existed, oldest first, so they cluster like new ones. */
+export function backfillFingerprints() {
+  const db = getDb();
+  const rows = db.prepare(`
+    SELECT id, created_at, source, result FROM scans
+    WHERE id NOT IN (SELECT scan_id FROM scan_fingerprints) ORDER BY created_at
+  `).all() as { id: string; created_at: number; source: string; result: string }[];
+  for (const row of rows) {
+    const email = parseEmail(row.source);
+    const { iocs } = JSON.parse(row.result) as AnalysisResult;
+    db.transaction(() => assignCampaign(row.id, fingerprintEmail(email, iocs ?? extractIocs(email)), row.created_at))();
+  }
+  if (rows.length > 0) console.log(`Fingerprinted ${rows.length} earlier scans for campaign grouping.`);
+}
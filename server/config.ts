@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import dotenv from 'dotenv';
+import type { ScoreThresholds } from '../src/types';
+import { DEFAULT_THRESHOLDS } from '../src/lib/scoring';
+
+dotenv.config({ path: ['.env.local', '.env'], quiet: true });
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Comma-separated list, always including the configured default first.
+function listFromEnv(name: string, first: string, fallback: string[] = []): string[] {
+  const values = (process.env[name] ?? '').split(',').map(v => v.trim()).filter(Boolean);
+  return [...new Set([first, ...(values.length > 0 ? values : fallback)])];
+}
+
+function thresholdsFromEnv(): ScoreThresholds {
+  const medium = numberFromEnv('RISK_THRESHOLD_MEDIUM', DEFAULT_THRESHOLDS.medium);
+  const high = numberFromEnv('RISK_THRESHOLD_HIGH', DEFAULT_THRESHOLDS.high);
+  return medium < high && high <= 100 ? { medium, high } : DEFAULT_THRESHOLDS;
+}
+
+// Express "trust proxy": off unless set, a hop count, or addresses and subnets (e.g. "loopback, 10.0.0.0/8").
+function trustProxyFromEnv(): boolean | number | string {
+  const value = (process.env.TRUST_PROXY ?? '').trim();
+  if (!value || value === 'false') return false;
+  if (value === 'true') return true;
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
+
+const geminiModel = process.env.GEMINI_MODEL ?? 'gemini-3-flash-preview';
+const openAiModel = process.env.OPENAI_MODEL ?? 'llama3.1';
+
+export const config = {
+  port: numberFromEnv('PORT', 3000),
+  production: process.env.NODE_ENV === 'production',
+  // Whether req.ip, and so the per-IP rate limit, may come from X-Forwarded-For.
+  trustProxy: trustProxyFromEnv(),
+  geminiApiKey: process.env.GEMINI_API_KEY ?? '',
+  // Provider used when a request does not pick one: gemini, openai, heuristics or mock.
+  analysisProvider: process.env.ANALYSIS_PROVIDER ?? 'gemini',
+  geminiModel,
+  // Models the UI may choose from.
+  geminiModels: listFromEnv('GEMINI_MODELS', geminiModel, ['gemini-3-pro-preview', 'gemini-2.5-flash']),
+  // Any server speaking the OpenAI chat completions API (Ollama, vLLM, llama.cpp, LM Studio...).
+  openAiBaseUrl: process.env.OPENAI_BASE_URL ?? '',
+  openAiApiKey: process.env.OPENAI_API_KEY ?? '',
+  openAiModel,
+  openAiModels: listFromEnv('OPENAI_MODELS', openAiModel),
+  // JSON file of canned model responses for the mock provider.
+  mockFixturesPath: process.env.MOCK_FIXTURES_PATH ?? 'fixtures/mock-analyses.json',
+  databasePath: process.env.DATABASE_PATH ?? 'data/phishguard.db',
+  // Body size accepted by the API; raw messages with attachments can be large.
+  maxRequestSize: process.env.MAX_REQUEST_SIZE ?? '10mb',
+  // Deadline for one analysis, retries included; requests may ask for less.
+  analysisTimeoutMs: numberFromEnv('ANALYSIS_TIMEOUT_MS', 120_000),
+  // Attempts per model call when the provider fails transiently (rate limits, network errors, malformed replies).
+  analysisMaxAttempts: numberFromEnv('ANALYSIS_MAX_ATTEMPTS', 3),
+  analysisRetryDelayMs: numberFromEnv('ANALYSIS_RETRY_DELAY_MS', 1_000),
+  // Bulk uploads (mbox exports, folders of .eml files) get a larger body limit.
+  maxBatchSize: process.env.MAX_BATCH_SIZE ?? '50mb',
+  batchMaxMessages: numberFromEnv('BATCH_MAX_MESSAGES', 1000),
+  // Messages one client may have waiting or in progress across all its batch jobs.
+  batchMaxQueued: numberFromEnv('BATCH_MAX_QUEUED', 2000),
+  // Messages analysed at once across all batch jobs.
+  batchConcurrency: numberFromEnv('BATCH_CONCURRENCY', 2),
+  // Attempts per message; failed model calls are retried with exponential backoff.
+  batchMaxAttempts: numberFromEnv('BATCH_MAX_ATTEMPTS', 3),
+  batchRetryDelayMs: numberFromEnv('BATCH_RETRY_DELAY_MS', 2_000),
+  // Shared secret for managing API keys and webhooks; management is disabled while it is empty.
+  adminToken: process.env.ADMIN_TOKEN ?? '',
+  // Integration API (/api/v1) requests per API key and rate-limit window.
+  apiRateLimitMax: numberFromEnv('API_RATE_LIMIT_MAX', 60),
+  // Attempts per webhook delivery, with exponential backoff between them.
+  webhookMaxAttempts: numberFromEnv('WEBHOOK_MAX_ATTEMPTS', 5),
+  webhookRetryDelayMs: numberFromEnv('WEBHOOK_RETRY_DELAY_MS', 5_000),
+  webhookTimeoutMs: numberFromEnv('WEBHOOK_TIMEOUT_MS', 10_000),
+  // How far back new scans are compared with earlier ones when grouping them into campaigns.
+  campaignWindowDays: numberFromEnv('CAMPAIGN_WINDOW_DAYS', 30),
+  rateLimitWindowMs: numberFromEnv('RATE_LIMIT_WINDOW_MS', 60_000),
+  rateLimitMax: numberFromEnv('RATE_LIMIT_MAX', 10),
+  // authserv-ids of the organization's receiving servers; only their Authentication-Results headers are believed.
+  trustedAuthservIds: (process.env.TRUSTED_AUTHSERV_IDS ?? '').split(',').map(id => id.trim()).filter(Boolean),
+  // Risk score (0–100) at which a scan becomes Medium or High risk.
+  scoreThresholds: thresholdsFromEnv(),
+};
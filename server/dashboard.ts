@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  AnalysisResult,
+  AnalystFeedback,
+  DashboardBucket,
+  DashboardCount,
+  DashboardData,
+  DashboardExportFormat,
+  DashboardQuery,
+  RiskLevel,
+} from '../src/types';
+import { isPhishingVerdict } from '../src/lib/evaluation';
+import { csvCell } from '../src/lib/iocs';
+import { getDb } from './db';
+
+const DAY = 24 * 60 * 60 * 1000;
+// Longer ranges are charted by week so the timeline stays readable.
+const MAX_DAILY_BUCKETS = 120;
+const MAX_RANKED = 10;
+
+interface DashboardRow {
+  created_at: number;
+  is_phishing: number;
+  risk_level: RiskLevel;
+  result: string;
+  feedback: string | null;
+  infrastructure: string | null;
+}
+
+function impersonations(result: AnalysisResult): { brands: string[]; domains: string[] } {
+  const found = [
+    ...(result.linkIndicators ?? []).flatMap(link => link.impersonates ?? []),
+    ...(result.headerIndicators ?? []).filter(h => h.status === 'fail').flatMap(h => h.impersonates ?? []),
+  ];
+  return {
+    brands: found.flatMap(i => (i.brand ? [i.brand] : [])),
+    domains: found.flatMap(i => (i.domain ? [i.domain.toLowerCase()] : [])),
+  };
+}
+
+class Counter {
+  private counts = new Map<string, number>();
+
+  add(values: Iterable<string>) {
+    for (const value of new Set(values)) this.counts.set(value, (this.counts.get(value) ?? 0) + 1);
+  }
+
+  top(): DashboardCount[] {
+    return [...this.counts]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, MAX_RANKED)
+      .map(([label, count]) => ({ label, count }));
+  }
+}
+
+/** Start of the local day or ISO week (Monday) containing the given time. */
+function bucketStart(time: number, interval: DashboardData['interval'], offset: number): number {
+  const day = Math.floor((time - offset) / DAY);
+  // 1970-01-01 was a Thursday, three days after a Monday.
+  const start = interval === 'week' ? day - ((day + 3) % 7) : day;
+  return start * DAY + offset;
+}
+
+/**
+ * Aggregates every stored scan in the range: volume and detections over
+ * time, the risk-level mix, and which brands, domains, indicator categories
+ * and sending infrastructure show up most among detections.
+ */
+export function buildDashboard(query: DashboardQuery): DashboardData {
+  const conditions: string[] = [];
+  const params: Record<string, unknown> = {};
+  if (query.since !== undefined) {
+    conditions.push('s.created_at >= @since');
+    params.since = query.since;
+  }
+  if (query.until !== undefined) {
+    conditions.push('s.created_at < @until');
+    params.until = query.until;
+  }
+  const rows = getDb().prepare(`
+    SELECT s.created_at, s.is_phishing, s.risk_level, s.result, s.feedback, f.infrastructure
+    FROM scans s LEFT JOIN scan_fingerprints f ON f.scan_id = s.id
+    ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+    ORDER BY s.created_at
+  `).all(params) as DashboardRow[];
+
+  // tzOffset is in minutes and positive west of UTC, as Date.getTimezoneOffset() returns it.
+  const offset = (query.tzOffset ?? 0) * 60 * 1000;
+  const first = query.since ?? rows[0]?.created_at;
+  const last = query.until !== undefined ? query.until - 1 : rows.at(-1)?.created_at;
+  const interval = first !== undefined && last !== undefined && (last - first) / DAY > MAX_DAILY_BUCKETS ? 'week' : 'day';
+
+  const timeline = new Map<number, DashboardBucket>();
+  if (first !== undefined && last !== undefined) {
+    // Empty days and weeks are kept so gaps show on the chart.
+    const step = interval === 'week' ? 7 * DAY : DAY;
+    for (let start = bucketStart(first, interval, offset); start <= last; start += step) {
+      timeline.set(start, { start, scans: 0, detections: 0 });
+    }
+  }
+
+  const totals = { scans: 0, detections: 0, confirmed: 0, falsePositives: 0 };
+  const riskLevels: Record<RiskLevel, number> = { Low: 0, Medium: 0, High: 0 };
+  const brands = new Counter();
+  const domains = new Counter();
+  const categories = new Counter();
+  const infrastructure = new Counter();
+
+  for (const row of rows) {
+    const label = row.feedback ? (JSON.parse(row.feedback) as AnalystFeedback).label : undefined;
+    const detected = isPhishingVerdict(label, row.is_phishing === 1);
+    const bucket = timeline.get(bucketStart(row.created_at, interval, offset));
+    totals.scans++;
+    riskLevels[row.risk_level]++;
+    if (bucket) bucket.scans++;
+    if (label === 'false-positive') totals.falsePositives++;
+    if (!detected) continue;
+
+    totals.detections++;
+    if (label) totals.confirmed++;
+    if (bucket) bucket.detections++;
+    const result = JSON.parse(row.result) as AnalysisResult;
+    const impersonated = impersonations(result);
+    brands.add(impersonated.brands);
+    domains.add(impersonated.domains);
+    categories.add((result.indicators ?? []).filter(i => i.weight > 0).map(i => i.category));
+    infrastructure.add(row.infrastructure ? (JSON.parse(row.infrastructure) as string[]) : []);
+  }
+
+  return {
+    ...(query.since !== undefined ? { since: query.since } : {}),
+    ...(query.until !== undefined ? { until: query.until } : {}),
+    interval,
+    totals,
+    timeline: [...timeline.values()],
+    riskLevels,
+    brands: brands.top(),
+    domains: domains.top(),
+    categories: categories.top(),
+    infrastructure: infrastructure.top(),
+  };
+}
+
+export function isDashboardExportFormat(value: unknown): value is DashboardExportFormat {
+  return value === 'csv' || value === 'json';
+}
+
+// One table for every chart: section, label, value. Days are dated in the viewer's time zone.
+function dashboardToCsv(data: DashboardData, tzOffset = 0): string {
+  const day = (time: number) => new Date(time - tzOffset * 60 * 1000).toISOString().slice(0, 10);
+  const rows: (string | number)[][] = [
+    ['section', 'label', 'value'],
+    ...Object.entries(data.totals).map(([key, value]) => ['totals', key, value]),
+    ...data.timeline.flatMap(b => [[`${data.interval}_scans`, day(b.start), b.scans], [`${data.interval}_detections`, day(b.start), b.detections]]),
+    ...Object.entries(data.riskLevels).map(([level, count]) => ['risk_level', level, count]),
+    ...data.brands.map(c => ['brand', c.label, c.count]),
+    ...data.domains.map(c => ['impersonated_domain', c.label, c.count]),
+    ...data.categories.map(c => ['indicator_category', c.label, c.count]),
+    ...data.infrastructure.map(c => ['sending_infrastructure', c.label, c.count]),
+  ];
+  return rows.map(row => row.map(value => csvCell(String(value))).join(',')).join('\r\n') + '\r\n';
+}
+
+/** Renders the dashboard for a range as a downloadable file. */
+export function exportDashboard(query: DashboardQuery, format: DashboardExportFormat) {
+  const data = buildDashboard(query);
+  const stamp = new Date().toISOString().slice(0, 10);
+  return format === 'csv'
+    ? { filename: `phishguard-dashboard-${stamp}.csv`, mimeType: 'text/csv', body: dashboardToCsv(data, query.tzOffset) }
+    : { filename: `phishguard-dashboard-${stamp}.json`, mimeType: 'application/json', body: JSON.stringify({ generatedAt: new Date().toISOString(), ...data }, null, 2) };
+}
@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { config } from './config';
+
+// Each entry upgrades the schema by one version, tracked in PRAGMA user_version.
+// Append new migrations; never edit one that has shipped.
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE scans (
+    id TEXT PRIMARY KEY,
+    created_at INTEGER NOT NULL,
+    subject TEXT NOT NULL DEFAULT '',
+    sender TEXT NOT NULL DEFAULT '',
+    preview TEXT NOT NULL DEFAULT '',
+    source TEXT NOT NULL,
+    headers TEXT NOT NULL,
+    result TEXT NOT NULL,
+    model TEXT NOT NULL,
+    risk_level TEXT NOT NULL,
+    is_phishing INTEGER NOT NULL
+  );
+  CREATE INDEX scans_created_at ON scans (created_at DESC);
+  CREATE VIRTUAL TABLE scans_fts USING fts5(
+    scan_id UNINDEXED,
+    subject,
+    sender,
+    body,
+    analysis,
+    tokenize = 'unicode61 remove_diacritics 2'
+  );
+  `,
+  `
+  CREATE TABLE settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  `,
+  `
+  ALTER TABLE scans ADD COLUMN feedback TEXT;
+  `,
+  `
+  CREATE TABLE api_keys (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    prefix TEXT NOT NULL,
+    key_hash TEXT NOT NULL UNIQUE,
+    created_at INTEGER NOT NULL,
+    last_used_at INTEGER
+  );
+  CREATE TABLE api_submissions (
+    id TEXT PRIMARY KEY,
+    created_at INTEGER NOT NULL,
+    api_key_id TEXT,
+    integration TEXT NOT NULL,
+    status TEXT NOT NULL,
+    error TEXT
+  );
+  CREATE TABLE webhooks (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    url TEXT NOT NULL,
+    secret TEXT NOT NULL,
+    min_risk TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    last_delivery TEXT
+  );
+  `,
+  `
+  CREATE TABLE scan_fingerprints (
+    scan_id TEXT PRIMARY KEY,
+    created_at INTEGER NOT NULL,
+    campaign_id TEXT,
+    simhash TEXT NOT NULL,
+    urls TEXT NOT NULL,
+    infrastructure TEXT NOT NULL,
+    attachments TEXT NOT NULL
+  );
+  CREATE INDEX scan_fingerprints_created_at ON scan_fingerprints (created_at DESC);
+  CREATE INDEX scan_fingerprints_campaign ON scan_fingerprints (campaign_id);
+  `,
+];
+
+let db: Database.Database | null = null;
+
+function migrate(database: Database.Database) {
+  const version = database.pragma('user_version', { simple: true }) as number;
+  for (let i = version; i < MIGRATIONS.length; i++) {
+    database.transaction(() => {
+      database.exec(MIGRATIONS[i]);
+      database.pragma(`user_version = ${i + 1}`);
+    })();
+  }
+}
+
+export function getDb(): Database.Database {
+  if (!db) {
+    if (config.databasePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(config.databasePath), { recursive: true });
+    }
+    db = new Database(config.databasePath);
+    db.pragma('journal_mode = WAL');
+    db.pragma('foreign_keys = ON');
+    migrate(db);
+  }
+  return db;
+}
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ErrorRequestHandler } from 'express';
+import type { AnalysisErrorCode } from '../src/types';
+import { ModelOutputError } from '../src/lib/validation';
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const ANALYSIS_STATUS: Record<AnalysisErrorCode, number> = {
+  quota: 429,
+  network: 502,
+  timeout: 504,
+  // nginx's "client closed request".
+  cancelled: 499,
+  safety_block: 422,
+  invalid_model_response: 502,
+  provider_error: 502,
+};
+
+/** A failed model call, classified so callers can decide whether to retry and users see what went wrong. */
+export class AnalysisError extends Error {
+  constructor(
+    public code: AnalysisErrorCode,
+    message: string,
+    public retryable = false,
+    public details: string[] = []
+  ) {
+    super(message);
+    this.name = 'AnalysisError';
+  }
+
+  get status(): number {
+    return ANALYSIS_STATUS[this.code];
+  }
+}
+
+const NETWORK_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'ETIMEDOUT', 'EAI_AGAIN', 'EHOSTUNREACH', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'];
+
+function networkCode(err: unknown): string | undefined {
+  // fetch wraps the socket error as the cause of a TypeError("fetch failed").
+  for (let e = err as { code?: unknown; cause?: unknown } | undefined, depth = 0; e && depth < 3; e = e.cause as typeof e, depth++) {
+    if (typeof e.code === 'string' && NETWORK_CODES.includes(e.code)) return e.code;
+  }
+  return err instanceof TypeError && err.message === 'fetch failed' ? 'fetch failed' : undefined;
+}
+
+/**
+ * Sorts whatever a provider threw into an AnalysisError. Errors we raised
+ * ourselves (bad configuration, invalid input) are returned unchanged, since
+ * they fail the same way on every attempt.
+ */
+export function classifyError(err: unknown): Error {
+  if (err instanceof AnalysisError || err instanceof HttpError) return err;
+  if (err instanceof ModelOutputError) {
+    return new AnalysisError('invalid_model_response', err.message, true, err.problems);
+  }
+  const message = err instanceof Error ? err.message : String(err);
+  const status = (err as { status?: unknown } | null)?.status;
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) {
+    return new AnalysisError('quota', `The model provider's rate limit or quota was exceeded: ${message}`, true);
+  }
+  const code = networkCode(err);
+  if (code) return new AnalysisError('network', `Could not reach the model provider (${code}).`, true);
+  if (typeof status === 'number') {
+    return new AnalysisError('provider_error', `The model provider failed with status ${status}: ${message}`, status >= 500);
+  }
+  return new AnalysisError('provider_error', message || 'The model provider failed.', true);
+}
+
+/** Whether another attempt might succeed. */
+export function isRetryable(err: unknown): boolean {
+  const classified = classifyError(err);
+  return classified instanceof AnalysisError && classified.retryable;
+}
+
+export interface ErrorPayload {
+  error: string;
+  code?: AnalysisErrorCode;
+  details?: string[];
+}
+
+/**
+ * The status and body a client sees for an error, logging the ones that are
+ * our fault. Shared by errorHandler and the streaming endpoint, which reports
+ * failures after its headers are sent.
+ */
+export function toErrorPayload(err: unknown): { status: number; body: ErrorPayload } {
+  if (err instanceof AnalysisError) {
+    if (err.code === 'invalid_model_response') console.error('Model response failed validation:', err.details);
+    return { status: err.status, body: { error: err.message, code: err.code, details: err.details } };
+  }
+  // body-parser reports oversized and malformed bodies with their own status.
+  const reported = (err as { status?: unknown } | null)?.status;
+  const status = err instanceof HttpError ? err.status : typeof reported === 'number' ? reported : 500;
+  if (status >= 500) console.error('Request failed:', err);
+  const message = err instanceof Error ? err.message : String(err);
+  return { status, body: { error: status >= 500 && !(err instanceof HttpError) ? 'Internal server error.' : message } };
+}
+
+export const errorHandler: ErrorRequestHandler = (err, _req, res, _next) => {
+  const { status, body } = toErrorPayload(err);
+  res.status(status).json(body);
+};
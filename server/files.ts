@@ -0,0 +1,19 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'fs';
+import type { PolicyProfile } from '../src/types';
+import { EMPTY_POLICY, parsePolicy } from '../src/lib/policy';
+
+/** Reads a raw message from a file, or from standard input when given descriptor 0. */
+export function readMessageFile(file: string | number): string {
+  // latin1 keeps 8bit parts byte-for-byte so their declared charset decodes them, as in the browser.
+  return fs.readFileSync(file, 'latin1');
+}
+
+/** Reads an organization policy exported from the app; no file means no policy. */
+export function readPolicyFile(file: string | undefined): PolicyProfile {
+  return file ? parsePolicy(JSON.parse(fs.readFileSync(file, 'utf8'))) : EMPTY_POLICY;
+}
@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { FinishReason, GoogleGenAI, Type } from '@google/genai';
+import { INDICATOR_CATEGORIES, SEVERITIES, SYSTEM_INSTRUCTION } from '../src/lib/prompt';
+import { parseModelJson } from '../src/lib/validation';
+import { config } from './config';
+import { AnalysisError, HttpError } from './errors';
+import type { AnalysisProvider } from './providers';
+
+export const RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    isPhishing: { type: Type.BOOLEAN, description: "Whether the email is likely a phishing attempt." },
+    confidence: { type: Type.NUMBER, description: "Confidence in the isPhishing verdict, from 0 to 100." },
+    indicators: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING, description: "Short description of one specific suspicious element." },
+          category: { type: Type.STRING, enum: INDICATOR_CATEGORIES, description: "What kind of evidence this is." },
+          severity: { type: Type.STRING, enum: SEVERITIES, description: "How strongly this element points to phishing." },
+          evidence: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "Up to 3 short excerpts copied verbatim from the email headers or plain-text body that show this element."
+          }
+        },
+        required: ["title", "category", "severity"]
+      },
+      description: "List of specific suspicious elements found."
+    },
+    recommendation: { type: Type.STRING, description: "Final recommendation for the user." },
+    summary: { type: Type.STRING, description: "A brief summary of the findings." },
+    technicalDetails: { type: Type.STRING, description: "A more detailed technical explanation of the analysis (Markdown supported)." }
+  },
+  required: ["isPhishing", "confidence", "indicators", "recommendation", "summary", "technicalDetails"]
+};
+
+let client: GoogleGenAI | null = null;
+
+// Finish reasons meaning Gemini withheld the answer rather than completing it.
+const BLOCKED_FINISH_REASONS = new Set<string>([
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.RECITATION,
+]);
+
+/**
+ * Streams the reply, passing each piece to onText, and returns it parsed but
+ * unvalidated; the pipeline checks it against the schema.
+ */
+export async function generateAnalysis(
+  prompt: string,
+  model = config.geminiModel,
+  { signal, onText }: { signal?: AbortSignal; onText?: (text: string) => void } = {}
+): Promise<unknown> {
+  if (!config.geminiApiKey) {
+    throw new HttpError(500, 'GEMINI_API_KEY is not configured on the server.');
+  }
+  client ??= new GoogleGenAI({ apiKey: config.geminiApiKey });
+
+  const stream = await client.models.generateContentStream({
+    model,
+    contents: prompt,
+    config: {
+      systemInstruction: SYSTEM_INSTRUCTION,
+      responseMimeType: "application/json",
+      responseSchema: RESPONSE_SCHEMA,
+      abortSignal: signal,
+    }
+  });
+
+  let text = '';
+  for await (const chunk of stream) {
+    const blockReason = chunk.promptFeedback?.blockReason;
+    if (blockReason) {
+      throw new AnalysisError('safety_block', `Gemini refused to analyse this message (${blockReason}).`);
+    }
+    const finishReason = chunk.candidates?.[0]?.finishReason;
+    if (finishReason && BLOCKED_FINISH_REASONS.has(finishReason)) {
+      throw new AnalysisError('safety_block', `Gemini stopped its answer for safety reasons (${finishReason}).`);
+    }
+    const piece = chunk.text ?? '';
+    if (piece) {
+      text += piece;
+      onText?.(piece);
+    }
+  }
+
+  return parseModelJson(text);
+}
+
+export const geminiProvider: AnalysisProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  models: () => config.geminiModels,
+  defaultModel: () => config.geminiModel,
+  available: () => Boolean(config.geminiApiKey),
+  analyze: ({ prompt, signal, onText }, model) => generateAnalysis(prompt, model, { signal, onText }),
+};
@@ -0,0 +1,200 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomUUID } from 'crypto';
+import type { AnalysisResult, AnalystFeedback, ApiScan, FeedbackLabel, HistoryItem, HistoryPage, HistoryQuery, ParsedEmail, ScanRecord } from '../src/types';
+import { formatAddress } from '../src/lib/mime';
+import { fingerprintEmail } from '../src/lib/fingerprint';
+import { assignCampaign } from './campaigns';
+import { getDb } from './db';
+
+const MAX_PAGE_SIZE = 100;
+const DEFAULT_PAGE_SIZE = 10;
+
+interface ScanRow {
+  id: string;
+  created_at: number;
+  subject: string;
+  sender: string;
+  preview: string;
+  source: string;
+  headers: string;
+  result: string;
+  model: string;
+  feedback: string | null;
+}
+
+function toHistoryItem(row: Omit<ScanRow, 'source' | 'headers'>): HistoryItem {
+  return {
+    id: row.id,
+    timestamp: row.created_at,
+    emailPreview: row.preview,
+    subject: row.subject,
+    sender: row.sender,
+    model: row.model,
+    result: JSON.parse(row.result) as AnalysisResult,
+    ...(row.feedback ? { feedback: JSON.parse(row.feedback) as AnalystFeedback } : {}),
+  };
+}
+
+/** The integration API representation of a stored scan. */
+export function toApiScan(scan: HistoryItem, integration?: string): ApiScan {
+  return {
+    id: scan.id,
+    status: 'completed',
+    createdAt: scan.timestamp,
+    ...(integration ? { integration } : {}),
+    subject: scan.subject,
+    sender: scan.sender,
+    result: scan.result,
+    ...(scan.feedback ? { feedback: scan.feedback } : {}),
+  };
+}
+
+/** Turns free text into an FTS5 query that matches every word as a prefix. */
+function toFtsQuery(text: string): string {
+  return text
+    .split(/\s+/)
+    .map(word => word.replace(/"/g, ''))
+    .filter(Boolean)
+    .map(word => `"${word}"*`)
+    .join(' ');
+}
+
+export interface NewScan {
+  // Chosen up front when the id was handed out before the analysis finished,
+  // so the scan keeps the id and creation time the caller was given.
+  id?: string;
+  timestamp?: number;
+  source: string;
+  email: ParsedEmail;
+  result: AnalysisResult;
+  model: string;
+}
+
+export function saveScan({ id, timestamp, source, email, result, model }: NewScan): ScanRecord {
+  const db = getDb();
+  const preview = (email.subject || email.text || source).replace(/\s+/g, ' ').trim();
+  const record: ScanRecord = {
+    id: id ?? randomUUID(),
+    timestamp: timestamp ?? Date.now(),
+    emailPreview: preview.slice(0, 100) + (preview.length > 100 ? '...' : ''),
+    subject: email.subject,
+    sender: email.from.map(formatAddress).join(', '),
+    model,
+    result,
+    source,
+    headers: email.headers,
+  };
+
+  db.transaction(() => {
+    const campaign = assignCampaign(record.id, fingerprintEmail(email, result.iocs ?? []), record.timestamp);
+    if (campaign) record.result = { ...result, campaign };
+    db.prepare(`
+      INSERT INTO scans (id, created_at, subject, sender, preview, source, headers, result, model, risk_level, is_phishing)
+      VALUES (@id, @timestamp, @subject, @sender, @emailPreview, @source, @headers, @result, @model, @riskLevel, @isPhishing)
+    `).run({
+      ...record,
+      headers: JSON.stringify(record.headers),
+      result: JSON.stringify(record.result),
+      riskLevel: result.riskLevel,
+      isPhishing: result.isPhishing ? 1 : 0,
+    });
+    db.prepare(`
+      INSERT INTO scans_fts (scan_id, subject, sender, body, analysis) VALUES (?, ?, ?, ?, ?)
+    `).run(
+      record.id,
+      record.subject,
+      record.sender,
+      email.text,
+      [result.summary, ...result.suspiciousIndicators].join('\n')
+    );
+  })();
+
+  return record;
+}
+
+/** Scans matching the query, newest first; `apiKeyId` narrows them to those submitted with that API key. */
+export function listScans(query: HistoryQuery, apiKeyId?: string): HistoryPage {
+  const db = getDb();
+  const page = Math.max(1, Math.floor(query.page ?? 1));
+  const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(query.pageSize ?? DEFAULT_PAGE_SIZE)));
+
+  const conditions: string[] = [];
+  const params: Record<string, unknown> = {};
+  const fts = query.q ? toFtsQuery(query.q) : '';
+  if (fts) {
+    conditions.push('id IN (SELECT scan_id FROM scans_fts WHERE scans_fts MATCH @fts)');
+    params.fts = fts;
+  }
+  if (apiKeyId !== undefined) {
+    conditions.push('id IN (SELECT id FROM api_submissions WHERE api_key_id = @apiKeyId)');
+    params.apiKeyId = apiKeyId;
+  }
+  if (query.riskLevel) {
+    conditions.push('risk_level = @riskLevel');
+    params.riskLevel = query.riskLevel;
+  }
+  if (query.verdict) {
+    conditions.push('is_phishing = @isPhishing');
+    params.isPhishing = query.verdict === 'phishing' ? 1 : 0;
+  }
+  if (query.since !== undefined) {
+    conditions.push('created_at >= @since');
+    params.since = query.since;
+  }
+  if (query.until !== undefined) {
+    conditions.push('created_at < @until');
+    params.until = query.until;
+  }
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const { total } = db.prepare(`SELECT COUNT(*) AS total FROM scans ${where}`).get(params) as { total: number };
+  const rows = db.prepare(`
+    SELECT id, created_at, subject, sender, preview, result, model, feedback FROM scans ${where}
+    ORDER BY created_at DESC LIMIT @limit OFFSET @offset
+  `).all({ ...params, limit: pageSize, offset: (page - 1) * pageSize }) as ScanRow[];
+  const totals = db.prepare(`
+    SELECT COUNT(*) AS scans, COALESCE(SUM(is_phishing), 0) AS phishing FROM scans
+  `).get() as HistoryPage['totals'];
+
+  return { items: rows.map(toHistoryItem), total, page, pageSize, totals };
+}
+
+export function getScan(id: string): ScanRecord | null {
+  const row = getDb().prepare('SELECT * FROM scans WHERE id = ?').get(id) as ScanRow | undefined;
+  if (!row) return null;
+  return { ...toHistoryItem(row), source: row.source, headers: JSON.parse(row.headers) };
+}
+
+export function deleteScan(id: string): boolean {
+  const db = getDb();
+  return db.transaction(() => {
+    db.prepare('DELETE FROM scans_fts WHERE scan_id = ?').run(id);
+    db.prepare('DELETE FROM scan_fingerprints WHERE scan_id = ?').run(id);
+    return db.prepare('DELETE FROM scans WHERE id = ?').run(id).changes > 0;
+  })();
+}
+
+/** Records an analyst's verdict on a scan, replacing any earlier one; null clears it. */
+export function setFeedback(id: string, feedback: AnalystFeedback | null): boolean {
+  return getDb()
+    .prepare('UPDATE scans SET feedback = ? WHERE id = ?')
+    .run(feedback ? JSON.stringify(feedback) : null, id).changes > 0;
+}
+
+export interface LabeledScan {
+  id: string;
+  source: string;
+  label: FeedbackLabel;
+}
+
+/** Scans an analyst has labelled, oldest first, for use as an evaluation corpus. */
+export function listLabeledScans(): LabeledScan[] {
+  const rows = getDb()
+    .prepare('SELECT id, source, feedback FROM scans WHERE feedback IS NOT NULL ORDER BY created_at')
+    .all() as { id: string; source: string; feedback: string }[];
+  return rows.map(row => ({ id: row.id, source: row.source, label: (JSON.parse(row.feedback) as AnalystFeedback).label }));
+}
@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { IocExportFormat, ScanRecord } from '../src/types';
+import { parseEmail } from '../src/lib/mime';
+import { inspectAttachments } from '../src/lib/attachments';
+import { IOC_EXPORTS, extractIocs, type IocExportScan } from '../src/lib/iocs';
+import { HttpError } from './errors';
+import { getScan } from './history';
+
+export const MAX_EXPORT_SCANS = 500;
+
+export function isExportFormat(value: unknown): value is IocExportFormat {
+  return typeof value === 'string' && Object.hasOwn(IOC_EXPORTS, value);
+}
+
+async function toExportScan(scan: ScanRecord): Promise<IocExportScan> {
+  let iocs = scan.result.iocs;
+  // Scans stored before IOC extraction existed are re-read from their source.
+  if (!iocs) {
+    const email = parseEmail(scan.source);
+    iocs = extractIocs(email, scan.result.attachmentReports ?? await inspectAttachments(email));
+  }
+  return { id: scan.id, subject: scan.subject, timestamp: scan.timestamp, isPhishing: scan.result.isPhishing, iocs };
+}
+
+/** Renders the IOCs of the given stored scans as one downloadable file. */
+export async function exportScanIocs(ids: string[], format: IocExportFormat) {
+  if (ids.length === 0) throw new HttpError(400, 'Select at least one scan to export.');
+  if (ids.length > MAX_EXPORT_SCANS) throw new HttpError(400, `At most ${MAX_EXPORT_SCANS} scans can be exported at once.`);
+
+  const scans: IocExportScan[] = [];
+  for (const id of ids) {
+    const scan = getScan(id);
+    if (!scan) throw new HttpError(404, `Scan ${id} not found.`);
+    scans.push(await toExportScan(scan));
+  }
+
+  const { extension, mimeType, render } = IOC_EXPORTS[format];
+  const stamp = new Date().toISOString().slice(0, 10);
+  return { filename: `phishguard-iocs-${stamp}.${extension}`, mimeType, body: render(scans) };
+}
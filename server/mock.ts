@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'fs';
+import type { ModelAnalysis, ParsedEmail } from '../src/types';
+import { config } from './config';
+import { HttpError } from './errors';
+import type { AnalysisProvider } from './providers';
+
+/**
+ * A canned model response. Each `match` entry is a case-insensitive regular
+ * expression that must match the named field; the first fixture whose
+ * patterns all match wins, and a fixture without `match` matches everything.
+ */
+interface MockFixture {
+  name?: string;
+  match?: { subject?: string; from?: string; body?: string };
+  analysis: ModelAnalysis;
+}
+
+const MOCK_MODEL = 'fixtures';
+
+// Used when no fixture file exists or nothing in it matches: a neutral
+// verdict, so the score comes from the local checks alone.
+const NEUTRAL: ModelAnalysis = {
+  isPhishing: false,
+  confidence: 50,
+  indicators: [],
+  recommendation: 'Mock provider: no fixture matched this message. Review the local findings.',
+  summary: 'Mock analysis without a matching fixture.',
+  technicalDetails: 'The mock provider returned its neutral default response.',
+};
+
+let cache: { path: string; mtimeMs: number; fixtures: MockFixture[] } | null = null;
+
+function loadFixtures(): MockFixture[] {
+  const path = config.mockFixturesPath;
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(path).mtimeMs;
+  } catch {
+    return [];
+  }
+  if (cache?.path === path && cache.mtimeMs === mtimeMs) return cache.fixtures;
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(path, 'utf8'));
+    if (!Array.isArray(parsed)) throw new Error('expected an array of fixtures');
+    cache = { path, mtimeMs, fixtures: parsed as MockFixture[] };
+    return cache.fixtures;
+  } catch (err) {
+    throw new HttpError(500, `Mock fixtures at ${path} are invalid: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+function matches(fixture: MockFixture, email: ParsedEmail): boolean {
+  const fields = {
+    subject: email.subject,
+    from: email.from.map(a => `${a.name} <${a.address}>`).join(', '),
+    body: email.text,
+  };
+  return Object.entries(fixture.match ?? {}).every(([field, pattern]) =>
+    new RegExp(pattern, 'i').test(fields[field as keyof typeof fields] ?? '')
+  );
+}
+
+export function mockAnalysis(email: ParsedEmail): ModelAnalysis {
+  return loadFixtures().find(fixture => matches(fixture, email))?.analysis ?? NEUTRAL;
+}
+
+export const mockProvider: AnalysisProvider = {
+  id: 'mock',
+  label: 'Mock',
+  models: () => [MOCK_MODEL],
+  defaultModel: () => MOCK_MODEL,
+  available: () => true,
+  analyze: async ({ email }) => structuredClone(mockAnalysis(email)),
+};
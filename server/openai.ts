@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { INDICATOR_CATEGORIES, SEVERITIES, SYSTEM_INSTRUCTION } from '../src/lib/prompt';
+import { ModelOutputError, parseModelJson } from '../src/lib/validation';
+import { config } from './config';
+import { AnalysisError, HttpError } from './errors';
+import type { AnalysisProvider } from './providers';
+
+// Plain JSON Schema equivalent of the Gemini response schema.
+const JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    isPhishing: { type: 'boolean' },
+    confidence: { type: 'number', minimum: 0, maximum: 100 },
+    indicators: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          category: { type: 'string', enum: INDICATOR_CATEGORIES },
+          severity: { type: 'string', enum: SEVERITIES },
+          evidence: { type: 'array', items: { type: 'string' }, maxItems: 3 },
+        },
+        required: ['title', 'category', 'severity'],
+        additionalProperties: false,
+      },
+    },
+    recommendation: { type: 'string' },
+    summary: { type: 'string' },
+    technicalDetails: { type: 'string' },
+  },
+  required: ['isPhishing', 'confidence', 'indicators', 'recommendation', 'summary', 'technicalDetails'],
+  additionalProperties: false,
+};
+
+// Servers without structured-output support still get the schema in the instructions.
+const INSTRUCTIONS = `${SYSTEM_INSTRUCTION}
+
+Respond with a single JSON object and nothing else, matching this JSON Schema:
+${JSON.stringify(JSON_SCHEMA)}`;
+
+/** Yields the JSON payload of each server-sent event in a streamed response. */
+async function* serverSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const data = line.match(/^data:\s?(.*)$/)?.[1];
+      if (data && data !== '[DONE]') yield data;
+    }
+  }
+}
+
+export async function generateOpenAiAnalysis(
+  prompt: string,
+  model = config.openAiModel,
+  { signal, onText }: { signal?: AbortSignal; onText?: (text: string) => void } = {}
+): Promise<unknown> {
+  if (!config.openAiBaseUrl) {
+    throw new HttpError(500, 'OPENAI_BASE_URL is not configured on the server.');
+  }
+
+  const response = await fetch(`${config.openAiBaseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.openAiApiKey ? { Authorization: `Bearer ${config.openAiApiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model,
+      temperature: 0,
+      stream: true,
+      messages: [
+        { role: 'system', content: INSTRUCTIONS },
+        { role: 'user', content: prompt },
+      ],
+      response_format: { type: 'json_schema', json_schema: { name: 'phishing_analysis', schema: JSON_SCHEMA } },
+    }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const detail = await response.text().catch(() => '');
+    // Keep the upstream status so transient failures (429, 5xx) can be retried.
+    throw Object.assign(new Error(`Model server responded with ${response.status}: ${detail.slice(0, 200)}`), {
+      status: response.status,
+    });
+  }
+
+  let content = '';
+  for await (const data of serverSentEvents(response.body)) {
+    let choice;
+    try {
+      choice = JSON.parse(data)?.choices?.[0];
+    } catch {
+      throw new ModelOutputError(['the stream contained an event that is not valid JSON']);
+    }
+    if (choice?.finish_reason === 'content_filter' || choice?.delta?.refusal) {
+      throw new AnalysisError('safety_block', 'The model refused to analyse this message or its content filter blocked the answer.');
+    }
+    const piece = choice?.delta?.content;
+    if (typeof piece === 'string' && piece) {
+      content += piece;
+      onText?.(piece);
+    }
+  }
+
+  // Local models often wrap the JSON in a Markdown fence despite being told not to.
+  return parseModelJson(content);
+}
+
+export const openAiProvider: AnalysisProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  models: () => config.openAiModels,
+  defaultModel: () => config.openAiModel,
+  available: () => Boolean(config.openAiBaseUrl),
+  analyze: ({ prompt, signal, onText }, model) => generateOpenAiAnalysis(prompt, model, { signal, onText }),
+};
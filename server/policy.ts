@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { PolicyProfile } from '../src/types';
+import { EMPTY_POLICY, PolicyError, parsePolicy } from '../src/lib/policy';
+import { getDb } from './db';
+import { HttpError } from './errors';
+
+const POLICY_KEY = 'policy';
+
+/** The organization's saved policy profile, or an empty one before it was first edited. */
+export function getPolicy(): PolicyProfile {
+  const row = getDb().prepare('SELECT value, updated_at FROM settings WHERE key = ?').get(POLICY_KEY) as
+    | { value: string; updated_at: number }
+    | undefined;
+  if (!row) return EMPTY_POLICY;
+  return { ...(JSON.parse(row.value) as PolicyProfile), updatedAt: row.updated_at };
+}
+
+/** Validates and stores a profile, replacing the previous one. */
+export function savePolicy(value: unknown): PolicyProfile {
+  let policy: PolicyProfile;
+  try {
+    policy = parsePolicy(value);
+  } catch (err) {
+    if (err instanceof PolicyError) throw new HttpError(400, err.message);
+    throw err;
+  }
+  const updatedAt = Date.now();
+  getDb().prepare(`
+    INSERT INTO settings (key, value, updated_at) VALUES (?, ?, ?)
+    ON CONFLICT (key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+  `).run(POLICY_KEY, JSON.stringify(policy), updatedAt);
+  return { ...policy, updatedAt };
+}
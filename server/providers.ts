@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Indicator, ParsedEmail, ProviderCatalog, ProviderId, ProviderInfo } from '../src/types';
+import type { AnalysisEvidence } from '../src/lib/prompt';
+import { heuristicAnalysis } from '../src/lib/heuristics';
+import { config } from './config';
+import { HttpError } from './errors';
+import { geminiProvider } from './gemini';
+import { openAiProvider } from './openai';
+import { mockProvider } from './mock';
+
+export interface ProviderInput {
+  email: ParsedEmail;
+  prompt: string;
+  evidence: AnalysisEvidence;
+  // Weighted results of the local checks, for providers that reason without a model.
+  localIndicators: Indicator[];
+  // Aborted when the analysis is cancelled or times out.
+  signal?: AbortSignal;
+  // Receives the model's raw reply piece by piece, for providers that stream.
+  onText?: (text: string) => void;
+}
+
+/**
+ * Produces the model half of an analysis. The pipeline in analyze.ts
+ * validates it and scores it together with the local checks into the final
+ * AnalysisResult, so every provider's verdict is weighed the same way.
+ */
+export interface AnalysisProvider {
+  id: ProviderId;
+  label: string;
+  models: () => string[];
+  defaultModel: () => string;
+  available: () => boolean;
+  // Parsed but untrusted output, expected to match ModelAnalysis.
+  analyze: (input: ProviderInput, model: string) => Promise<unknown>;
+}
+
+const HEURISTICS_MODEL = 'rules-v1';
+
+const heuristicsProvider: AnalysisProvider = {
+  id: 'heuristics',
+  label: 'Offline Heuristics',
+  models: () => [HEURISTICS_MODEL],
+  defaultModel: () => HEURISTICS_MODEL,
+  available: () => true,
+  analyze: async ({ email, localIndicators }) => heuristicAnalysis(email, localIndicators, config.scoreThresholds),
+};
+
+const PROVIDERS: Record<ProviderId, AnalysisProvider> = {
+  gemini: geminiProvider,
+  openai: openAiProvider,
+  heuristics: heuristicsProvider,
+  mock: mockProvider,
+};
+
+export function isProviderId(value: unknown): value is ProviderId {
+  return typeof value === 'string' && Object.hasOwn(PROVIDERS, value);
+}
+
+function toInfo(provider: AnalysisProvider): ProviderInfo {
+  return {
+    id: provider.id,
+    label: provider.label,
+    models: provider.models(),
+    defaultModel: provider.defaultModel(),
+    available: provider.available(),
+  };
+}
+
+export function defaultProviderId(): ProviderId {
+  return isProviderId(config.analysisProvider) ? config.analysisProvider : 'gemini';
+}
+
+export function listProviders(): ProviderCatalog {
+  return { providers: Object.values(PROVIDERS).map(toInfo), defaultProvider: defaultProviderId() };
+}
+
+/** Picks the provider and model for a request, falling back to the server defaults. */
+export function resolveProvider(id?: string, model?: string): { provider: AnalysisProvider; model: string } {
+  if (id !== undefined && !isProviderId(id)) {
+    throw new HttpError(400, `Unknown analysis provider "${id}". Expected one of: ${Object.keys(PROVIDERS).join(', ')}.`);
+  }
+  const provider = PROVIDERS[id ?? defaultProviderId()];
+  if (model !== undefined && !provider.models().includes(model)) {
+    throw new HttpError(400, `Model "${model}" is not enabled for ${provider.label}.`);
+  }
+  return { provider, model: model ?? provider.defaultModel() };
+}
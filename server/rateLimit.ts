@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Request, RequestHandler, Response } from 'express';
+
+interface Window {
+  start: number;
+  count: number;
+}
+
+interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+  // Identifies the client; the IP address by default.
+  key?: (req: Request, res: Response) => string;
+}
+
+/**
+ * Fixed-window rate limiter keyed by client IP, or by whatever `key` returns.
+ * State is in memory, which is enough for the single-instance deployments
+ * this server targets.
+ */
+export function rateLimit({ windowMs, max, key: keyOf }: RateLimitOptions): RequestHandler {
+  const windows = new Map<string, Window>();
+
+  return (req, res, next) => {
+    const now = Date.now();
+    const key = keyOf ? keyOf(req, res) : req.ip ?? 'unknown';
+    let window = windows.get(key);
+    if (!window || now - window.start >= windowMs) {
+      window = { start: now, count: 0 };
+      windows.set(key, window);
+    }
+    window.count++;
+
+    // Drop expired windows occasionally so the map does not grow without bound.
+    if (windows.size > 10_000) {
+      for (const [k, w] of windows) if (now - w.start >= windowMs) windows.delete(k);
+    }
+
+    res.setHeader('RateLimit-Limit', String(max));
+    res.setHeader('RateLimit-Remaining', String(Math.max(0, max - window.count)));
+    if (window.count > max) {
+      const retryAfter = Math.ceil((window.start + windowMs - now) / 1000);
+      res.setHeader('Retry-After', String(retryAfter));
+      res.status(429).json({ error: `Too many requests. Try again in ${retryAfter}s.` });
+      return;
+    }
+    next();
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface RetryOptions {
+  attempts: number;
+  // Delay before the second attempt; it doubles for each further one.
+  baseDelayMs: number;
+  // Whether a failure is worth another attempt. Every failure is by default.
+  retryable?: (err: unknown) => boolean;
+  // Called before waiting for the given attempt.
+  onRetry?: (err: unknown, attempt: number, delayMs: number) => void;
+  // Cuts a wait short, rejecting with the abort reason.
+  signal?: AbortSignal;
+}
+
+/**
+ * Delay after the given number of failed attempts: baseDelayMs, then doubling,
+ * with ±25% jitter so callers that failed together do not retry together.
+ */
+export function backoffDelay(baseDelayMs: number, failures: number): number {
+  return Math.round(baseDelayMs * 2 ** (failures - 1) * (0.75 + Math.random() * 0.5));
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    const abort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', abort, { once: true });
+  });
+}
+
+/** Runs the task until it succeeds, a failure is not retryable or the attempts run out, rethrowing the last failure. */
+export async function retry<T>(task: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (err) {
+      if (attempt >= options.attempts || !(options.retryable?.(err) ?? true)) throw err;
+      const delayMs = backoffDelay(options.baseDelayMs, attempt);
+      options.onRetry?.(err, attempt + 1, delayMs);
+      await sleep(delayMs, options.signal);
+    }
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import express, { Router } from 'express';
+import { parseBrands, parseHistoryQuery, parseProviderChoice } from './api';
+import { integrationOf, requireApiKey } from './apiKeys';
+import { getApiScan, listApiScans, submitScan } from './apiScans';
+import { config } from './config';
+import { HttpError } from './errors';
+import { rateLimit } from './rateLimit';
+
+/**
+ * Versioned API for integrations (SOAR, helpdesk, mail gateways). Every route
+ * needs an API key, and a key sees only the scans it submitted; responses keep
+ * their shape within v1.
+ */
+export function createV1Router(): Router {
+  const router = Router();
+  router.use(requireApiKey);
+  router.use(rateLimit({ windowMs: config.rateLimitWindowMs, max: config.apiRateLimitMax, key: (_req, res) => integrationOf(res).keyId }));
+  // After authentication and rate limiting, so anonymous requests are never parsed.
+  router.use(express.json({ limit: config.maxRequestSize }));
+
+  router.post('/scans', (req, res, next) => {
+    try {
+      const { source, brands } = req.body ?? {};
+      if (typeof source !== 'string' || !source.trim()) {
+        throw new HttpError(400, 'Request body must include the email "source" as a non-empty string.');
+      }
+      const scan = submitScan(source, { brands: parseBrands(brands), ...parseProviderChoice(req.body) }, integrationOf(res));
+      res.status(202).location(`${req.baseUrl}/scans/${scan.id}`).json(scan);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.get('/scans', (req, res, next) => {
+    try {
+      res.json(listApiScans(parseHistoryQuery(req.query), integrationOf(res).keyId));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.get('/scans/:id', (req, res, next) => {
+    try {
+      const scan = getApiScan(req.params.id, integrationOf(res).keyId);
+      if (!scan) throw new HttpError(404, 'Scan not found.');
+      res.json(scan);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,212 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import type { LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import { request } from 'https';
+import { BlockList, isIP } from 'net';
+import type { CreatedWebhook, RiskLevel, ScanRecord, WebhookInfo } from '../src/types';
+import { RISK_ORDER } from '../src/lib/risk';
+import { config } from './config';
+import { getDb } from './db';
+import { HttpError } from './errors';
+import { toApiScan } from './history';
+import { retry } from './retry';
+
+export const WEBHOOK_EVENT = 'scan.completed';
+
+interface WebhookRow {
+  id: string;
+  name: string;
+  url: string;
+  secret: string;
+  min_risk: RiskLevel;
+  created_at: number;
+  last_delivery: string | null;
+}
+
+function toInfo(row: WebhookRow): WebhookInfo {
+  return {
+    id: row.id,
+    name: row.name,
+    url: row.url,
+    minRisk: row.min_risk,
+    createdAt: row.created_at,
+    ...(row.last_delivery ? { lastDelivery: JSON.parse(row.last_delivery) as WebhookInfo['lastDelivery'] } : {}),
+  };
+}
+
+// Webhooks may only reach the public internet: never loopback, private,
+// link-local (including cloud metadata at 169.254.169.254), shared, multicast
+// or reserved addresses.
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24],
+  ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32], ['2002::', 16],
+  ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// BlockList also matches IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) against the IPv4 ranges.
+function isBlockedAddress(address: string): boolean {
+  return BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+/** Resolves the webhook's host and refuses it unless every address it resolves to is public. */
+async function resolvePublicAddress(url: URL): Promise<LookupAddress> {
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = await lookup(hostname, { all: true });
+  const blocked = addresses.find(a => isBlockedAddress(a.address));
+  if (blocked) throw new Error(`${hostname} resolves to ${blocked.address}, which is not a public address.`);
+  if (addresses.length === 0) throw new Error(`${hostname} does not resolve to any address.`);
+  return addresses[0];
+}
+
+/** Accepts only https URLs whose host currently resolves to public addresses. */
+export async function parseWebhookUrl(value: unknown): Promise<string> {
+  let url: URL;
+  try {
+    url = new URL(typeof value === 'string' ? value.trim() : '');
+  } catch {
+    throw new HttpError(400, '"url" must be an absolute https URL.');
+  }
+  if (url.protocol !== 'https:') throw new HttpError(400, '"url" must be an absolute https URL.');
+  try {
+    await resolvePublicAddress(url);
+  } catch (err) {
+    throw new HttpError(400, `"url" cannot be used: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return url.toString();
+}
+
+export function parseMinRisk(value: unknown): RiskLevel {
+  if (value === undefined) return 'High';
+  if (!RISK_ORDER.includes(value as RiskLevel)) throw new HttpError(400, `"minRisk" must be one of ${RISK_ORDER.join(', ')}.`);
+  return value as RiskLevel;
+}
+
+/** Registers a webhook. The signing secret is generated here and only returned this once. */
+export function createWebhook(name: string, url: string, minRisk: RiskLevel): CreatedWebhook {
+  const row: WebhookRow = {
+    id: randomUUID(),
+    name,
+    url,
+    secret: 'whsec_' + randomBytes(24).toString('base64url'),
+    min_risk: minRisk,
+    created_at: Date.now(),
+    last_delivery: null,
+  };
+  getDb().prepare(`
+    INSERT INTO webhooks (id, name, url, secret, min_risk, created_at) VALUES (@id, @name, @url, @secret, @min_risk, @created_at)
+  `).run(row);
+  return { ...toInfo(row), secret: row.secret };
+}
+
+export function listWebhooks(): WebhookInfo[] {
+  const rows = getDb().prepare('SELECT * FROM webhooks ORDER BY created_at').all() as WebhookRow[];
+  return rows.map(toInfo);
+}
+
+export function deleteWebhook(id: string): boolean {
+  return getDb().prepare('DELETE FROM webhooks WHERE id = ?').run(id).changes > 0;
+}
+
+/**
+ * Stripe-style signature: HMAC-SHA256 over "<timestamp>.<body>", so a
+ * receiver can reject both forged and replayed deliveries.
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+function recordDelivery(id: string, delivery: NonNullable<WebhookInfo['lastDelivery']>) {
+  getDb().prepare('UPDATE webhooks SET last_delivery = ? WHERE id = ?').run(JSON.stringify(delivery), id);
+}
+
+/**
+ * POSTs to the address vetted by resolvePublicAddress rather than resolving
+ * the host again, so DNS cannot point the connection somewhere private after
+ * the check. Redirects are not followed. Resolves with the status code.
+ */
+function post(url: URL, address: LookupAddress, headers: Record<string, string>, body: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = request(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+      lookup: (_hostname, options, callback) =>
+        options.all ? callback(null, [address]) : callback(null, address.address, address.family),
+      signal: AbortSignal.timeout(config.webhookTimeoutMs),
+    }, response => {
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+class DeliveryError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'DeliveryError';
+  }
+}
+
+function recordFailure(id: string, err: unknown) {
+  const status = err instanceof DeliveryError ? err.status : undefined;
+  recordDelivery(id, { at: Date.now(), ok: false, ...(status ? { status } : {}), error: err instanceof Error ? err.message : String(err) });
+}
+
+async function attemptDelivery(url: URL, secret: string, deliveryId: string, body: string): Promise<number> {
+  // Checked on every attempt: the host may have been re-pointed since the webhook was registered.
+  const address = await resolvePublicAddress(url);
+  const status = await post(url, address, {
+    'Content-Type': 'application/json',
+    'User-Agent': 'PhishGuard-Webhook/1',
+    'X-PhishGuard-Event': WEBHOOK_EVENT,
+    'X-PhishGuard-Delivery': deliveryId,
+    'X-PhishGuard-Signature': signPayload(secret, Math.floor(Date.now() / 1000), body),
+  }, body);
+  if (status < 200 || status >= 300) throw new DeliveryError(`Responded with status ${status}.`, status);
+  return status;
+}
+
+async function deliver(hook: WebhookRow, deliveryId: string, body: string) {
+  try {
+    const status = await retry(() => attemptDelivery(new URL(hook.url), hook.secret, deliveryId, body), {
+      attempts: config.webhookMaxAttempts,
+      baseDelayMs: config.webhookRetryDelayMs,
+      onRetry: err => recordFailure(hook.id, err),
+    });
+    recordDelivery(hook.id, { at: Date.now(), ok: true, status });
+  } catch (err) {
+    recordFailure(hook.id, err);
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`Webhook "${hook.name}" gave up on delivery ${deliveryId} after ${config.webhookMaxAttempts} attempts: ${message}`);
+  }
+}
+
+/**
+ * Posts a finished scan to every webhook whose risk level it reaches. Runs in
+ * the background with retries; the caller does not wait for the receivers.
+ */
+export function notifyWebhooks(scan: ScanRecord, integration?: string) {
+  const rows = getDb().prepare('SELECT * FROM webhooks').all() as WebhookRow[];
+  const level = RISK_ORDER.indexOf(scan.result.riskLevel);
+  for (const hook of rows.filter(hook => level >= RISK_ORDER.indexOf(hook.min_risk))) {
+    const deliveryId = randomUUID();
+    const body = JSON.stringify({ id: deliveryId, event: WEBHOOK_EVENT, createdAt: Date.now(), scan: toApiScan(scan, integration) });
+    deliver(hook, deliveryId, body).catch(err => console.error(`Webhook "${hook.name}" failed:`, err));
+  }
+}
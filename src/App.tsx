@@ -3,8 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { useState, useRef } from 'react';
-import { GoogleGenAI, Type } from "@google/genai";
+import { useState, useRef, useMemo, useEffect } from 'react';
 import { 
   ShieldAlert, 
   ShieldCheck, 
@@ -12,98 +11,139 @@ import {
   Search, 
   Mail, 
   Trash2, 
-  History, 
   ExternalLink,
-  ChevronRight,
   Shield,
   Lock,
   Eye,
-  Info
+  Info,
+  Upload,
+  BarChart3
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
 import Markdown from 'react-markdown';
-import { clsx, type ClassValue } from 'clsx';
-import { twMerge } from 'tailwind-merge';
+import type { AnalysisResult, AnalystFeedback, HistoryPage, ProviderCatalog, ProviderChoice } from './types';
+import { cn, getRiskColor } from './lib/utils';
+import { parseEmail, readEmailFile } from './lib/mime';
+import { loadCustomBrands, saveCustomBrands, type Brand } from './lib/brands';
+import { ApiError, fetchProviders, fetchScan, streamAnalysis } from './lib/api';
+import { ANALYSIS_ERROR_MESSAGES, EMPTY_PROGRESS, applyAnalysisEvent, type ScanProgress } from './lib/progress';
+import { loadProviderChoice, providerLabel, resolveChoice, saveProviderChoice } from './lib/providers';
+import ParsedMessageView from './components/ParsedMessageView';
+import AnalysisProgress from './components/AnalysisProgress';
+import ProviderPicker from './components/ProviderPicker';
+import HeaderForensics from './components/HeaderForensics';
+import InjectionAlert from './components/InjectionAlert';
+import CampaignAlert from './components/CampaignAlert';
+import LinkForensics from './components/LinkForensics';
+import AttachmentInspection from './components/AttachmentInspection';
+import IocPanel from './components/IocPanel';
+import EvidenceViewer from './components/EvidenceViewer';
+import FeedbackPanel from './components/FeedbackPanel';
+import BatchScanner from './components/BatchScanner';
+import BrandSettings from './components/BrandSettings';
+import PolicySettings from './components/PolicySettings';
+import IntegrationSettings from './components/IntegrationSettings';
+import HistoryPanel from './components/HistoryPanel';
+import CampaignPanel from './components/CampaignPanel';
+import ScoreBreakdown from './components/ScoreBreakdown';
+import Dashboard from './components/Dashboard';
 
-// Utility for tailwind classes
-function cn(...inputs: ClassValue[]) {
-  return twMerge(clsx(inputs));
-}
+type View = 'scanner' | 'dashboard';
 
-interface AnalysisResult {
-  isPhishing: boolean;
-  riskLevel: 'Low' | 'Medium' | 'High';
-  suspiciousIndicators: string[];
-  recommendation: string;
-  summary: string;
-  technicalDetails: string;
-}
-
-interface HistoryItem {
-  id: string;
-  timestamp: number;
-  emailPreview: string;
-  result: AnalysisResult;
-}
+const VIEWS: { id: View; label: string }[] = [
+  { id: 'scanner', label: 'Scanner' },
+  { id: 'dashboard', label: 'Dashboard' },
+];
 
 export default function App() {
+  const [view, setView] = useState<View>('scanner');
   const [emailContent, setEmailContent] = useState('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [result, setResult] = useState<AnalysisResult | null>(null);
-  const [history, setHistory] = useState<HistoryItem[]>([]);
+  // Findings streamed in while a scan runs; kept after a failure so the local checks stay visible.
+  const [progress, setProgress] = useState<ScanProgress | null>(null);
+  const [scanId, setScanId] = useState<string | null>(null);
+  const [scanFeedback, setScanFeedback] = useState<AnalystFeedback | undefined>(undefined);
+  const [campaignId, setCampaignId] = useState<string | null>(null);
+  const [evidenceFocus, setEvidenceFocus] = useState<{ index: number; nonce: number } | null>(null);
+  const [totals, setTotals] = useState<HistoryPage['totals']>({ scans: 0, phishing: 0 });
+  const [historyVersion, setHistoryVersion] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  // Reasons the model's reply was rejected, shown under the error message.
+  const [errorDetails, setErrorDetails] = useState<string[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [customBrands, setCustomBrands] = useState<Brand[]>(loadCustomBrands);
+  const [providers, setProviders] = useState<ProviderCatalog | null>(null);
+  const [providerChoice, setProviderChoice] = useState<ProviderChoice>(loadProviderChoice);
   const resultsRef = useRef<HTMLDivElement>(null);
+  const campaignsRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const scanAbortRef = useRef<AbortController | null>(null);
+
+  const parsedEmail = useMemo(
+    () => (emailContent.trim() ? parseEmail(emailContent) : null),
+    [emailContent]
+  );
+
+  useEffect(() => {
+    fetchProviders()
+      .then(setProviders)
+      .catch(err => console.error("Failed to load analysis providers:", err));
+  }, []);
+
+  const activeProvider = providers ? resolveChoice(providers, providerChoice) : null;
+  const requestedProvider: ProviderChoice = activeProvider
+    ? { provider: activeProvider.provider.id, model: activeProvider.model }
+    : {};
+
+  const updateCustomBrands = (brands: Brand[]) => {
+    setCustomBrands(brands);
+    saveCustomBrands(brands);
+  };
+
+  const updateProviderChoice = (choice: ProviderChoice) => {
+    setProviderChoice(choice);
+    saveProviderChoice(choice);
+  };
+
+  const loadEmailFile = async (file: File | undefined) => {
+    if (!file) return;
+    setErrorDetails([]);
+    try {
+      setEmailContent(await readEmailFile(file));
+      setResult(null);
+      setProgress(null);
+      setError(null);
+    } catch (err) {
+      console.error("Failed to read file:", err);
+      setError(`Could not read ${file.name}.`);
+    }
+  };
 
   const analyzeEmail = async () => {
-    if (!emailContent.trim()) return;
+    if (!parsedEmail) return;
 
+    const controller = new AbortController();
+    scanAbortRef.current = controller;
     setIsAnalyzing(true);
     setError(null);
+    setErrorDetails([]);
     setResult(null);
+    setProgress(EMPTY_PROGRESS);
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
-      const response = await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: `Analyze the following email for phishing and cybersecurity risks:
-
-Email Content:
-"""
-${emailContent}
-"""`,
-        config: {
-          systemInstruction: "You are a world-class cybersecurity expert specializing in email security and phishing detection. Provide a detailed, objective analysis. Be cautious and look for subtle indicators like sender spoofing, urgent language, suspicious links, and unusual requests.",
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              isPhishing: { type: Type.BOOLEAN, description: "Whether the email is likely a phishing attempt." },
-              riskLevel: { type: Type.STRING, enum: ["Low", "Medium", "High"], description: "The overall risk level of the email." },
-              suspiciousIndicators: { 
-                type: Type.ARRAY, 
-                items: { type: Type.STRING },
-                description: "List of specific suspicious elements found."
-              },
-              recommendation: { type: Type.STRING, description: "Final recommendation for the user." },
-              summary: { type: Type.STRING, description: "A brief summary of the findings." },
-              technicalDetails: { type: Type.STRING, description: "A more detailed technical explanation of the analysis (Markdown supported)." }
-            },
-            required: ["isPhishing", "riskLevel", "suspiciousIndicators", "recommendation", "summary", "technicalDetails"]
-          }
-        }
+      const scan = await streamAnalysis(emailContent, customBrands, requestedProvider, {
+        signal: controller.signal,
+        onEvent: (event) => setProgress(p => p && applyAnalysisEvent(p, event)),
       });
-
-      const analysis: AnalysisResult = JSON.parse(response.text || '{}');
-      setResult(analysis);
+      setProgress(null);
+      setResult(scan.result);
+      setScanId(scan.id);
+      setScanFeedback(undefined);
+      setEvidenceFocus(null);
       
-      // Add to history
-      const newItem: HistoryItem = {
-        id: crypto.randomUUID(),
-        timestamp: Date.now(),
-        emailPreview: emailContent.slice(0, 100) + (emailContent.length > 100 ? '...' : ''),
-        result: analysis
-      };
-      setHistory(prev => [newItem, ...prev].slice(0, 10));
+      // The server stored the scan; refresh the history panel
+      setHistoryVersion(v => v + 1);
 
       // Scroll to results
       setTimeout(() => {
@@ -111,26 +151,63 @@ ${emailContent}
       }, 100);
 
     } catch (err) {
+      if (controller.signal.aborted) {
+        setError(ANALYSIS_ERROR_MESSAGES.cancelled);
+        return;
+      }
       console.error("Analysis failed:", err);
-      setError("Failed to analyze email. Please try again later.");
+      if (err instanceof ApiError && err.code && err.code in ANALYSIS_ERROR_MESSAGES) {
+        setError(ANALYSIS_ERROR_MESSAGES[err.code as keyof typeof ANALYSIS_ERROR_MESSAGES]);
+        setErrorDetails(err.code === 'invalid_model_response' ? err.details : [err.message]);
+      } else {
+        setError(err instanceof Error && err.message ? err.message : "Failed to analyze email. Please try again later.");
+      }
     } finally {
+      scanAbortRef.current = null;
       setIsAnalyzing(false);
     }
   };
 
+  const cancelAnalysis = () => {
+    scanAbortRef.current?.abort();
+  };
+
+  const openScan = async (id: string) => {
+    scanAbortRef.current?.abort();
+    setErrorDetails([]);
+    try {
+      const scan = await fetchScan(id);
+      setEmailContent(scan.source);
+      setProgress(null);
+      // Scans stored before providers were selectable were all produced by Gemini.
+      setResult(scan.result.provider ? scan.result : { ...scan.result, provider: { id: 'gemini', label: 'Gemini', model: scan.model } });
+      setScanId(scan.id);
+      setScanFeedback(scan.feedback);
+      setEvidenceFocus(null);
+      setError(null);
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+    } catch (err) {
+      console.error("Failed to open scan:", err);
+      setError(err instanceof Error ? err.message : "Failed to open scan.");
+    }
+  };
+
+  const viewCampaign = (id: string) => {
+    setCampaignId(id);
+    campaignsRef.current?.scrollIntoView({ behavior: 'smooth' });
+  };
+
+  const locateIndicator = (index: number) => {
+    setEvidenceFocus({ index, nonce: Date.now() });
+  };
+
   const clearAll = () => {
+    scanAbortRef.current?.abort();
     setEmailContent('');
     setResult(null);
+    setProgress(null);
     setError(null);
-  };
-
-  const getRiskColor = (level: string) => {
-    switch (level) {
-      case 'High': return 'text-red-500 bg-red-500/10 border-red-500/20';
-      case 'Medium': return 'text-amber-500 bg-amber-500/10 border-amber-500/20';
-      case 'Low': return 'text-emerald-500 bg-emerald-500/10 border-emerald-500/20';
-      default: return 'text-slate-500 bg-slate-500/10 border-slate-500/20';
-    }
+    setErrorDetails([]);
   };
 
   return (
@@ -148,6 +225,20 @@ ${emailContent}
             </div>
           </div>
           <div className="flex items-center gap-4">
+            <nav className="flex rounded-full bg-white/5 border border-white/10 p-1 text-xs font-medium">
+              {VIEWS.map(v => (
+                <button
+                  key={v.id}
+                  onClick={() => setView(v.id)}
+                  className={cn(
+                    "px-3 py-1 rounded-full transition-colors",
+                    view === v.id ? "bg-indigo-600 text-white" : "text-slate-400 hover:text-white"
+                  )}
+                >
+                  {v.label}
+                </button>
+              ))}
+            </nav>
             <div className="hidden md:flex items-center gap-2 px-3 py-1.5 rounded-full bg-white/5 border border-white/10">
               <div className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse" />
               <span className="text-xs font-medium text-slate-400">System Active</span>
@@ -157,7 +248,11 @@ ${emailContent}
       </header>
 
       <main className="max-w-7xl mx-auto px-4 py-8 md:py-12">
-        <div className="grid lg:grid-cols-12 gap-8">
+        {/* Remounted on every visit so it reflects scans stored since */}
+        {view === 'dashboard' && <Dashboard />}
+
+        {/* Hidden rather than unmounted so a running scan or batch keeps going */}
+        <div className={cn("grid lg:grid-cols-12 gap-8", view !== 'scanner' && "hidden")}>
           
           {/* Left Column: Input */}
           <div className="lg:col-span-7 space-y-6">
@@ -167,25 +262,63 @@ ${emailContent}
                   <Mail className="w-5 h-5 text-indigo-400" />
                   <h2 className="text-xl font-semibold text-white">Email Analysis</h2>
                 </div>
-                <button 
-                  onClick={clearAll}
-                  className="text-xs text-slate-500 hover:text-red-400 transition-colors flex items-center gap-1.5"
-                >
-                  <Trash2 className="w-3.5 h-3.5" />
-                  Clear Input
-                </button>
+                <div className="flex items-center gap-4">
+                  <button 
+                    onClick={() => fileInputRef.current?.click()}
+                    className="text-xs text-slate-500 hover:text-indigo-400 transition-colors flex items-center gap-1.5"
+                  >
+                    <Upload className="w-3.5 h-3.5" />
+                    Open .eml
+                  </button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".eml,message/rfc822,text/plain"
+                    className="hidden"
+                    onChange={(e) => {
+                      loadEmailFile(e.target.files?.[0]);
+                      e.target.value = '';
+                    }}
+                  />
+                  <button 
+                    onClick={clearAll}
+                    className="text-xs text-slate-500 hover:text-red-400 transition-colors flex items-center gap-1.5"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                    Clear Input
+                  </button>
+                </div>
               </div>
 
-              <div className="relative group">
+              <div
+                className="relative group"
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setIsDragging(true);
+                }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  setIsDragging(false);
+                  loadEmailFile(e.dataTransfer.files[0]);
+                }}
+              >
                 <div className="absolute -inset-0.5 bg-gradient-to-r from-indigo-500 to-purple-600 rounded-2xl blur opacity-20 group-focus-within:opacity-40 transition duration-500" />
                 <textarea
                   value={emailContent}
                   onChange={(e) => setEmailContent(e.target.value)}
-                  placeholder="Paste the full email content here (including headers if available)..."
-                  className="relative w-full h-80 bg-[#121214] border border-white/10 rounded-2xl p-6 text-slate-300 placeholder:text-slate-600 focus:outline-none focus:ring-2 focus:ring-indigo-500/50 transition-all resize-none font-mono text-sm leading-relaxed"
+                  placeholder="Paste the full email source here (including headers if available), or drop a .eml file..."
+                  className={cn(
+                    "relative w-full h-80 bg-[#121214] border border-white/10 rounded-2xl p-6 text-slate-300 placeholder:text-slate-600 focus:outline-none focus:ring-2 focus:ring-indigo-500/50 transition-all resize-none font-mono text-sm leading-relaxed",
+                    isDragging && "ring-2 ring-indigo-500/50 border-indigo-500/50"
+                  )}
                 />
               </div>
 
+              {providers && (
+                <ProviderPicker catalog={providers} choice={providerChoice} onChange={updateProviderChoice} />
+              )}
+
               <button
                 onClick={analyzeEmail}
                 disabled={isAnalyzing || !emailContent.trim()}
@@ -210,6 +343,11 @@ ${emailContent}
               </button>
             </section>
 
+            {/* Parsed Message */}
+            {parsedEmail && (parsedEmail.hasHeaders || parsedEmail.html || parsedEmail.attachments.length > 0) && (
+              <ParsedMessageView email={parsedEmail} />
+            )}
+
             {/* Error Message */}
             <AnimatePresence>
               {error && (
@@ -217,14 +355,26 @@ ${emailContent}
                   initial={{ opacity: 0, y: 10 }}
                   animate={{ opacity: 1, y: 0 }}
                   exit={{ opacity: 0, y: 10 }}
-                  className="p-4 rounded-xl bg-red-500/10 border border-red-500/20 text-red-400 text-sm flex items-center gap-3"
+                  className="p-4 rounded-xl bg-red-500/10 border border-red-500/20 text-red-400 text-sm flex items-start gap-3"
                 >
                   <AlertTriangle className="w-5 h-5 shrink-0" />
-                  {error}
+                  <div className="space-y-2">
+                    <p>{error}</p>
+                    {errorDetails.length > 0 && (
+                      <ul className="text-xs text-red-400/80 font-mono space-y-0.5 list-disc list-inside">
+                        {errorDetails.map((detail, i) => <li key={i}>{detail}</li>)}
+                      </ul>
+                    )}
+                  </div>
                 </motion.div>
               )}
             </AnimatePresence>
 
+            {/* Live Progress */}
+            {progress && !result && (
+              <AnalysisProgress progress={progress} running={isAnalyzing} onCancel={cancelAnalysis} />
+            )}
+
             {/* Results Section */}
             <div ref={resultsRef}>
               <AnimatePresence>
@@ -266,19 +416,30 @@ ${emailContent}
                                 )}>
                                   {result.riskLevel} Risk
                                 </span>
-                                <span className="text-slate-500 text-xs">• Verified by Gemini AI</span>
+                                <span className="text-slate-500 text-xs">• Verified by {providerLabel(result)}</span>
                               </div>
                             </div>
                           </div>
                           
                           <div className="flex flex-col items-end">
-                            <div className="text-[10px] uppercase tracking-widest text-slate-500 mb-1 font-bold">Security Score</div>
+                            <div className="text-[10px] uppercase tracking-widest text-slate-500 mb-1 font-bold">Risk Score</div>
                             <div className="text-4xl font-black text-white tabular-nums">
-                              {result.isPhishing ? "24" : "98"}<span className="text-slate-600 text-xl">/100</span>
+                              {result.score ?? "—"}<span className="text-slate-600 text-xl">/100</span>
                             </div>
+                            {result.confidence !== undefined && (
+                              <div className="text-[10px] text-slate-500 mt-1 tabular-nums">{result.confidence}% confidence</div>
+                            )}
                           </div>
                         </div>
 
+                        {result.injectionFindings && result.injectionFindings.length > 0 && (
+                          <InjectionAlert findings={result.injectionFindings} />
+                        )}
+
+                        {result.campaign && (
+                          <CampaignAlert campaign={result.campaign} onView={() => viewCampaign(result.campaign!.id)} />
+                        )}
+
                         <div className="grid md:grid-cols-2 gap-6">
                           <div className="space-y-4">
                             <h4 className="text-sm font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2">
@@ -286,18 +447,34 @@ ${emailContent}
                               Suspicious Indicators
                             </h4>
                             <ul className="space-y-2">
-                              {result.suspiciousIndicators.map((indicator, i) => (
-                                <li key={i} className="flex items-start gap-3 text-sm text-slate-300">
-                                  <div className={cn(
-                                    "w-1.5 h-1.5 rounded-full mt-1.5 shrink-0",
-                                    result.isPhishing ? "bg-red-500" : "bg-emerald-500"
-                                  )} />
-                                  {indicator}
-                                </li>
-                              ))}
+                              {result.suspiciousIndicators.map((indicator, i) => {
+                                // Model findings keep their title in the scored list, where their evidence spans live.
+                                const index = result.indicators?.findIndex(ind => ind.source === 'model' && ind.title === indicator) ?? -1;
+                                const locatable = index !== -1 && Boolean(result.indicators![index].spans?.length);
+                                return (
+                                  <li key={i} className="flex items-start gap-3 text-sm text-slate-300">
+                                    <div className={cn(
+                                      "w-1.5 h-1.5 rounded-full mt-1.5 shrink-0",
+                                      result.isPhishing ? "bg-red-500" : "bg-emerald-500"
+                                    )} />
+                                    {locatable ? (
+                                      <button
+                                        onClick={() => locateIndicator(index)}
+                                        title="Show in message"
+                                        className="text-left underline decoration-dotted decoration-slate-600 underline-offset-4 hover:text-white hover:decoration-indigo-400 transition-colors"
+                                      >
+                                        {indicator}
+                                      </button>
+                                    ) : indicator}
+                                  </li>
+                                );
+                              })}
                             </ul>
                           </div>
-                          <div className="space-y-4">
+                          {result.headerIndicators && (
+                            <HeaderForensics indicators={result.headerIndicators} />
+                          )}
+                          <div className="space-y-4 md:col-span-2">
                             <h4 className="text-sm font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2">
                               <Lock className="w-4 h-4" />
                               Expert Recommendation
@@ -310,6 +487,40 @@ ${emailContent}
                       </div>
                     </div>
 
+                    {/* Analyst Feedback */}
+                    {scanId && (
+                      <FeedbackPanel
+                        key={scanId}
+                        scanId={scanId}
+                        initial={scanFeedback}
+                        onChange={(feedback) => {
+                          setScanFeedback(feedback);
+                          setHistoryVersion(v => v + 1);
+                        }}
+                      />
+                    )}
+
+                    {/* Evidence View */}
+                    {result.evidenceText !== undefined && result.indicators && (
+                      <EvidenceViewer text={result.evidenceText} indicators={result.indicators} focus={evidenceFocus} />
+                    )}
+
+                    {/* Score Breakdown */}
+                    {result.indicators && <ScoreBreakdown result={result} onLocate={locateIndicator} />}
+
+                    {/* Link Forensics */}
+                    {result.linkIndicators && (
+                      <LinkForensics links={result.linkIndicators} />
+                    )}
+
+                    {/* Attachment Inspection */}
+                    {result.attachmentReports && result.attachmentReports.length > 0 && (
+                      <AttachmentInspection reports={result.attachmentReports} />
+                    )}
+
+                    {/* Indicators of Compromise */}
+                    {result.iocs && <IocPanel iocs={result.iocs} scanId={scanId} />}
+
                     {/* Technical Details */}
                     <div className="bg-[#121214] rounded-3xl border border-white/10 overflow-hidden">
                       <div className="px-6 py-4 border-b border-white/5 bg-white/5 flex items-center justify-between">
@@ -326,6 +537,14 @@ ${emailContent}
                 )}
               </AnimatePresence>
             </div>
+
+            {/* Bulk Scan */}
+            <BatchScanner
+              brands={customBrands}
+              providerChoice={requestedProvider}
+              onOpen={openScan}
+              onScansStored={() => setHistoryVersion(v => v + 1)}
+            />
           </div>
 
           {/* Right Column: History & Stats */}
@@ -334,66 +553,47 @@ ${emailContent}
             <div className="grid grid-cols-2 gap-4">
               <div className="p-6 rounded-2xl bg-[#121214] border border-white/10">
                 <div className="text-[10px] uppercase tracking-widest text-slate-500 mb-2 font-bold">Total Scanned</div>
-                <div className="text-3xl font-bold text-white tabular-nums">{history.length}</div>
+                <div className="text-3xl font-bold text-white tabular-nums">{totals.scans}</div>
               </div>
               <div className="p-6 rounded-2xl bg-[#121214] border border-white/10">
-                <div className="text-[10px] uppercase tracking-widest text-slate-500 mb-2 font-bold">Threats Blocked</div>
+                <div className="text-[10px] uppercase tracking-widest text-slate-500 mb-2 font-bold">Phishing Detected</div>
                 <div className="text-3xl font-bold text-red-500 tabular-nums">
-                  {history.filter(h => h.result.isPhishing).length}
+                  {totals.phishing}
                 </div>
               </div>
+              <button
+                onClick={() => {
+                  setView('dashboard');
+                  window.scrollTo({ top: 0 });
+                }}
+                className="col-span-2 text-xs text-slate-500 hover:text-indigo-400 transition-colors flex items-center justify-center gap-1.5"
+              >
+                <BarChart3 className="w-3.5 h-3.5" />
+                Trends and reports in the dashboard
+              </button>
             </div>
 
+            {/* Protected Domains */}
+            <BrandSettings brands={customBrands} onChange={updateCustomBrands} />
+
+            {/* Organization Policy */}
+            <PolicySettings />
+
+            {/* Integrations */}
+            <IntegrationSettings />
+
             {/* History */}
-            <section className="space-y-4">
-              <div className="flex items-center gap-2">
-                <History className="w-5 h-5 text-indigo-400" />
-                <h2 className="text-xl font-semibold text-white">Recent Scans</h2>
-              </div>
+            <HistoryPanel refreshToken={historyVersion} onOpen={openScan} onTotals={setTotals} />
 
-              <div className="space-y-3">
-                {history.length === 0 ? (
-                  <div className="p-8 rounded-2xl border border-dashed border-white/10 text-center space-y-2">
-                    <p className="text-sm text-slate-500">No scan history yet.</p>
-                    <p className="text-xs text-slate-600">Your analysis history will appear here.</p>
-                  </div>
-                ) : (
-                  history.map((item) => (
-                    <motion.button
-                      key={item.id}
-                      initial={{ opacity: 0, x: 20 }}
-                      animate={{ opacity: 1, x: 0 }}
-                      onClick={() => {
-                        setResult(item.result);
-                        setEmailContent(item.emailPreview);
-                        window.scrollTo({ top: 0, behavior: 'smooth' });
-                      }}
-                      className="w-full p-4 rounded-2xl bg-[#121214] border border-white/10 hover:border-indigo-500/50 transition-all text-left group"
-                    >
-                      <div className="flex items-start justify-between gap-4">
-                        <div className="flex items-center gap-3">
-                          <div className={cn(
-                            "w-8 h-8 rounded-lg flex items-center justify-center shrink-0",
-                            item.result.isPhishing ? "bg-red-500/20 text-red-500" : "bg-emerald-500/20 text-emerald-500"
-                          )}>
-                            {item.result.isPhishing ? <ShieldAlert className="w-4 h-4" /> : <ShieldCheck className="w-4 h-4" />}
-                          </div>
-                          <div className="min-w-0">
-                            <p className="text-xs font-medium text-slate-300 truncate group-hover:text-white transition-colors">
-                              {item.emailPreview}
-                            </p>
-                            <p className="text-[10px] text-slate-500 mt-1">
-                              {new Date(item.timestamp).toLocaleTimeString()} • {item.result.riskLevel} Risk
-                            </p>
-                          </div>
-                        </div>
-                        <ChevronRight className="w-4 h-4 text-slate-600 group-hover:text-indigo-400 transition-colors shrink-0" />
-                      </div>
-                    </motion.button>
-                  ))
-                )}
-              </div>
-            </section>
+            {/* Campaigns */}
+            <div ref={campaignsRef}>
+              <CampaignPanel
+                refreshToken={historyVersion}
+                selectedId={campaignId}
+                onSelect={setCampaignId}
+                onOpen={openScan}
+              />
+            </div>
 
             {/* Security Tips */}
             <div className="p-6 rounded-3xl bg-gradient-to-br from-indigo-600/20 to-purple-600/20 border border-indigo-500/20 relative overflow-hidden">
@@ -436,7 +636,9 @@ ${emailContent}
       <footer className="border-t border-white/5 py-8 mt-12 bg-black/20">
         <div className="max-w-7xl mx-auto px-4 text-center space-y-2">
           <p className="text-xs text-slate-500">
-            Powered by Gemini 3 Flash • Advanced Threat Intelligence
+            Powered by {result
+              ? providerLabel(result)
+              : activeProvider ? `${activeProvider.provider.label} (${activeProvider.model})` : 'PhishGuard'} • Advanced Threat Intelligence
           </p>
           <p className="text-[10px] text-slate-600 uppercase tracking-widest">
             © 2026 PhishGuard AI Security Systems
@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Activity, RotateCw, X } from 'lucide-react';
+import { ANALYSIS_ERROR_MESSAGES, readPartialAnalysis, type ScanProgress } from '../lib/progress';
+import { cn } from '../lib/utils';
+import HeaderForensics from './HeaderForensics';
+import InjectionAlert from './InjectionAlert';
+import LinkForensics from './LinkForensics';
+import AttachmentInspection from './AttachmentInspection';
+
+interface AnalysisProgressProps {
+  progress: ScanProgress;
+  // False once the scan failed or was cancelled; the local findings stay visible.
+  running: boolean;
+  onCancel: () => void;
+}
+
+export default function AnalysisProgress({ progress, running, onCancel }: AnalysisProgressProps) {
+  const { local, modelText, retry } = progress;
+  const partial = readPartialAnalysis(modelText);
+  const flagged = (local?.indicators ?? []).filter(i => i.weight > 0).sort((a, b) => b.weight - a.weight);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-[#121214] rounded-3xl border border-white/10 overflow-hidden">
+        <div className="px-6 py-4 border-b border-white/5 bg-white/5 flex items-center justify-between">
+          <h3 className="text-sm font-bold text-white flex items-center gap-2">
+            <Activity className={cn("w-4 h-4 text-indigo-400", running && "animate-pulse")} />
+            Live Analysis
+          </h3>
+          {running && (
+            <button
+              onClick={onCancel}
+              className="text-xs text-slate-500 hover:text-red-400 transition-colors flex items-center gap-1.5"
+            >
+              <X className="w-3.5 h-3.5" />
+              Cancel Scan
+            </button>
+          )}
+        </div>
+
+        <div className="p-6 space-y-6 text-sm">
+          <div className="space-y-2">
+            <div className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">Local checks</div>
+            {!local ? (
+              <p className="text-slate-500">Checking headers, links and attachments...</p>
+            ) : flagged.length === 0 ? (
+              <p className="text-slate-400">Headers, links and attachments raised no concerns.</p>
+            ) : (
+              <ul className="space-y-1.5">
+                {flagged.map((indicator, i) => (
+                  <li key={i} className="flex items-start gap-3 text-slate-300">
+                    <div className="w-1.5 h-1.5 rounded-full mt-1.5 shrink-0 bg-amber-500" />
+                    <span className="flex-1">{indicator.title}</span>
+                    <span className="text-xs text-slate-600 tabular-nums">+{indicator.weight}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {local && local.injectionFindings.length > 0 && <InjectionAlert findings={local.injectionFindings} />}
+
+          <div className="space-y-2">
+            <div className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">
+              Model analysis{local && ` • ${local.provider.label} (${local.provider.model})`}
+            </div>
+            {retry && running && (
+              <p className="text-xs text-amber-400 flex items-start gap-2">
+                <RotateCw className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+                <span>
+                  {ANALYSIS_ERROR_MESSAGES[retry.code]} Retrying automatically (attempt {retry.attempt} of {retry.maxAttempts}).
+                </span>
+              </p>
+            )}
+            {partial.summary ? (
+              <p className="text-slate-300 leading-relaxed">{partial.summary}</p>
+            ) : running && (
+              <p className="text-slate-500 flex items-center gap-2">
+                <span className="w-3.5 h-3.5 border-2 border-white/20 border-t-indigo-400 rounded-full animate-spin" />
+                {modelText ? 'Receiving findings...' : 'Waiting for the model...'}
+              </p>
+            )}
+            {partial.findings.length > 0 && (
+              <ul className="space-y-1.5">
+                {partial.findings.map((title, i) => (
+                  <li key={i} className="flex items-start gap-3 text-slate-300">
+                    <div className="w-1.5 h-1.5 rounded-full mt-1.5 shrink-0 bg-indigo-400" />
+                    {title}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {local && local.headerIndicators.length > 0 && (
+        <div className="p-6 rounded-3xl bg-[#121214] border border-white/10">
+          <HeaderForensics indicators={local.headerIndicators} />
+        </div>
+      )}
+      {local && <LinkForensics links={local.linkIndicators} />}
+      {local && local.attachmentReports.length > 0 && <AttachmentInspection reports={local.attachmentReports} />}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Paperclip } from 'lucide-react';
+import type { AttachmentReport, Severity } from '../types';
+import { cn, formatBytes, getRiskColor } from '../lib/utils';
+
+const SEVERITY_STYLES: Record<Severity, string> = {
+  info: 'text-slate-400',
+  low: 'text-slate-300',
+  medium: 'text-amber-400',
+  high: 'text-orange-400',
+  critical: 'text-red-400',
+};
+
+export default function AttachmentInspection({ reports }: { reports: AttachmentReport[] }) {
+  const risky = reports.filter(r => r.risk !== 'Low').length;
+
+  return (
+    <div className="bg-[#121214] rounded-3xl border border-white/10 overflow-hidden">
+      <div className="px-6 py-4 border-b border-white/5 bg-white/5 flex items-center justify-between">
+        <h3 className="text-sm font-bold text-white flex items-center gap-2">
+          <Paperclip className="w-4 h-4 text-indigo-400" />
+          Attachment Inspection
+        </h3>
+        <span className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">
+          {reports.length} file{reports.length === 1 ? '' : 's'} • {risky} flagged
+        </span>
+      </div>
+      <div className="divide-y divide-white/5">
+        {reports.map((report, i) => (
+          <div key={i} className="px-6 py-4 space-y-3 text-xs">
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <p className="font-mono text-slate-200 break-all">{report.filename}</p>
+                <p className="text-slate-500 mt-1">
+                  Declared {report.declaredType}
+                  {report.sniffedType && <> • Detected {report.sniffedType}</>}
+                  {' '}• {formatBytes(report.size)}
+                </p>
+              </div>
+              <span className={cn(
+                "px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider border whitespace-nowrap shrink-0",
+                getRiskColor(report.risk)
+              )}>
+                {report.risk}
+              </span>
+            </div>
+
+            <p className="font-mono text-[10px] text-slate-600 break-all" title="SHA-256">
+              SHA-256 {report.sha256}
+            </p>
+
+            {report.findings.length === 0 ? (
+              <p className="text-slate-600">No issues found</p>
+            ) : (
+              <ul className="space-y-1">
+                {report.findings.map((finding, j) => (
+                  <li key={j} className="flex items-start gap-2">
+                    <span className={cn("uppercase text-[10px] font-bold tracking-wider w-16 shrink-0", SEVERITY_STYLES[finding.severity])}>
+                      {finding.severity}
+                    </span>
+                    <span className="text-slate-400">{finding.title}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {report.archiveEntries && report.archiveEntries.length > 0 && (
+              <details className="text-slate-500">
+                <summary className="cursor-pointer hover:text-slate-300 transition-colors">
+                  {report.archiveEntries.length} archive entr{report.archiveEntries.length === 1 ? 'y' : 'ies'}
+                </summary>
+                <ul className="mt-2 space-y-0.5 font-mono text-[11px] max-h-40 overflow-y-auto">
+                  {report.archiveEntries.map((name, j) => <li key={j} className="break-all">{name}</li>)}
+                </ul>
+              </details>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, FolderUp, Layers, ShieldAlert, ShieldCheck, XCircle } from 'lucide-react';
+import type { BatchItem, BatchItemStatus, BatchJob, ProviderChoice } from '../types';
+import type { Brand } from '../lib/brands';
+import { ApiError, cancelBatch, createBatch, fetchBatch } from '../lib/api';
+import { readEmailFile } from '../lib/mime';
+import { RISK_ORDER } from '../lib/risk';
+import { cn, getRiskColor } from '../lib/utils';
+
+const POLL_INTERVAL_MS = 1000;
+// A failed poll is retried with backoff, doubling up to this delay.
+const MAX_POLL_INTERVAL_MS = 30_000;
+const FINISHED: BatchItemStatus[] = ['done', 'failed', 'cancelled'];
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: 'Queued',
+  running: 'Analyzing',
+  retrying: 'Retrying',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+type SortKey = 'index' | 'verdict' | 'risk' | 'sender' | 'subject';
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'verdict', label: 'Verdict' },
+  { key: 'risk', label: 'Risk' },
+  { key: 'sender', label: 'Sender' },
+  { key: 'subject', label: 'Subject' },
+];
+
+function compareItems(a: BatchItem, b: BatchItem, key: SortKey): number {
+  switch (key) {
+    case 'verdict': return Number(a.isPhishing ?? -1) - Number(b.isPhishing ?? -1);
+    case 'risk': return (a.score ?? -1) - (b.score ?? -1) || RISK_ORDER.indexOf(a.riskLevel!) - RISK_ORDER.indexOf(b.riskLevel!);
+    case 'sender': return a.sender.localeCompare(b.sender);
+    case 'subject': return a.subject.localeCompare(b.subject);
+    default: return a.index - b.index;
+  }
+}
+
+interface BatchScannerProps {
+  brands: Brand[];
+  providerChoice: ProviderChoice;
+  onOpen: (id: string) => void;
+  // Called as messages finish so the history panel can refresh.
+  onScansStored: () => void;
+}
+
+export default function BatchScanner({ brands, providerChoice, onOpen, onScansStored }: BatchScannerProps) {
+  const [files, setFiles] = useState<File[]>([]);
+  const [job, setJob] = useState<BatchJob | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Consecutive failed polls, which stretch the polling interval.
+  const [pollFailures, setPollFailures] = useState(0);
+  const [lost, setLost] = useState(false);
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'index', descending: false });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const storedRef = useRef(0);
+
+  const inFlight = Boolean(job && job.items.some(item => !FINISHED.includes(item.status)));
+
+  useEffect(() => {
+    if (!job || !inFlight || lost) return;
+    const delay = Math.min(POLL_INTERVAL_MS * 2 ** pollFailures, MAX_POLL_INTERVAL_MS);
+    const timer = setTimeout(() => {
+      fetchBatch(job.id)
+        .then(next => {
+          if (pollFailures > 0) setError(null);
+          setPollFailures(0);
+          setJob(next);
+        })
+        .catch(err => {
+          const message = err instanceof Error ? err.message : 'Lost track of the batch.';
+          // Jobs live in the server's memory, so a 404 means a restart dropped this one.
+          if (err instanceof ApiError && err.status === 404) {
+            setLost(true);
+            setError(message);
+          } else {
+            setPollFailures(n => n + 1);
+            setError(`${message} Retrying in ${Math.round(Math.min(delay * 2, MAX_POLL_INTERVAL_MS) / 1000)} s.`);
+          }
+        });
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [job, inFlight, pollFailures, lost]);
+
+  const stored = job?.items.filter(item => item.status === 'done').length ?? 0;
+  useEffect(() => {
+    if (stored > storedRef.current) onScansStored();
+    storedRef.current = stored;
+  }, [stored]);
+
+  const start = async () => {
+    setIsStarting(true);
+    setError(null);
+    try {
+      const sources = await Promise.all(files.map(async file => ({ name: file.name, source: await readEmailFile(file) })));
+      storedRef.current = 0;
+      setJob(await createBatch(sources, brands, providerChoice));
+      setPollFailures(0);
+      setLost(false);
+      setFiles([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start the batch.');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const cancel = async () => {
+    if (!job) return;
+    try {
+      setJob(await cancelBatch(job.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel the batch.');
+    }
+  };
+
+  const toggleSort = (key: SortKey) => {
+    setSort(s => (s.key === key ? { key, descending: !s.descending } : { key, descending: key === 'risk' || key === 'verdict' }));
+  };
+
+  const items = job
+    ? [...job.items].sort((a, b) => (sort.descending ? -1 : 1) * compareItems(a, b, sort.key) || a.index - b.index)
+    : [];
+  const finished = job?.items.filter(item => FINISHED.includes(item.status)).length ?? 0;
+  const phishing = job?.items.filter(item => item.isPhishing).length ?? 0;
+  const failed = job?.items.filter(item => item.status === 'failed').length ?? 0;
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Layers className="w-5 h-5 text-indigo-400" />
+        <h2 className="text-xl font-semibold text-white">Bulk Scan</h2>
+      </div>
+
+      <div className="bg-[#121214] rounded-3xl border border-white/10 overflow-hidden">
+        <div
+          className="p-6 space-y-4 border-b border-white/5"
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => {
+            e.preventDefault();
+            setFiles(Array.from(e.dataTransfer.files));
+          }}
+        >
+          <p className="text-xs text-slate-500">
+            Upload an mbox export or several .eml files. Each message is analyzed on the server and stored in your scan history.
+          </p>
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-4 py-2 rounded-xl bg-white/5 border border-white/10 hover:border-indigo-500/50 text-xs font-bold text-slate-300 transition-colors flex items-center gap-2"
+            >
+              <FolderUp className="w-4 h-4" />
+              Choose files
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept=".eml,.mbox,.mbx,message/rfc822,application/mbox,text/plain"
+              className="hidden"
+              onChange={(e) => {
+                setFiles(Array.from(e.target.files ?? []));
+                e.target.value = '';
+              }}
+            />
+            <span className="text-xs text-slate-500 truncate">
+              {files.length === 0 ? 'or drop them here' : `${files.length} file${files.length === 1 ? '' : 's'} selected`}
+            </span>
+            <div className="ml-auto flex items-center gap-2">
+              {inFlight && (
+                <button
+                  onClick={cancel}
+                  disabled={job?.status !== 'running'}
+                  className="px-4 py-2 rounded-xl border border-red-500/30 text-xs font-bold text-red-400 hover:bg-red-500/10 disabled:opacity-40 transition-colors flex items-center gap-2"
+                >
+                  <XCircle className="w-4 h-4" />
+                  Cancel
+                </button>
+              )}
+              <button
+                onClick={start}
+                disabled={files.length === 0 || isStarting}
+                className="px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-800 disabled:opacity-50 text-xs font-bold text-white transition-colors"
+              >
+                {isStarting ? 'Uploading...' : 'Start Bulk Scan'}
+              </button>
+            </div>
+          </div>
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+
+        {job && (
+          <>
+            <div className="px-6 py-4 space-y-2 border-b border-white/5">
+              <div className="flex items-center justify-between text-[10px] uppercase tracking-widest text-slate-500 font-bold">
+                <span>
+                  {job.status === 'cancelled' ? 'Cancelled' : inFlight ? 'Scanning' : 'Complete'} • {finished}/{job.items.length} messages
+                </span>
+                <span>{phishing} phishing • {failed} failed</span>
+              </div>
+              <div className="h-1.5 rounded-full bg-white/5 overflow-hidden">
+                <div
+                  className={cn("h-full transition-all", job.status === 'cancelled' ? "bg-slate-500" : "bg-indigo-500")}
+                  style={{ width: `${(finished / job.items.length) * 100}%` }}
+                />
+              </div>
+            </div>
+
+            <div className="overflow-x-auto max-h-[32rem] overflow-y-auto">
+              <table className="w-full text-xs">
+                <thead className="sticky top-0 bg-[#121214]">
+                  <tr className="text-left text-[10px] uppercase tracking-widest text-slate-500">
+                    <th className="pl-6 pr-3 py-3 font-bold">
+                      <button onClick={() => toggleSort('index')} className="hover:text-slate-300">#</button>
+                    </th>
+                    {COLUMNS.map(({ key, label }) => (
+                      <th key={key} className="px-3 py-3 font-bold">
+                        <button onClick={() => toggleSort(key)} className="flex items-center gap-1 hover:text-slate-300">
+                          {label}
+                          {sort.key === key && (sort.descending ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+                        </button>
+                      </th>
+                    ))}
+                    <th className="pl-3 pr-6 py-3 font-bold">Top Indicators</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/5">
+                  {items.map((item) => (
+                    <tr
+                      key={item.index}
+                      onClick={() => item.scanId && onOpen(item.scanId)}
+                      className={cn("align-top", item.scanId && "cursor-pointer hover:bg-white/5")}
+                    >
+                      <td className="pl-6 pr-3 py-3 text-slate-600 tabular-nums">{item.index + 1}</td>
+                      <td className="px-3 py-3">
+                        {item.status === 'done' ? (
+                          item.isPhishing
+                            ? <ShieldAlert className="w-4 h-4 text-red-500" />
+                            : <ShieldCheck className="w-4 h-4 text-emerald-500" />
+                        ) : (
+                          <span
+                            title={item.error}
+                            className={cn("whitespace-nowrap", item.status === 'failed' ? "text-red-400" : "text-slate-500")}
+                          >
+                            {STATUS_LABELS[item.status]}
+                            {item.status === 'retrying' && ` (${item.attempts})`}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-3 py-3">
+                        {item.riskLevel && (
+                          <span className={cn(
+                            "px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider border whitespace-nowrap",
+                            getRiskColor(item.riskLevel)
+                          )}>
+                            {item.riskLevel} {item.score ?? ''}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-3 py-3 text-slate-400 max-w-[10rem] truncate" title={item.sender}>{item.sender || '—'}</td>
+                      <td className="px-3 py-3 max-w-[14rem]">
+                        <div className="text-slate-300 truncate" title={item.subject}>{item.subject || '(no subject)'}</div>
+                        <div className="text-[10px] text-slate-600 truncate">{item.filename}</div>
+                      </td>
+                      <td className="pl-3 pr-6 py-3 text-slate-400">
+                        {item.status === 'failed' ? (
+                          <span className="text-red-400/80">{item.error}</span>
+                        ) : (
+                          <ul className="space-y-0.5">
+                            {item.topIndicators?.map((title, i) => <li key={i} className="truncate max-w-[16rem]" title={title}>{title}</li>)}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState } from 'react';
+import { Building2, ChevronDown } from 'lucide-react';
+import { formatBrandList, parseBrandList, type Brand } from '../lib/brands';
+import { cn } from '../lib/utils';
+
+interface BrandSettingsProps {
+  brands: Brand[];
+  onChange: (brands: Brand[]) => void;
+}
+
+export default function BrandSettings({ brands, onChange }: BrandSettingsProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(() => formatBrandList(brands));
+
+  return (
+    <div className="rounded-2xl bg-[#121214] border border-white/10 overflow-hidden">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full px-6 py-4 flex items-center justify-between text-left"
+      >
+        <span className="text-sm font-bold text-white flex items-center gap-2">
+          <Building2 className="w-4 h-4 text-indigo-400" />
+          Protected Domains
+          <span className="text-[10px] font-bold text-slate-500">({brands.length} custom)</span>
+        </span>
+        <ChevronDown className={cn("w-4 h-4 text-slate-500 transition-transform", open && "rotate-180")} />
+      </button>
+      {open && (
+        <div className="px-6 pb-6 space-y-3">
+          <p className="text-xs text-slate-500">
+            Your company and partner domains, checked for lookalikes in addition to the built-in brand list.
+            One per line: <span className="font-mono text-slate-400">Acme Corp: acme.com, acme-pay.com</span>
+          </p>
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Acme Corp: acme.com, acme-pay.com"
+            className="w-full h-28 bg-black/20 border border-white/10 rounded-xl p-3 text-xs font-mono text-slate-300 placeholder:text-slate-600 focus:outline-none focus:ring-2 focus:ring-indigo-500/50 resize-none"
+          />
+          <button
+            onClick={() => {
+              const parsed = parseBrandList(draft);
+              onChange(parsed);
+              setDraft(formatBrandList(parsed));
+            }}
+            className="px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-xs font-bold text-white transition-colors"
+          >
+            Save Domains
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
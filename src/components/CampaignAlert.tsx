@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Layers } from 'lucide-react';
+import type { CampaignMatch, CampaignMatchReason } from '../types';
+import { cn } from '../lib/utils';
+
+const REASON_LABELS: Record<CampaignMatchReason, string> = {
+  content: 'similar content',
+  urls: 'shared links',
+  infrastructure: 'sender infrastructure',
+  attachments: 'identical attachments',
+};
+
+export default function CampaignAlert({ campaign, onView }: { campaign: CampaignMatch; onView: () => void }) {
+  const malicious = campaign.verdict === 'malicious';
+  return (
+    <div className={cn(
+      "mb-8 p-4 rounded-2xl border flex items-start justify-between gap-4",
+      malicious ? "bg-red-500/10 border-red-500/30" : "bg-white/5 border-white/10"
+    )}>
+      <div className="space-y-1">
+        <div className={cn("flex items-center gap-2 text-sm font-bold", malicious ? "text-red-400" : "text-slate-300")}>
+          <Layers className="w-4 h-4" />
+          {malicious ? 'Matches a known malicious campaign' : 'Part of a campaign of similar messages'}
+        </div>
+        <p className="text-xs text-slate-400">
+          {campaign.size} earlier {campaign.size === 1 ? 'message' : 'messages'} since {new Date(campaign.firstSeen).toLocaleDateString()},{' '}
+          {campaign.phishing} judged phishing. Matched on {campaign.matchedOn.map(r => REASON_LABELS[r]).join(', ')}.
+        </p>
+      </div>
+      <button
+        onClick={onView}
+        className="shrink-0 text-xs text-indigo-400 hover:text-indigo-300 transition-colors whitespace-nowrap"
+      >
+        View campaign
+      </button>
+    </div>
+  );
+}
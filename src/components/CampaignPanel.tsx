@@ -0,0 +1,184 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import { ChevronDown, Layers, ShieldAlert, ShieldCheck } from 'lucide-react';
+import type { CampaignDetail, CampaignSummary, CampaignVerdict } from '../types';
+import { fetchCampaign, fetchCampaigns } from '../lib/api';
+import { FEEDBACK_LABELS } from '../lib/evaluation';
+import { cn, getRiskColor } from '../lib/utils';
+
+const VERDICT_LABELS: Record<CampaignVerdict, { title: string; className: string }> = {
+  malicious: { title: 'Malicious', className: 'text-red-400' },
+  suspicious: { title: 'Mixed', className: 'text-amber-400' },
+  benign: { title: 'Benign', className: 'text-emerald-400' },
+};
+
+interface CampaignPanelProps {
+  // Changes when a scan is stored, so the campaigns are reloaded.
+  refreshToken: number;
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onOpen: (scanId: string) => void;
+}
+
+function seenRange(campaign: CampaignSummary): string {
+  const first = new Date(campaign.firstSeen).toLocaleDateString();
+  const last = new Date(campaign.lastSeen).toLocaleDateString();
+  return first === last ? first : `${first} – ${last}`;
+}
+
+function CampaignDetails({ campaign, onOpen }: { campaign: CampaignDetail; onOpen: (scanId: string) => void }) {
+  return (
+    <div className="px-4 pb-4 space-y-4 text-xs">
+      <div className="grid grid-cols-3 gap-2">
+        <div>
+          <div className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">First seen</div>
+          <div className="text-slate-300">{new Date(campaign.firstSeen).toLocaleString()}</div>
+        </div>
+        <div>
+          <div className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">Last seen</div>
+          <div className="text-slate-300">{new Date(campaign.lastSeen).toLocaleString()}</div>
+        </div>
+        <div>
+          <div className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">Verdict</div>
+          <div className={VERDICT_LABELS[campaign.verdict].className}>
+            {VERDICT_LABELS[campaign.verdict].title} • {campaign.phishing}/{campaign.size} phishing
+          </div>
+        </div>
+      </div>
+
+      {campaign.commonIndicators.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">Common indicators</div>
+          {campaign.commonIndicators.map(({ title, count }) => (
+            <div key={title} className="flex justify-between gap-2 text-slate-400">
+              <span className="truncate">{title}</span>
+              <span className="tabular-nums text-slate-600">{count}/{campaign.size}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {campaign.commonIocs.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">Shared observables</div>
+          {campaign.commonIocs.map(ioc => (
+            <div key={`${ioc.type}|${ioc.value}`} className="flex justify-between gap-2">
+              <span className="font-mono text-slate-400 truncate" title={ioc.type}>{ioc.defanged}</span>
+              <span className="tabular-nums text-slate-600">{ioc.count}/{campaign.size}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <div className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">Messages</div>
+        {campaign.members.map(member => (
+          <button
+            key={member.id}
+            onClick={() => onOpen(member.id)}
+            className="w-full flex items-center gap-2 py-1 text-left text-slate-400 hover:text-white transition-colors"
+          >
+            {member.isPhishing
+              ? <ShieldAlert className="w-3.5 h-3.5 text-red-500 shrink-0" />
+              : <ShieldCheck className="w-3.5 h-3.5 text-emerald-500 shrink-0" />}
+            <span className="truncate flex-1">{member.subject || '(no subject)'}</span>
+            {member.feedback && <span className="text-indigo-400 shrink-0">{FEEDBACK_LABELS[member.feedback].title}</span>}
+            <span className="text-slate-600 shrink-0">{new Date(member.timestamp).toLocaleDateString()}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function CampaignPanel({ refreshToken, selectedId, onSelect, onOpen }: CampaignPanelProps) {
+  const [campaigns, setCampaigns] = useState<CampaignSummary[] | null>(null);
+  const [detail, setDetail] = useState<CampaignDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchCampaigns()
+      .then(list => {
+        setCampaigns(list);
+        setError(null);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load campaigns.'));
+  }, [refreshToken]);
+
+  useEffect(() => {
+    setDetail(null);
+    if (!selectedId) return;
+    let cancelled = false;
+    fetchCampaign(selectedId)
+      .then(campaign => {
+        if (!cancelled) setDetail(campaign);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load the campaign.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId, refreshToken]);
+
+  // A campaign opened from a verdict card may be older than the most recent ones listed.
+  const listed = campaigns ?? [];
+  const shown = detail && !listed.some(c => c.id === detail.id) ? [detail, ...listed] : listed;
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Layers className="w-5 h-5 text-indigo-400" />
+        <h2 className="text-xl font-semibold text-white">Campaigns</h2>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {campaigns && shown.length === 0 ? (
+        <div className="p-6 rounded-2xl border border-dashed border-white/10 text-center">
+          <p className="text-xs text-slate-500">Similar messages are grouped here as they are scanned.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {shown.map(campaign => {
+            const open = campaign.id === selectedId;
+            return (
+              <div
+                key={campaign.id}
+                className={cn(
+                  "rounded-2xl bg-[#121214] border transition-colors",
+                  open ? "border-indigo-500/50" : "border-white/10 hover:border-indigo-500/30"
+                )}
+              >
+                <button
+                  onClick={() => onSelect(open ? null : campaign.id)}
+                  className="w-full p-4 flex items-center gap-3 text-left"
+                >
+                  <div className="min-w-0 flex-1">
+                    <p className="text-xs font-medium text-slate-300 truncate">{campaign.label}</p>
+                    <p className="text-[10px] text-slate-500 mt-1">
+                      {campaign.size} messages • {seenRange(campaign)} •{' '}
+                      <span className={VERDICT_LABELS[campaign.verdict].className}>{VERDICT_LABELS[campaign.verdict].title}</span>
+                    </p>
+                  </div>
+                  <span className={cn(
+                    "px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider border shrink-0",
+                    getRiskColor(campaign.riskLevel)
+                  )}>
+                    {campaign.riskLevel}
+                  </span>
+                  <ChevronDown className={cn("w-4 h-4 text-slate-500 transition-transform shrink-0", open && "rotate-180")} />
+                </button>
+                {open && detail?.id === campaign.id && <CampaignDetails campaign={detail} onOpen={onOpen} />}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+}
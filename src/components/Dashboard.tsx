@@ -0,0 +1,329 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useRef, useState, type ReactNode } from 'react';
+import { BarChart3, Download } from 'lucide-react';
+import type { DashboardCount, DashboardData, DashboardExportFormat, DashboardQuery, RiskLevel } from '../types';
+import { dashboardExportUrl, fetchDashboard } from '../lib/api';
+import { CHART_COLORS, CHART_FONT, downloadPng, downloadSvg } from '../lib/charts';
+import { cn } from '../lib/utils';
+
+const DAY = 24 * 60 * 60 * 1000;
+const RISK_LEVELS: RiskLevel[] = ['High', 'Medium', 'Low'];
+
+const PRESETS: { id: string; label: string; days?: number }[] = [
+  { id: '7d', label: '7 days', days: 7 },
+  { id: '30d', label: '30 days', days: 30 },
+  { id: '90d', label: '90 days', days: 90 },
+  { id: 'all', label: 'All time' },
+];
+
+const EXPORTS: { format: DashboardExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'json', label: 'JSON' },
+];
+
+interface DateRange {
+  // Local calendar dates as yyyy-mm-dd, both inclusive; empty means open-ended.
+  from: string;
+  to: string;
+}
+
+function localDate(time: number): string {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function presetRange(days?: number): DateRange {
+  if (!days) return { from: '', to: '' };
+  const today = new Date();
+  return { from: localDate(today.getTime() - (days - 1) * DAY), to: localDate(today.getTime()) };
+}
+
+function toQuery(range: DateRange): DashboardQuery {
+  // new Date(y, m, d) is local midnight; the end date is included by stopping at the next midnight.
+  const midnight = (value: string, addDays = 0) => {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day + addDays).getTime();
+  };
+  return {
+    since: range.from ? midnight(range.from) : undefined,
+    until: range.to ? midnight(range.to, 1) : undefined,
+    tzOffset: new Date().getTimezoneOffset(),
+  };
+}
+
+function ChartCard({ title, name, children }: { title: string; name: string; children: ReactNode }) {
+  const container = useRef<HTMLDivElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const svg = () => container.current?.querySelector('svg') ?? null;
+
+  return (
+    <div className="bg-[#121214] rounded-3xl border border-white/10 overflow-hidden">
+      <div className="px-6 py-4 border-b border-white/5 bg-white/5 flex items-center justify-between">
+        <h3 className="text-sm font-bold text-white flex items-center gap-2">
+          <BarChart3 className="w-4 h-4 text-indigo-400" />
+          {title}
+        </h3>
+        <div className="flex items-center gap-3 text-[10px] font-bold uppercase tracking-wider">
+          <button
+            onClick={() => {
+              const chart = svg();
+              if (chart) downloadPng(chart, name).catch(err => setError(err instanceof Error ? err.message : 'Export failed.'));
+            }}
+            className="text-slate-500 hover:text-indigo-400 transition-colors"
+          >
+            PNG
+          </button>
+          <button
+            onClick={() => {
+              const chart = svg();
+              if (chart) downloadSvg(chart, name);
+            }}
+            className="text-slate-500 hover:text-indigo-400 transition-colors"
+          >
+            SVG
+          </button>
+        </div>
+      </div>
+      <div ref={container} className="p-4">{children}</div>
+      {error && <p className="px-6 pb-4 text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
+
+function TimelineChart({ data }: { data: DashboardData }) {
+  const width = 640;
+  const height = 220;
+  const left = 36;
+  const bottom = 24;
+  const plotWidth = width - left - 8;
+  const plotHeight = height - bottom - 12;
+  const buckets = data.timeline;
+  const max = Math.max(1, ...buckets.map(b => b.scans));
+  const slot = plotWidth / Math.max(1, buckets.length);
+  const y = (value: number) => 12 + plotHeight - (value / max) * plotHeight;
+  // About six date labels, whatever the range.
+  const labelEvery = Math.max(1, Math.ceil(buckets.length / 6));
+  const format = (time: number) => new Date(time).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox={`0 0 ${width} ${height}`} width="100%" fontFamily={CHART_FONT}>
+      <rect width={width} height={height} fill={CHART_COLORS.background} />
+      {[0, 0.5, 1].map(f => (
+        <g key={f}>
+          <line x1={left} x2={width - 8} y1={y(max * f)} y2={y(max * f)} stroke={CHART_COLORS.grid} />
+          <text x={left - 6} y={y(max * f) + 3} textAnchor="end" fontSize="10" fill={CHART_COLORS.text}>
+            {Math.round(max * f)}
+          </text>
+        </g>
+      ))}
+      {buckets.map((bucket, i) => {
+        const x = left + i * slot + slot * 0.15;
+        const barWidth = Math.max(1, slot * 0.7);
+        return (
+          <g key={bucket.start}>
+            <title>{`${format(bucket.start)}: ${bucket.detections} of ${bucket.scans} scans detected`}</title>
+            <rect x={x} y={y(bucket.scans)} width={barWidth} height={y(0) - y(bucket.scans)} fill={CHART_COLORS.scans} />
+            <rect x={x} y={y(bucket.detections)} width={barWidth} height={y(0) - y(bucket.detections)} fill={CHART_COLORS.detections} />
+            {i % labelEvery === 0 && (
+              <text x={x + barWidth / 2} y={height - 8} textAnchor="middle" fontSize="10" fill={CHART_COLORS.text}>
+                {format(bucket.start)}
+              </text>
+            )}
+          </g>
+        );
+      })}
+      {buckets.length === 0 && (
+        <text x={width / 2} y={height / 2} textAnchor="middle" fontSize="12" fill={CHART_COLORS.muted}>No scans in this range</text>
+      )}
+    </svg>
+  );
+}
+
+function RankedChart({ rows, empty, colors }: { rows: DashboardCount[]; empty: string; colors?: string[] }) {
+  const width = 640;
+  const rowHeight = 26;
+  const labelWidth = 220;
+  const height = Math.max(1, rows.length) * rowHeight + 12;
+  const max = Math.max(1, ...rows.map(r => r.count));
+  const barSpace = width - labelWidth - 56;
+  const truncate = (text: string) => (text.length > 34 ? `${text.slice(0, 33)}…` : text);
+
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox={`0 0 ${width} ${height}`} width="100%" fontFamily={CHART_FONT}>
+      <rect width={width} height={height} fill={CHART_COLORS.background} />
+      {rows.map((row, i) => {
+        const y = 6 + i * rowHeight;
+        const barWidth = Math.max(2, (row.count / max) * barSpace);
+        return (
+          <g key={row.label}>
+            <title>{`${row.label}: ${row.count}`}</title>
+            <text x={labelWidth - 10} y={y + rowHeight / 2 + 4} textAnchor="end" fontSize="12" fill={CHART_COLORS.text}>
+              {truncate(row.label)}
+            </text>
+            <rect x={labelWidth} y={y + 4} width={barWidth} height={rowHeight - 8} rx="3" fill={colors?.[i] ?? CHART_COLORS.bar} />
+            <text x={labelWidth + barWidth + 8} y={y + rowHeight / 2 + 4} fontSize="12" fill={CHART_COLORS.text}>
+              {row.count}
+            </text>
+          </g>
+        );
+      })}
+      {rows.length === 0 && (
+        <text x={width / 2} y={height / 2 + 4} textAnchor="middle" fontSize="12" fill={CHART_COLORS.muted}>{empty}</text>
+      )}
+    </svg>
+  );
+}
+
+export default function Dashboard() {
+  const [preset, setPreset] = useState('30d');
+  const [range, setRange] = useState<DateRange>(() => presetRange(30));
+  const [data, setData] = useState<DashboardData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const query = toQuery(range);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetchDashboard(toQuery(range))
+      .then(dashboard => {
+        if (cancelled) return;
+        setData(dashboard);
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load the dashboard.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [range.from, range.to]);
+
+  const updateRange = (next: Partial<DateRange>) => {
+    setPreset('custom');
+    setRange(r => ({ ...r, ...next }));
+  };
+
+  const rate = data && data.totals.scans > 0 ? Math.round((data.totals.detections / data.totals.scans) * 100) : 0;
+  const stats = data ? [
+    { label: 'Scans', value: data.totals.scans, className: 'text-white' },
+    { label: 'Phishing Detected', value: data.totals.detections, className: 'text-red-500' },
+    { label: 'Detection Rate', value: `${rate}%`, className: 'text-white' },
+    { label: 'Analyst Confirmed', value: data.totals.confirmed, className: 'text-indigo-400' },
+    { label: 'False Positives', value: data.totals.falsePositives, className: 'text-amber-500' },
+  ] : [];
+
+  return (
+    <section className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <BarChart3 className="w-5 h-5 text-indigo-400" />
+          <h2 className="text-xl font-semibold text-white">Threat Dashboard</h2>
+          {loading && <div className="w-4 h-4 border-2 border-white/20 border-t-indigo-400 rounded-full animate-spin" />}
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex rounded-xl border border-white/10 overflow-hidden text-xs">
+            {PRESETS.map(p => (
+              <button
+                key={p.id}
+                onClick={() => {
+                  setPreset(p.id);
+                  setRange(presetRange(p.days));
+                }}
+                className={cn(
+                  "px-3 py-1.5 transition-colors",
+                  preset === p.id ? "bg-indigo-600 text-white" : "text-slate-400 hover:text-white hover:bg-white/5"
+                )}
+              >
+                {p.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2 text-xs text-slate-500">
+            <input
+              type="date"
+              value={range.from}
+              max={range.to || undefined}
+              onChange={(e) => updateRange({ from: e.target.value })}
+              className="bg-[#121214] border border-white/10 rounded-lg px-2 py-1 text-slate-300 [color-scheme:dark]"
+            />
+            to
+            <input
+              type="date"
+              value={range.to}
+              min={range.from || undefined}
+              onChange={(e) => updateRange({ to: e.target.value })}
+              className="bg-[#121214] border border-white/10 rounded-lg px-2 py-1 text-slate-300 [color-scheme:dark]"
+            />
+          </div>
+          <div className="flex items-center gap-3">
+            {EXPORTS.map(({ format, label }) => (
+              <a
+                key={format}
+                href={dashboardExportUrl(query, format)}
+                className="text-xs text-slate-500 hover:text-indigo-400 transition-colors flex items-center gap-1.5"
+              >
+                <Download className="w-3.5 h-3.5" />
+                {label}
+              </a>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {data && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {stats.map(stat => (
+              <div key={stat.label} className="p-6 rounded-2xl bg-[#121214] border border-white/10">
+                <div className="text-[10px] uppercase tracking-widest text-slate-500 mb-2 font-bold">{stat.label}</div>
+                <div className={cn("text-3xl font-bold tabular-nums", stat.className)}>{stat.value}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid lg:grid-cols-2 gap-6">
+            <div className="lg:col-span-2">
+              <ChartCard title={`Detections per ${data.interval}`} name="detections-over-time">
+                <TimelineChart data={data} />
+              </ChartCard>
+            </div>
+            <ChartCard title="Risk Levels" name="risk-levels">
+              <RankedChart
+                rows={RISK_LEVELS.map(level => ({ label: level, count: data.riskLevels[level] }))}
+                colors={RISK_LEVELS.map(level => CHART_COLORS[level])}
+                empty="No scans in this range"
+              />
+            </ChartCard>
+            <ChartCard title="Indicator Categories" name="indicator-categories">
+              <RankedChart rows={data.categories} empty="No detections in this range" />
+            </ChartCard>
+            <ChartCard title="Impersonated Brands" name="impersonated-brands">
+              <RankedChart rows={data.brands} empty="No brand impersonation detected" />
+            </ChartCard>
+            <ChartCard title="Impersonated Domains" name="impersonated-domains">
+              <RankedChart rows={data.domains} empty="No lookalike domains detected" />
+            </ChartCard>
+            <div className="lg:col-span-2">
+              <ChartCard title="Top Sending Infrastructure" name="sending-infrastructure">
+                <RankedChart rows={data.infrastructure} empty="No detections in this range" />
+              </ChartCard>
+            </div>
+          </div>
+          <p className="text-[10px] text-slate-600">
+            Rankings count detections only, each at most once per entry. Analyst feedback overrides the scanner's verdict.
+          </p>
+        </>
+      )}
+    </section>
+  );
+}
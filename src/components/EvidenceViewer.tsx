@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { FileSearch } from 'lucide-react';
+import type { Indicator, Severity } from '../types';
+import { SEVERITIES } from '../lib/prompt';
+import { cn } from '../lib/utils';
+
+const PULSE_MS = 1600;
+
+const HIGHLIGHT_STYLES: Record<Severity, string> = {
+  info: 'bg-slate-500/25 decoration-slate-400',
+  low: 'bg-sky-500/20 decoration-sky-400',
+  medium: 'bg-amber-500/25 decoration-amber-400',
+  high: 'bg-orange-500/30 decoration-orange-400',
+  critical: 'bg-red-500/35 decoration-red-400',
+};
+// Passing checks lower the score, so their evidence reads as reassuring rather than suspicious.
+const REASSURING_STYLE = 'bg-emerald-500/20 decoration-emerald-400';
+
+interface Segment {
+  start: number;
+  end: number;
+  // Indexes into the indicator list of everything whose evidence covers this segment.
+  active: number[];
+}
+
+/** Cuts the text at every span boundary so overlapping evidence renders as nested-free marks. */
+function segment(text: string, indicators: Indicator[]): Segment[] {
+  const cuts = new Set([0, text.length]);
+  indicators.forEach(i => i.spans?.forEach(s => {
+    cuts.add(Math.min(s.start, text.length));
+    cuts.add(Math.min(s.end, text.length));
+  }));
+  const points = [...cuts].sort((a, b) => a - b);
+  return points.slice(0, -1).map((start, k) => {
+    const end = points[k + 1];
+    const active = indicators.flatMap((indicator, index) =>
+      indicator.spans?.some(s => s.start <= start && s.end >= end) ? [index] : []
+    );
+    return { start, end, active };
+  });
+}
+
+function strongest(indicators: Indicator[], active: number[]): Indicator {
+  return active
+    .map(index => indicators[index])
+    .reduce((a, b) => (SEVERITIES.indexOf(b.severity) > SEVERITIES.indexOf(a.severity) ? b : a));
+}
+
+interface EvidenceViewerProps {
+  text: string;
+  indicators: Indicator[];
+  // Indicator to scroll to and pulse; the nonce repeats the effect for the same indicator.
+  focus: { index: number; nonce: number } | null;
+}
+
+export default function EvidenceViewer({ text, indicators, focus }: EvidenceViewerProps) {
+  const segments = useMemo(() => segment(text, indicators), [text, indicators]);
+  const firstMarks = useRef(new Map<number, HTMLElement>());
+  const [pulsing, setPulsing] = useState<number | null>(null);
+  const located = indicators.filter(i => i.spans?.length).length;
+
+  useEffect(() => {
+    if (!focus) return;
+    firstMarks.current.get(focus.index)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setPulsing(focus.index);
+    const timer = setTimeout(() => setPulsing(null), PULSE_MS);
+    return () => clearTimeout(timer);
+  }, [focus]);
+
+  firstMarks.current.clear();
+
+  return (
+    <div className="bg-[#121214] rounded-3xl border border-white/10 overflow-hidden">
+      <div className="px-6 py-4 border-b border-white/5 bg-white/5 flex items-center justify-between gap-4">
+        <h3 className="text-sm font-bold text-white flex items-center gap-2">
+          <FileSearch className="w-4 h-4 text-indigo-400" />
+          Evidence View
+        </h3>
+        <div className="flex items-center gap-3 text-[10px] uppercase tracking-widest text-slate-500 font-bold">
+          {(['low', 'medium', 'high', 'critical'] as Severity[]).map(severity => (
+            <span key={severity} className="flex items-center gap-1">
+              <span className={cn("w-2.5 h-2.5 rounded-sm", HIGHLIGHT_STYLES[severity])} />
+              {severity}
+            </span>
+          ))}
+        </div>
+      </div>
+      <div className="px-6 py-3 border-b border-white/5 text-xs text-slate-500">
+        {located} of {indicators.length} indicators located in the message. Hover a highlight for the reason.
+      </div>
+      <pre className="p-6 max-h-[32rem] overflow-y-auto font-mono text-xs text-slate-400 whitespace-pre-wrap break-words">
+        {segments.map(({ start, end, active }) => {
+          const content = text.slice(start, end);
+          if (active.length === 0) return <span key={start}>{content}</span>;
+          const top = strongest(indicators, active);
+          return (
+            <mark
+              key={start}
+              ref={el => {
+                if (!el) return;
+                active.forEach(index => {
+                  if (!firstMarks.current.has(index)) firstMarks.current.set(index, el);
+                });
+              }}
+              title={active.map(index => {
+                const { severity, title, detail } = indicators[index];
+                return `[${severity}] ${title}${detail ? `\n${detail}` : ''}`;
+              }).join('\n\n')}
+              className={cn(
+                "rounded-sm text-slate-100 underline underline-offset-2 cursor-help transition-shadow",
+                top.weight < 0 ? REASSURING_STYLE : HIGHLIGHT_STYLES[top.severity],
+                pulsing !== null && active.includes(pulsing) && "animate-pulse ring-2 ring-indigo-400"
+              )}
+            >
+              {content}
+            </mark>
+          );
+        })}
+      </pre>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState } from 'react';
+import { MessageSquareText } from 'lucide-react';
+import type { AnalystFeedback, FeedbackLabel } from '../types';
+import { clearFeedback, saveFeedback } from '../lib/api';
+import { FEEDBACK_LABELS } from '../lib/evaluation';
+import { cn } from '../lib/utils';
+
+const LABEL_STYLES: Record<FeedbackLabel, string> = {
+  'confirmed-phish': 'border-red-500/40 bg-red-500/10 text-red-300',
+  'false-positive': 'border-amber-500/40 bg-amber-500/10 text-amber-300',
+  'false-negative': 'border-orange-500/40 bg-orange-500/10 text-orange-300',
+};
+
+interface FeedbackPanelProps {
+  scanId: string;
+  initial?: AnalystFeedback;
+  // Called after feedback was stored or cleared, so lists showing it can refresh.
+  onChange: (feedback: AnalystFeedback | undefined) => void;
+}
+
+export default function FeedbackPanel({ scanId, initial, onChange }: FeedbackPanelProps) {
+  const [feedback, setFeedback] = useState(initial);
+  const [label, setLabel] = useState<FeedbackLabel | null>(initial?.label ?? null);
+  const [note, setNote] = useState(initial?.note ?? '');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const submit = async () => {
+    if (!label) return;
+    setSaving(true);
+    try {
+      const stored = await saveFeedback(scanId, label, note);
+      setFeedback(stored);
+      setError(null);
+      onChange(stored);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save feedback.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const clear = async () => {
+    try {
+      await clearFeedback(scanId);
+      setFeedback(undefined);
+      setLabel(null);
+      setNote('');
+      setError(null);
+      onChange(undefined);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to clear feedback.');
+    }
+  };
+
+  const changed = label !== (feedback?.label ?? null) || note.trim() !== (feedback?.note ?? '');
+
+  return (
+    <div className="bg-[#121214] rounded-3xl border border-white/10 overflow-hidden">
+      <div className="px-6 py-4 border-b border-white/5 bg-white/5 flex items-center justify-between">
+        <h3 className="text-sm font-bold text-white flex items-center gap-2">
+          <MessageSquareText className="w-4 h-4 text-indigo-400" />
+          Analyst Feedback
+        </h3>
+        {feedback && (
+          <span className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">
+            {FEEDBACK_LABELS[feedback.label].title} • {new Date(feedback.createdAt).toLocaleString()}
+          </span>
+        )}
+      </div>
+      <div className="p-6 space-y-3">
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(FEEDBACK_LABELS) as FeedbackLabel[]).map(value => (
+            <button
+              key={value}
+              onClick={() => setLabel(value)}
+              className={cn(
+                "px-3 py-1.5 rounded-lg border text-xs font-medium transition-colors",
+                label === value ? LABEL_STYLES[value] : "border-white/10 text-slate-400 hover:text-white hover:border-white/20"
+              )}
+            >
+              {FEEDBACK_LABELS[value].title}
+            </button>
+          ))}
+        </div>
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Optional note: what the scanner missed or got wrong..."
+          className="w-full h-20 bg-black/20 border border-white/10 rounded-xl p-3 text-xs text-slate-300 placeholder:text-slate-600 focus:outline-none focus:ring-2 focus:ring-indigo-500/50 resize-none"
+        />
+        {error && <p className="text-xs text-red-400">{error}</p>}
+        <div className="flex items-center gap-3">
+          <button
+            onClick={submit}
+            disabled={!label || !changed || saving}
+            className="px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 disabled:hover:bg-indigo-600 text-xs font-bold text-white transition-colors"
+          >
+            {feedback ? 'Update Feedback' : 'Save Feedback'}
+          </button>
+          {feedback && (
+            <button onClick={clear} className="text-xs text-slate-500 hover:text-red-400 transition-colors">
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
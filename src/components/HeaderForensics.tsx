@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CheckCircle2, XCircle, MinusCircle, Fingerprint } from 'lucide-react';
+import type { CheckStatus, HeaderIndicator } from '../types';
+import { cn } from '../lib/utils';
+
+const STATUS_STYLES: Record<CheckStatus, { icon: typeof CheckCircle2; className: string }> = {
+  pass: { icon: CheckCircle2, className: 'text-emerald-500' },
+  fail: { icon: XCircle, className: 'text-red-500' },
+  neutral: { icon: MinusCircle, className: 'text-slate-500' },
+};
+
+export default function HeaderForensics({ indicators }: { indicators: HeaderIndicator[] }) {
+  const failures = indicators.filter(i => i.status === 'fail').length;
+
+  return (
+    <div className="space-y-4">
+      <h4 className="text-sm font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+        <Fingerprint className="w-4 h-4" />
+        Header Forensics
+        {failures > 0 && (
+          <span className="px-2 py-0.5 rounded-full text-[10px] font-bold bg-red-500/10 text-red-500 border border-red-500/20">
+            {failures} failed
+          </span>
+        )}
+      </h4>
+      {indicators.length === 0 ? (
+        <p className="text-sm text-slate-500">No message headers were supplied, so no header checks ran.</p>
+      ) : (
+        <ul className="space-y-2">
+          {indicators.map((indicator, i) => {
+            const { icon: Icon, className } = STATUS_STYLES[indicator.status];
+            return (
+              <li key={i} className="flex items-start gap-3 text-sm" title={indicator.detail}>
+                <Icon className={cn("w-4 h-4 mt-0.5 shrink-0", className)} />
+                <div className="min-w-0">
+                  <div className="text-slate-300">{indicator.title}</div>
+                  <div className="text-xs text-slate-500 break-words">{indicator.detail}</div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { ShieldAlert, ShieldCheck, ChevronRight, ChevronLeft, Download, History, Search, Trash2 } from 'lucide-react';
+import type { HistoryPage, HistoryQuery, IocExportFormat, RiskLevel, VerdictFilter } from '../types';
+import { deleteScan, fetchHistory, iocExportUrl } from '../lib/api';
+import { FEEDBACK_LABELS } from '../lib/evaluation';
+import { cn } from '../lib/utils';
+
+const PAGE_SIZE = 8;
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface HistoryPanelProps {
+  // Bumped by the parent whenever a new scan is stored.
+  refreshToken: number;
+  onOpen: (id: string) => void;
+  onTotals: (totals: HistoryPage['totals']) => void;
+}
+
+const EXPORT_FORMATS: { format: IocExportFormat; label: string }[] = [
+  { format: 'stix', label: 'STIX' },
+  { format: 'csv', label: 'CSV' },
+  { format: 'json', label: 'JSON' },
+];
+
+const selectClass = "bg-[#121214] border border-white/10 rounded-xl px-3 py-2 text-xs text-slate-300 focus:outline-none focus:ring-2 focus:ring-indigo-500/50";
+
+export default function HistoryPanel({ refreshToken, onOpen, onTotals }: HistoryPanelProps) {
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState<HistoryQuery>({ page: 1, pageSize: PAGE_SIZE });
+  const [data, setData] = useState<HistoryPage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+  // Kept across pages and filters so IOCs from several searches can be exported together.
+  const [selected, setSelected] = useState<string[]>([]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setQuery(q => (q.q === (search.trim() || undefined) ? q : { ...q, q: search.trim() || undefined, page: 1 }));
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchHistory(query)
+      .then(page => {
+        if (cancelled) return;
+        setData(page);
+        setError(null);
+        onTotals(page.totals);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load scan history.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [query, refreshToken, reloadToken]);
+
+  const remove = async (id: string) => {
+    try {
+      await deleteScan(id);
+      setSelected(ids => ids.filter(s => s !== id));
+      // Step back a page when the last entry on this one was removed.
+      if (data && data.items.length === 1 && (query.page ?? 1) > 1) {
+        setQuery(q => ({ ...q, page: (q.page ?? 1) - 1 }));
+      } else {
+        setReloadToken(t => t + 1);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete scan.');
+    }
+  };
+
+  const toggle = (id: string) => {
+    setSelected(ids => (ids.includes(id) ? ids.filter(s => s !== id) : [...ids, id]));
+  };
+
+  const page = data?.page ?? 1;
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+  const filtered = Boolean(query.q || query.riskLevel || query.verdict);
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center gap-2">
+        <History className="w-5 h-5 text-indigo-400" />
+        <h2 className="text-xl font-semibold text-white">Recent Scans</h2>
+      </div>
+
+      <div className="space-y-2">
+        <div className="relative">
+          <Search className="w-3.5 h-3.5 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search subject, sender, body, findings..."
+            className="w-full bg-[#121214] border border-white/10 rounded-xl pl-9 pr-3 py-2 text-xs text-slate-300 placeholder:text-slate-600 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <select
+            value={query.riskLevel ?? ''}
+            onChange={(e) => setQuery(q => ({ ...q, riskLevel: (e.target.value || undefined) as RiskLevel | undefined, page: 1 }))}
+            className={selectClass}
+          >
+            <option value="">All risk levels</option>
+            <option value="High">High risk</option>
+            <option value="Medium">Medium risk</option>
+            <option value="Low">Low risk</option>
+          </select>
+          <select
+            value={query.verdict ?? ''}
+            onChange={(e) => setQuery(q => ({ ...q, verdict: (e.target.value || undefined) as VerdictFilter | undefined, page: 1 }))}
+            className={selectClass}
+          >
+            <option value="">All verdicts</option>
+            <option value="phishing">Phishing</option>
+            <option value="legitimate">Legitimate</option>
+          </select>
+        </div>
+      </div>
+
+      {selected.length > 0 && (
+        <div className="flex items-center justify-between gap-2 px-3 py-2 rounded-xl border border-indigo-500/30 bg-indigo-500/10 text-xs">
+          <span className="text-indigo-300 font-medium">{selected.length} selected</span>
+          <div className="flex items-center gap-3">
+            <span className="flex items-center gap-1 text-slate-500">
+              <Download className="w-3.5 h-3.5" />
+              IOCs
+            </span>
+            {EXPORT_FORMATS.map(({ format, label }) => (
+              <a key={format} href={iocExportUrl(selected, format)} download className="text-slate-300 hover:text-indigo-400 transition-colors">
+                {label}
+              </a>
+            ))}
+            <button onClick={() => setSelected([])} className="text-slate-500 hover:text-slate-300 transition-colors">
+              Clear
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <div className="space-y-3">
+        {data && data.items.length === 0 ? (
+          <div className="p-8 rounded-2xl border border-dashed border-white/10 text-center space-y-2">
+            <p className="text-sm text-slate-500">{filtered ? 'No scans match these filters.' : 'No scan history yet.'}</p>
+            <p className="text-xs text-slate-600">
+              {filtered ? 'Try a different search or filter.' : 'Your analysis history will appear here.'}
+            </p>
+          </div>
+        ) : (
+          data?.items.map((item) => (
+            <motion.div
+              key={item.id}
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              className="w-full p-4 rounded-2xl bg-[#121214] border border-white/10 hover:border-indigo-500/50 transition-all text-left group flex items-start justify-between gap-4"
+            >
+              <input
+                type="checkbox"
+                checked={selected.includes(item.id)}
+                onChange={() => toggle(item.id)}
+                title="Select for IOC export"
+                className="mt-2.5 shrink-0 accent-indigo-500"
+              />
+              <button onClick={() => onOpen(item.id)} className="flex items-center gap-3 min-w-0 flex-1 text-left">
+                <div className={cn(
+                  "w-8 h-8 rounded-lg flex items-center justify-center shrink-0",
+                  item.result.isPhishing ? "bg-red-500/20 text-red-500" : "bg-emerald-500/20 text-emerald-500"
+                )}>
+                  {item.result.isPhishing ? <ShieldAlert className="w-4 h-4" /> : <ShieldCheck className="w-4 h-4" />}
+                </div>
+                <div className="min-w-0">
+                  <p className="text-xs font-medium text-slate-300 truncate group-hover:text-white transition-colors">
+                    {item.emailPreview}
+                  </p>
+                  <p className="text-[10px] text-slate-500 mt-1 truncate">
+                    {new Date(item.timestamp).toLocaleString()} • {item.result.riskLevel} Risk
+                    {item.sender && ` • ${item.sender}`}
+                    {item.feedback && <span className="text-indigo-400"> • {FEEDBACK_LABELS[item.feedback.label].title}</span>}
+                  </p>
+                </div>
+              </button>
+              <div className="flex items-center gap-2 shrink-0">
+                <button
+                  onClick={() => remove(item.id)}
+                  title="Delete scan"
+                  className="text-slate-600 hover:text-red-400 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+                <ChevronRight className="w-4 h-4 text-slate-600 group-hover:text-indigo-400 transition-colors" />
+              </div>
+            </motion.div>
+          ))
+        )}
+      </div>
+
+      {data && data.total > data.pageSize && (
+        <div className="flex items-center justify-between text-xs text-slate-500">
+          <button
+            onClick={() => setQuery(q => ({ ...q, page: page - 1 }))}
+            disabled={page <= 1}
+            className="flex items-center gap-1 hover:text-indigo-400 disabled:opacity-30 disabled:hover:text-slate-500 transition-colors"
+          >
+            <ChevronLeft className="w-3.5 h-3.5" />
+            Newer
+          </button>
+          <span className="tabular-nums">Page {page} of {pageCount} • {data.total} scans</span>
+          <button
+            onClick={() => setQuery(q => ({ ...q, page: page + 1 }))}
+            disabled={page >= pageCount}
+            className="flex items-center gap-1 hover:text-indigo-400 disabled:opacity-30 disabled:hover:text-slate-500 transition-colors"
+          >
+            Older
+            <ChevronRight className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+    </section>
+  );
+}
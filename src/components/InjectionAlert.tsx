@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Bot } from 'lucide-react';
+import type { InjectionFinding, InjectionLocation } from '../types';
+
+const LOCATION_LABELS: Record<InjectionLocation, string> = {
+  subject: 'Subject',
+  body: 'Body',
+  html: 'HTML',
+  hidden: 'Hidden text',
+  attachment: 'Attachment name',
+};
+
+export default function InjectionAlert({ findings }: { findings: InjectionFinding[] }) {
+  return (
+    <div className="mb-8 p-4 rounded-2xl bg-red-500/10 border border-red-500/30 space-y-3">
+      <div className="flex items-center gap-2 text-sm font-bold text-red-400">
+        <Bot className="w-4 h-4" />
+        Prompt injection attempt detected
+      </div>
+      <p className="text-xs text-slate-400">
+        This message contains text written to manipulate AI-based scanners. It was not followed, and it counts against the message.
+      </p>
+      <ul className="space-y-2">
+        {findings.map((finding, i) => (
+          <li key={i} className="text-xs">
+            <div className="text-slate-300">
+              {finding.title}
+              <span className="ml-2 text-[10px] uppercase tracking-widest text-slate-500 font-bold">{LOCATION_LABELS[finding.location]}</span>
+            </div>
+            <div className="font-mono text-slate-500 mt-0.5 break-words">"{finding.excerpt}"</div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
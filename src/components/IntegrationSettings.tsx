@@ -0,0 +1,236 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import { Check, ChevronDown, Copy, KeyRound, Plus, Trash2, Webhook } from 'lucide-react';
+import type { ApiKeyInfo, RiskLevel, WebhookInfo } from '../types';
+import { createApiKey, createWebhook, deleteWebhook, fetchApiKeys, fetchWebhooks, loadAdminToken, revokeApiKey, storeAdminToken } from '../lib/api';
+import { RISK_ORDER } from '../lib/risk';
+import { cn } from '../lib/utils';
+
+const inputClass = "w-full bg-black/20 border border-white/10 rounded-xl px-3 py-2 text-xs text-slate-300 placeholder:text-slate-600 focus:outline-none focus:ring-2 focus:ring-indigo-500/50";
+
+// A key or secret the server returns once, shown until the user dismisses it.
+function OneTimeSecret({ label, value, onDismiss }: { label: string; value: string; onDismiss: () => void }) {
+  const [copied, setCopied] = useState(false);
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(value);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.error('Copy failed:', err);
+    }
+  };
+
+  return (
+    <div className="p-3 rounded-xl border border-amber-500/30 bg-amber-500/5 space-y-2">
+      <p className="text-xs text-amber-300">{label} It will not be shown again.</p>
+      <div className="flex items-center gap-2">
+        <code className="flex-1 text-xs font-mono text-slate-200 break-all">{value}</code>
+        <button onClick={copy} title="Copy" className="text-slate-400 hover:text-white transition-colors">
+          {copied ? <Check className="w-4 h-4 text-emerald-400" /> : <Copy className="w-4 h-4" />}
+        </button>
+      </div>
+      <button onClick={onDismiss} className="text-[10px] uppercase tracking-widest text-slate-500 font-bold hover:text-white">
+        Done
+      </button>
+    </div>
+  );
+}
+
+export default function IntegrationSettings() {
+  const [open, setOpen] = useState(false);
+  const [adminToken, setAdminToken] = useState(loadAdminToken);
+  const [tokenDraft, setTokenDraft] = useState(adminToken);
+  const [keys, setKeys] = useState<ApiKeyInfo[]>([]);
+  const [webhooks, setWebhooks] = useState<WebhookInfo[]>([]);
+  const [keyName, setKeyName] = useState('');
+  const [hook, setHook] = useState<{ name: string; url: string; minRisk: RiskLevel }>({ name: '', url: '', minRisk: 'High' });
+  const [secret, setSecret] = useState<{ label: string; value: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = () =>
+    Promise.all([fetchApiKeys(adminToken), fetchWebhooks(adminToken)])
+      .then(([k, w]) => {
+        setKeys(k);
+        setWebhooks(w);
+        setError(null);
+      })
+      .catch(err => {
+        setKeys([]);
+        setWebhooks([]);
+        setError(err instanceof Error ? err.message : 'Failed to load integrations.');
+      });
+
+  useEffect(() => {
+    if (open && adminToken) load();
+  }, [open, adminToken]);
+
+  const saveAdminToken = () => {
+    const value = tokenDraft.trim();
+    if (value === adminToken) return;
+    setAdminToken(value);
+    storeAdminToken(value);
+  };
+
+  const attempt = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      setError(null);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed.');
+    }
+  };
+
+  const addKey = () => attempt(async () => {
+    const created = await createApiKey(adminToken, keyName);
+    setSecret({ label: `API key for ${created.name}.`, value: created.key });
+    setKeyName('');
+  });
+
+  const addWebhook = () => attempt(async () => {
+    const created = await createWebhook(adminToken, hook.name, hook.url, hook.minRisk);
+    setSecret({ label: `Signing secret for ${created.name}.`, value: created.secret });
+    setHook({ name: '', url: '', minRisk: 'High' });
+  });
+
+  return (
+    <div className="rounded-2xl bg-[#121214] border border-white/10 overflow-hidden">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full px-6 py-4 flex items-center justify-between text-left"
+      >
+        <span className="text-sm font-bold text-white flex items-center gap-2">
+          <KeyRound className="w-4 h-4 text-indigo-400" />
+          Integrations
+        </span>
+        <ChevronDown className={cn("w-4 h-4 text-slate-500 transition-transform", open && "rotate-180")} />
+      </button>
+      {open && (
+        <div className="px-6 pb-6 space-y-5">
+          <p className="text-xs text-slate-500">
+            API keys authenticate callers of <code className="text-slate-400">/api/v1/scans</code>. Webhooks receive every scan at or above their risk level, signed with their secret.
+          </p>
+
+          <label className="block space-y-1.5">
+            <span className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">Admin token</span>
+            <input
+              type="password"
+              value={tokenDraft}
+              onChange={(e) => setTokenDraft(e.target.value)}
+              onBlur={saveAdminToken}
+              onKeyDown={(e) => e.key === 'Enter' && saveAdminToken()}
+              placeholder="ADMIN_TOKEN set on the server"
+              className={cn(inputClass, "font-mono")}
+            />
+          </label>
+
+          {secret && <OneTimeSecret label={secret.label} value={secret.value} onDismiss={() => setSecret(null)} />}
+
+          <div className="space-y-2">
+            <span className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">API keys</span>
+            {keys.map(key => (
+              <div key={key.id} className="flex items-center gap-3 text-xs">
+                <span className="text-slate-200 font-medium">{key.name}</span>
+                <code className="text-slate-500 font-mono">{key.prefix}…</code>
+                <span className="text-slate-600 ml-auto">
+                  {key.lastUsedAt ? `Used ${new Date(key.lastUsedAt).toLocaleString()}` : 'Never used'}
+                </span>
+                <button
+                  onClick={() => attempt(() => revokeApiKey(adminToken, key.id))}
+                  title="Revoke key"
+                  className="text-slate-600 hover:text-red-400 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <input
+                value={keyName}
+                onChange={(e) => setKeyName(e.target.value)}
+                placeholder="Integration name, e.g. SOAR"
+                className={inputClass}
+              />
+              <button
+                onClick={addKey}
+                disabled={!keyName.trim()}
+                className="flex items-center gap-1 px-3 rounded-xl border border-white/10 text-xs text-slate-300 hover:border-indigo-500/50 hover:text-white disabled:opacity-40 transition-colors whitespace-nowrap"
+              >
+                <Plus className="w-3.5 h-3.5" />
+                Create key
+              </button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <span className="text-[10px] uppercase tracking-widest text-slate-500 font-bold flex items-center gap-1.5">
+              <Webhook className="w-3 h-3" />
+              Webhooks
+            </span>
+            {webhooks.map(w => (
+              <div key={w.id} className="flex items-center gap-3 text-xs">
+                <div className="min-w-0 flex-1">
+                  <p className="text-slate-200 font-medium">
+                    {w.name} <span className="text-slate-500 font-normal">• {w.minRisk} and above</span>
+                  </p>
+                  <p className="text-slate-500 font-mono truncate">{w.url}</p>
+                </div>
+                {w.lastDelivery && (
+                  <span
+                    title={w.lastDelivery.error}
+                    className={cn("whitespace-nowrap", w.lastDelivery.ok ? "text-emerald-400" : "text-red-400")}
+                  >
+                    {w.lastDelivery.ok ? 'Delivered' : 'Failed'} {new Date(w.lastDelivery.at).toLocaleTimeString()}
+                  </span>
+                )}
+                <button
+                  onClick={() => attempt(() => deleteWebhook(adminToken, w.id))}
+                  title="Delete webhook"
+                  className="text-slate-600 hover:text-red-400 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <div className="grid grid-cols-12 gap-2">
+              <input
+                value={hook.name}
+                onChange={(e) => setHook(h => ({ ...h, name: e.target.value }))}
+                placeholder="Name"
+                className={cn(inputClass, "col-span-3")}
+              />
+              <input
+                value={hook.url}
+                onChange={(e) => setHook(h => ({ ...h, url: e.target.value }))}
+                placeholder="https://soar.example.com/hooks/phishguard"
+                className={cn(inputClass, "col-span-5 font-mono")}
+              />
+              <select
+                value={hook.minRisk}
+                onChange={(e) => setHook(h => ({ ...h, minRisk: e.target.value as RiskLevel }))}
+                className={cn(inputClass, "col-span-2 px-1")}
+              >
+                {RISK_ORDER.map(level => <option key={level} value={level}>{level}+</option>)}
+              </select>
+              <button
+                onClick={addWebhook}
+                disabled={!hook.name.trim() || !hook.url.trim()}
+                className="col-span-2 flex items-center justify-center gap-1 rounded-xl border border-white/10 text-xs text-slate-300 hover:border-indigo-500/50 hover:text-white disabled:opacity-40 transition-colors"
+              >
+                <Plus className="w-3.5 h-3.5" />
+                Add
+              </button>
+            </div>
+          </div>
+
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState } from 'react';
+import { Check, Copy, Crosshair, Download } from 'lucide-react';
+import type { Ioc, IocExportFormat, IocType } from '../types';
+import { iocExportUrl } from '../lib/api';
+import { cn } from '../lib/utils';
+
+const TYPE_LABELS: Record<IocType, string> = {
+  'email-address': 'Email',
+  domain: 'Domain',
+  url: 'URL',
+  ipv4: 'IPv4',
+  ipv6: 'IPv6',
+  sha256: 'SHA-256',
+};
+
+const EXPORTS: { format: IocExportFormat; label: string }[] = [
+  { format: 'stix', label: 'STIX 2.1' },
+  { format: 'csv', label: 'CSV' },
+  { format: 'json', label: 'JSON' },
+];
+
+interface IocPanelProps {
+  iocs: Ioc[];
+  // Stored scan the IOCs belong to; exports are rendered by the server.
+  scanId: string | null;
+}
+
+export default function IocPanel({ iocs, scanId }: IocPanelProps) {
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const copy = async (key: string, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(key);
+      setTimeout(() => setCopied(c => (c === key ? null : c)), 1500);
+    } catch (err) {
+      console.error('Copy failed:', err);
+    }
+  };
+
+  return (
+    <div className="bg-[#121214] rounded-3xl border border-white/10 overflow-hidden">
+      <div className="px-6 py-4 border-b border-white/5 bg-white/5 flex items-center justify-between gap-4">
+        <h3 className="text-sm font-bold text-white flex items-center gap-2">
+          <Crosshair className="w-4 h-4 text-indigo-400" />
+          Indicators of Compromise
+        </h3>
+        <span className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">
+          {iocs.length} observable{iocs.length === 1 ? '' : 's'}
+        </span>
+      </div>
+
+      {iocs.length === 0 ? (
+        <p className="px-6 py-4 text-xs text-slate-600">No addresses, URLs, IPs or file hashes found.</p>
+      ) : (
+        <>
+          <div className="px-6 py-3 border-b border-white/5 flex flex-wrap items-center gap-2 text-xs">
+            <button
+              onClick={() => copy('all', iocs.map(ioc => ioc.defanged).join('\n'))}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-white/10 text-slate-300 hover:border-indigo-500/50 hover:text-white transition-colors"
+            >
+              {copied === 'all' ? <Check className="w-3.5 h-3.5 text-emerald-400" /> : <Copy className="w-3.5 h-3.5" />}
+              Copy all (defanged)
+            </button>
+            {scanId && EXPORTS.map(({ format, label }) => (
+              <a
+                key={format}
+                href={iocExportUrl([scanId], format)}
+                download
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-white/10 text-slate-300 hover:border-indigo-500/50 hover:text-white transition-colors"
+              >
+                <Download className="w-3.5 h-3.5" />
+                {label}
+              </a>
+            ))}
+          </div>
+          <div className="divide-y divide-white/5 max-h-96 overflow-y-auto">
+            {iocs.map((ioc, i) => (
+              <div key={i} className="px-6 py-3 flex items-start gap-3 text-xs">
+                <span className="w-16 shrink-0 text-[10px] uppercase tracking-wider font-bold text-slate-500 pt-0.5">
+                  {TYPE_LABELS[ioc.type]}
+                </span>
+                <div className="min-w-0 flex-1">
+                  <p className="font-mono text-slate-200 break-all">{ioc.defanged}</p>
+                  <p className="text-[10px] text-slate-600 mt-1">{ioc.locations.join(' • ')}</p>
+                </div>
+                <button
+                  onClick={() => copy(`${i}`, ioc.value)}
+                  title="Copy value"
+                  className={cn(
+                    "shrink-0 transition-colors",
+                    copied === `${i}` ? "text-emerald-400" : "text-slate-600 hover:text-indigo-400"
+                  )}
+                >
+                  {copied === `${i}` ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+                </button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Link2 } from 'lucide-react';
+import type { LinkIndicator } from '../types';
+import { cn, getRiskColor } from '../lib/utils';
+
+const SOURCE_LABELS: Record<LinkIndicator['source'], string> = {
+  text: 'Text',
+  anchor: 'Anchor',
+  form: 'Form',
+  resource: 'Embed',
+};
+
+export default function LinkForensics({ links }: { links: LinkIndicator[] }) {
+  const risky = links.filter(l => l.risk !== 'Low').length;
+
+  return (
+    <div className="bg-[#121214] rounded-3xl border border-white/10 overflow-hidden">
+      <div className="px-6 py-4 border-b border-white/5 bg-white/5 flex items-center justify-between">
+        <h3 className="text-sm font-bold text-white flex items-center gap-2">
+          <Link2 className="w-4 h-4 text-indigo-400" />
+          Link Forensics
+        </h3>
+        <span className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">
+          {links.length} link{links.length === 1 ? '' : 's'} • {risky} flagged
+        </span>
+      </div>
+      {links.length === 0 ? (
+        <p className="p-6 text-sm text-slate-500">No links were found in the message.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-[10px] uppercase tracking-widest text-slate-500">
+                <th className="px-6 py-3 font-bold">Link</th>
+                <th className="px-3 py-3 font-bold">Source</th>
+                <th className="px-3 py-3 font-bold">Risk</th>
+                <th className="px-6 py-3 font-bold">Reasons</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {links.map((link, i) => (
+                <tr key={i} className="align-top">
+                  <td className="px-6 py-3 max-w-[16rem]">
+                    <div className="font-mono text-slate-300 break-all">{link.url}</div>
+                    {link.displayText && (
+                      <div className="text-slate-500 mt-1 truncate" title={link.displayText}>
+                        shown as "{link.displayText}"
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-3 py-3 text-slate-400">{SOURCE_LABELS[link.source]}</td>
+                  <td className="px-3 py-3">
+                    <span className={cn(
+                      "px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider border whitespace-nowrap",
+                      getRiskColor(link.risk)
+                    )}>
+                      {link.risk}
+                    </span>
+                  </td>
+                  <td className="px-6 py-3 text-slate-400">
+                    {link.reasons.length === 0 ? (
+                      <span className="text-slate-600">No issues found</span>
+                    ) : (
+                      <ul className="space-y-1">
+                        {link.reasons.map((reason, j) => <li key={j}>{reason}</li>)}
+                      </ul>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
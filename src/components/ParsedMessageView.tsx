@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState } from 'react';
+import { FileText, Paperclip, Code, List } from 'lucide-react';
+import type { ParsedEmail } from '../types';
+import { formatAddress } from '../lib/mime';
+import { cn, formatBytes } from '../lib/utils';
+
+type Tab = 'text' | 'html' | 'headers';
+
+export default function ParsedMessageView({ email }: { email: ParsedEmail }) {
+  const [tab, setTab] = useState<Tab>('text');
+
+  const summary: [string, string][] = [
+    ['From', email.from.map(formatAddress).join(', ')],
+    ['To', email.to.map(formatAddress).join(', ')],
+    ['Reply-To', email.replyTo.map(formatAddress).join(', ')],
+    ['Subject', email.subject],
+    ['Date', email.date ?? ''],
+  ];
+
+  const tabs: { id: Tab; label: string; icon: typeof FileText; hidden?: boolean }[] = [
+    { id: 'text', label: 'Text', icon: FileText },
+    { id: 'html', label: 'HTML Source', icon: Code, hidden: !email.html },
+    { id: 'headers', label: `Headers (${email.headers.length})`, icon: List, hidden: !email.hasHeaders },
+  ];
+
+  return (
+    <div className="bg-[#121214] rounded-3xl border border-white/10 overflow-hidden">
+      <div className="px-6 py-4 border-b border-white/5 bg-white/5 flex items-center justify-between gap-4">
+        <h3 className="text-sm font-bold text-white flex items-center gap-2">
+          <FileText className="w-4 h-4 text-indigo-400" />
+          Parsed Message
+        </h3>
+        <div className="flex items-center gap-1">
+          {tabs.filter(t => !t.hidden).map(t => (
+            <button
+              key={t.id}
+              onClick={() => setTab(t.id)}
+              className={cn(
+                "px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider flex items-center gap-1.5 transition-colors",
+                tab === t.id ? "bg-indigo-600 text-white" : "text-slate-500 hover:text-slate-300"
+              )}
+            >
+              <t.icon className="w-3 h-3" />
+              {t.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {email.hasHeaders && (
+        <dl className="px-6 py-4 border-b border-white/5 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1.5 text-xs">
+          {summary.filter(([, value]) => value).map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="text-slate-500 font-semibold">{label}</dt>
+              <dd className="text-slate-300 break-all">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      <div className="p-6 max-h-80 overflow-auto">
+        {tab === 'text' && (
+          <pre className="whitespace-pre-wrap break-words font-mono text-xs text-slate-400 leading-relaxed">
+            {email.text || '(empty body)'}
+          </pre>
+        )}
+        {tab === 'html' && (
+          <pre className="whitespace-pre-wrap break-all font-mono text-xs text-slate-400 leading-relaxed">
+            {email.html}
+          </pre>
+        )}
+        {tab === 'headers' && (
+          <div className="space-y-1.5 font-mono text-xs">
+            {email.headers.map((h, i) => (
+              <div key={i} className="break-all">
+                <span className="text-indigo-300">{h.name}:</span>{' '}
+                <span className="text-slate-400">{h.value}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {email.attachments.length > 0 && (
+        <div className="px-6 py-4 border-t border-white/5 space-y-2">
+          <h4 className="text-[10px] uppercase tracking-widest text-slate-500 font-bold flex items-center gap-2">
+            <Paperclip className="w-3 h-3" />
+            Attachments ({email.attachments.length})
+          </h4>
+          <ul className="space-y-1.5">
+            {email.attachments.map((a, i) => (
+              <li key={i} className="flex items-center justify-between gap-4 text-xs">
+                <span className="text-slate-300 truncate">{a.filename}</span>
+                <span className="text-slate-500 shrink-0 font-mono">{a.contentType} • {formatBytes(a.size)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
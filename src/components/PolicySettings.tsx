@@ -0,0 +1,268 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { ChevronDown, Download, Plus, ScrollText, Trash2, Upload } from 'lucide-react';
+import type { PolicyProfile, PolicyRule, Severity } from '../types';
+import { POLICY_EXPORT_URL, fetchPolicy, loadAdminToken, savePolicy, storeAdminToken } from '../lib/api';
+import { EMPTY_POLICY, PolicyError, parsePolicy } from '../lib/policy';
+import { SEVERITIES } from '../lib/prompt';
+import { cn } from '../lib/utils';
+
+type ListField = 'trustedDomains' | 'blockedDomains' | 'vips' | 'vendorPaymentDomains';
+
+const LISTS: { field: ListField; label: string; placeholder: string }[] = [
+  { field: 'trustedDomains', label: 'Trusted sender domains', placeholder: 'acme.com\nacme-partners.com' },
+  { field: 'blockedDomains', label: 'Blocked domains', placeholder: 'known-bad.example' },
+  { field: 'vips', label: 'Executives and VIPs', placeholder: 'Jane Doe\nJohn Smith' },
+  { field: 'vendorPaymentDomains', label: 'Vendor payment domains', placeholder: 'billing.supplier.com' },
+];
+
+const inputClass = "w-full bg-black/20 border border-white/10 rounded-xl px-3 py-2 text-xs text-slate-300 placeholder:text-slate-600 focus:outline-none focus:ring-2 focus:ring-indigo-500/50";
+
+const NEW_RULE: PolicyRule = { name: '', type: 'keyword', pattern: '', severity: 'medium', enabled: true };
+
+// Lists are edited as one entry per line.
+type Draft = Omit<PolicyProfile, ListField | 'updatedAt'> & Record<ListField, string>;
+
+function toDraft(policy: PolicyProfile): Draft {
+  return {
+    organization: policy.organization,
+    rules: policy.rules,
+    trustedDomains: policy.trustedDomains.join('\n'),
+    blockedDomains: policy.blockedDomains.join('\n'),
+    vips: policy.vips.join('\n'),
+    vendorPaymentDomains: policy.vendorPaymentDomains.join('\n'),
+  };
+}
+
+function fromDraft(draft: Draft): PolicyProfile {
+  const lines = (value: string) => value.split('\n').map(v => v.trim()).filter(Boolean);
+  return {
+    ...draft,
+    trustedDomains: lines(draft.trustedDomains),
+    blockedDomains: lines(draft.blockedDomains),
+    vips: lines(draft.vips),
+    vendorPaymentDomains: lines(draft.vendorPaymentDomains),
+  };
+}
+
+export default function PolicySettings() {
+  const [open, setOpen] = useState(false);
+  const [saved, setSaved] = useState<PolicyProfile>(EMPTY_POLICY);
+  const [draft, setDraft] = useState<Draft>(() => toDraft(EMPTY_POLICY));
+  const [adminToken, setAdminToken] = useState(loadAdminToken);
+  const [status, setStatus] = useState<{ error: boolean; message: string; details?: string[] } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    fetchPolicy()
+      .then(policy => {
+        setSaved(policy);
+        setDraft(toDraft(policy));
+      })
+      .catch(err => setStatus({ error: true, message: err instanceof Error ? err.message : 'Failed to load the policy.' }));
+  }, []);
+
+  const store = async (policy: PolicyProfile, message: string) => {
+    try {
+      // Checked here first so every problem is listed, not just the server's summary.
+      const stored = await savePolicy(adminToken.trim(), parsePolicy(policy));
+      setSaved(stored);
+      setDraft(toDraft(stored));
+      setStatus({ error: false, message });
+    } catch (err) {
+      setStatus({
+        error: true,
+        message: err instanceof Error ? err.message : 'Failed to save the policy.',
+        details: err instanceof PolicyError ? err.problems : undefined,
+      });
+    }
+  };
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      await store(JSON.parse(await file.text()), `Imported ${file.name}.`);
+    } catch {
+      setStatus({ error: true, message: `${file.name} is not valid JSON.` });
+    }
+  };
+
+  const updateRule = (index: number, patch: Partial<PolicyRule>) => {
+    setDraft(d => ({ ...d, rules: d.rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)) }));
+  };
+
+  const active = saved.trustedDomains.length + saved.blockedDomains.length + saved.vips.length +
+    saved.vendorPaymentDomains.length + saved.rules.filter(r => r.enabled).length;
+
+  return (
+    <div className="rounded-2xl bg-[#121214] border border-white/10 overflow-hidden">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full px-6 py-4 flex items-center justify-between text-left"
+      >
+        <span className="text-sm font-bold text-white flex items-center gap-2">
+          <ScrollText className="w-4 h-4 text-indigo-400" />
+          Organization Policy
+          <span className="text-[10px] font-bold text-slate-500">({active} active entries)</span>
+        </span>
+        <ChevronDown className={cn("w-4 h-4 text-slate-500 transition-transform", open && "rotate-180")} />
+      </button>
+      {open && (
+        <div className="px-6 pb-6 space-y-4">
+          <p className="text-xs text-slate-500">
+            Shared by everyone using this server. Applied to every scan as local checks and given to the model as context.
+          </p>
+
+          <label className="block space-y-1">
+            <span className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">Organization</span>
+            <input
+              value={draft.organization}
+              onChange={(e) => setDraft(d => ({ ...d, organization: e.target.value }))}
+              placeholder="Acme Corp"
+              className={inputClass}
+            />
+          </label>
+
+          <div className="grid grid-cols-2 gap-3">
+            {LISTS.map(({ field, label, placeholder }) => (
+              <label key={field} className="block space-y-1">
+                <span className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">{label}</span>
+                <textarea
+                  value={draft[field]}
+                  onChange={(e) => setDraft(d => ({ ...d, [field]: e.target.value }))}
+                  placeholder={placeholder}
+                  className={cn(inputClass, "h-20 font-mono resize-none")}
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">Custom rules</span>
+              <button
+                onClick={() => setDraft(d => ({ ...d, rules: [...d.rules, NEW_RULE] }))}
+                className="flex items-center gap-1 text-xs text-slate-400 hover:text-indigo-400 transition-colors"
+              >
+                <Plus className="w-3.5 h-3.5" />
+                Add rule
+              </button>
+            </div>
+            {draft.rules.length === 0 && (
+              <p className="text-xs text-slate-600">Keyword rules match whole words; regex rules use RE2 syntax, without backreferences or lookaround. Both ignore case.</p>
+            )}
+            {draft.rules.map((rule, i) => (
+              <div key={i} className="grid grid-cols-12 gap-2 items-center">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => updateRule(i, { enabled: e.target.checked })}
+                  title="Enabled"
+                  className="col-span-1 accent-indigo-500"
+                />
+                <input
+                  value={rule.name}
+                  onChange={(e) => updateRule(i, { name: e.target.value })}
+                  placeholder="Name"
+                  className={cn(inputClass, "col-span-3")}
+                />
+                <select
+                  value={rule.type}
+                  onChange={(e) => updateRule(i, { type: e.target.value as PolicyRule['type'] })}
+                  className={cn(inputClass, "col-span-2 px-1")}
+                >
+                  <option value="keyword">keyword</option>
+                  <option value="regex">regex</option>
+                </select>
+                <input
+                  value={rule.pattern}
+                  onChange={(e) => updateRule(i, { pattern: e.target.value })}
+                  placeholder={rule.type === 'regex' ? 'project\\s+falcon' : 'Project Falcon'}
+                  className={cn(inputClass, "col-span-3 font-mono")}
+                />
+                <select
+                  value={rule.severity}
+                  onChange={(e) => updateRule(i, { severity: e.target.value as Severity })}
+                  className={cn(inputClass, "col-span-2 px-1")}
+                >
+                  {SEVERITIES.map(severity => <option key={severity} value={severity}>{severity}</option>)}
+                </select>
+                <button
+                  onClick={() => setDraft(d => ({ ...d, rules: d.rules.filter((_, j) => j !== i) }))}
+                  title="Remove rule"
+                  className="col-span-1 text-slate-600 hover:text-red-400 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <label className="block space-y-1">
+            <span className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">Admin token</span>
+            <input
+              type="password"
+              value={adminToken}
+              onChange={(e) => setAdminToken(e.target.value)}
+              onBlur={() => storeAdminToken(adminToken.trim())}
+              placeholder="ADMIN_TOKEN set on the server, required to save"
+              className={cn(inputClass, "font-mono")}
+            />
+          </label>
+
+          {status && (
+            <div className={cn("text-xs space-y-1", status.error ? "text-red-400" : "text-emerald-400")}>
+              <p>{status.message}</p>
+              {status.details && status.details.length > 0 && (
+                <ul className="list-disc list-inside text-red-400/80">
+                  {status.details.map((problem, i) => <li key={i}>{problem}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={() => store(fromDraft(draft), 'Policy saved.')}
+              className="px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-xs font-bold text-white transition-colors"
+            >
+              Save Policy
+            </button>
+            <a
+              href={POLICY_EXPORT_URL}
+              download
+              className="flex items-center gap-1.5 px-3 py-2 rounded-xl border border-white/10 text-xs text-slate-300 hover:border-indigo-500/50 hover:text-white transition-colors"
+            >
+              <Download className="w-3.5 h-3.5" />
+              Export JSON
+            </a>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1.5 px-3 py-2 rounded-xl border border-white/10 text-xs text-slate-300 hover:border-indigo-500/50 hover:text-white transition-colors"
+            >
+              <Upload className="w-3.5 h-3.5" />
+              Import JSON
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                importFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+            {saved.updatedAt && (
+              <span className="text-[10px] text-slate-600 ml-auto">Saved {new Date(saved.updatedAt).toLocaleString()}</span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Cpu } from 'lucide-react';
+import type { ProviderCatalog, ProviderChoice, ProviderId } from '../types';
+import { resolveChoice } from '../lib/providers';
+
+interface ProviderPickerProps {
+  catalog: ProviderCatalog;
+  choice: ProviderChoice;
+  onChange: (choice: ProviderChoice) => void;
+}
+
+const selectClass = "bg-[#121214] border border-white/10 rounded-xl px-3 py-2 text-xs text-slate-300 focus:outline-none focus:ring-2 focus:ring-indigo-500/50 min-w-0";
+
+export default function ProviderPicker({ catalog, choice, onChange }: ProviderPickerProps) {
+  const active = resolveChoice(catalog, choice);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-[10px] uppercase tracking-widest text-slate-500 font-bold flex items-center gap-1.5 mr-1">
+        <Cpu className="w-3.5 h-3.5 text-indigo-400" />
+        Analysis Engine
+      </span>
+      <select
+        value={active?.provider.id ?? ''}
+        onChange={(e) => onChange({ provider: e.target.value as ProviderId })}
+        className={selectClass}
+      >
+        {catalog.providers.map(p => (
+          <option key={p.id} value={p.id} disabled={!p.available}>
+            {p.label}{p.available ? '' : ' (not configured)'}
+          </option>
+        ))}
+      </select>
+      {active && active.provider.models.length > 1 && (
+        <select
+          value={active.model}
+          onChange={(e) => onChange({ provider: active.provider.id, model: e.target.value })}
+          className={selectClass}
+        >
+          {active.provider.models.map(m => <option key={m} value={m}>{m}</option>)}
+        </select>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Gauge } from 'lucide-react';
+import type { AnalysisResult, IndicatorSource } from '../types';
+import { cn } from '../lib/utils';
+
+const SOURCE_LABELS: Record<IndicatorSource, string> = {
+  model: 'AI',
+  header: 'Header',
+  link: 'Link',
+  attachment: 'File',
+  injection: 'Injection',
+  policy: 'Policy',
+};
+
+interface ScoreBreakdownProps {
+  result: AnalysisResult;
+  // Called with the indicator's index in result.indicators when its evidence row is clicked.
+  onLocate?: (index: number) => void;
+}
+
+export default function ScoreBreakdown({ result, onLocate }: ScoreBreakdownProps) {
+  const indicators = [...(result.indicators ?? [])]
+    .filter(i => i.weight !== 0)
+    .sort((a, b) => b.weight - a.weight);
+  const total = indicators.reduce((sum, i) => sum + i.weight, 0);
+
+  return (
+    <div className="bg-[#121214] rounded-3xl border border-white/10 overflow-hidden">
+      <div className="px-6 py-4 border-b border-white/5 bg-white/5 flex items-center justify-between">
+        <h3 className="text-sm font-bold text-white flex items-center gap-2">
+          <Gauge className="w-4 h-4 text-indigo-400" />
+          Score Breakdown
+        </h3>
+        {result.thresholds && (
+          <span className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">
+            Medium ≥ {result.thresholds.medium} • High ≥ {result.thresholds.high}
+          </span>
+        )}
+      </div>
+      <div className="p-6 space-y-2">
+        {indicators.length === 0 ? (
+          <p className="text-sm text-slate-500">No indicator changed the score.</p>
+        ) : (
+          indicators.map((indicator, i) => {
+            const locatable = Boolean(onLocate && indicator.spans?.length);
+            return (
+              <div
+                key={i}
+                className={cn(
+                  "flex items-start gap-3 text-sm",
+                  locatable && "cursor-pointer rounded-lg hover:bg-white/5 transition-colors"
+                )}
+                title={indicator.detail}
+                onClick={locatable ? () => onLocate!(result.indicators!.indexOf(indicator)) : undefined}
+              >
+                <span className={cn(
+                  "w-12 shrink-0 text-right font-mono font-bold tabular-nums",
+                  indicator.weight > 0 ? "text-red-400" : "text-emerald-400"
+                )}>
+                  {indicator.weight > 0 ? `+${indicator.weight}` : `−${Math.abs(indicator.weight)}`}
+                </span>
+                <span className="px-1.5 py-0.5 rounded text-[9px] font-bold uppercase tracking-wider bg-white/5 text-slate-500 shrink-0 mt-0.5">
+                  {SOURCE_LABELS[indicator.source]}
+                </span>
+                <div className="min-w-0">
+                  <div className="text-slate-300">{indicator.title}</div>
+                  <div className="text-[10px] uppercase tracking-wider text-slate-600">
+                    {indicator.category} • {indicator.severity}
+                    {locatable && ' • show in message'}
+                  </div>
+                </div>
+              </div>
+            );
+          })
+        )}
+        <div className="pt-3 mt-3 border-t border-white/5 text-xs text-slate-500 space-y-1">
+          <div>
+            Sum of weights: <span className="font-mono text-slate-300">{total}</span>
+            {(total > 100 || total < 0) && ' (clamped to 0–100)'}
+          </div>
+          {result.scoreFloor && (
+            <div className="text-amber-400">
+              Raised to {result.score} because "{result.scoreFloor.reason}" always rates at least {result.scoreFloor.level} risk.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
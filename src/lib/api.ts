@@ -0,0 +1,250 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  AnalysisEvent,
+  AnalystFeedback,
+  ApiKeyInfo,
+  BatchFile,
+  BatchJob,
+  CampaignDetail,
+  CampaignSummary,
+  CreatedApiKey,
+  CreatedWebhook,
+  DashboardData,
+  DashboardExportFormat,
+  DashboardQuery,
+  FeedbackLabel,
+  HistoryPage,
+  HistoryQuery,
+  IocExportFormat,
+  PolicyProfile,
+  ProviderCatalog,
+  ProviderChoice,
+  RiskLevel,
+  ScanRecord,
+  WebhookInfo,
+} from '../types';
+import type { Brand } from './brands';
+
+/** A failed API call, with the server's machine-readable code and details when it sent them. */
+export class ApiError extends Error {
+  constructor(message: string, public status: number, public code?: string, public details: string[] = []) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+async function request<T>(url: string, init: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  if (response.status === 204) return undefined as T;
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new ApiError(
+      body?.error ?? `Request failed with status ${response.status}.`,
+      response.status,
+      body?.code,
+      Array.isArray(body?.details) ? body.details : []
+    );
+  }
+  return body as T;
+}
+
+/** Analyzes a raw message on the server, which stores it in the scan history. */
+export function requestAnalysis(source: string, brands: Brand[], choice: ProviderChoice = {}): Promise<ScanRecord> {
+  return request<ScanRecord>('/api/analyze', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ source, brands, ...choice }),
+  });
+}
+
+/**
+ * Same as requestAnalysis, but reports progress through onEvent as the server
+ * sends it. Aborting the signal closes the connection, which cancels the scan.
+ */
+export async function streamAnalysis(
+  source: string,
+  brands: Brand[],
+  choice: ProviderChoice,
+  { signal, onEvent }: { signal?: AbortSignal; onEvent?: (event: AnalysisEvent) => void } = {}
+): Promise<ScanRecord> {
+  const response = await fetch('/api/analyze/stream', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ source, brands, ...choice }),
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => null);
+    throw new ApiError(body?.error ?? `Request failed with status ${response.status}.`, response.status, body?.code);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event = JSON.parse(line) as AnalysisEvent;
+      if (event.type === 'error') throw new ApiError(event.error, response.status, event.code, event.details ?? []);
+      onEvent?.(event);
+      if (event.type === 'result') return event.scan;
+    }
+  }
+  throw new ApiError('The connection closed before the analysis finished.', response.status, 'network');
+}
+
+export function fetchProviders(): Promise<ProviderCatalog> {
+  return request<ProviderCatalog>('/api/providers', { method: 'GET' });
+}
+
+export function fetchPolicy(): Promise<PolicyProfile> {
+  return request<PolicyProfile>('/api/policy', { method: 'GET' });
+}
+
+// Policy changes and key and webhook management are authorised by the server's ADMIN_TOKEN.
+function adminHeaders(adminToken: string, json = false): HeadersInit {
+  return { Authorization: `Bearer ${adminToken}`, ...(json ? { 'Content-Type': 'application/json' } : {}) };
+}
+
+// Kept for the browser session only, so the admin token does not outlive the tab.
+const ADMIN_TOKEN_KEY = 'phishguard.adminToken';
+
+export function loadAdminToken(): string {
+  return sessionStorage.getItem(ADMIN_TOKEN_KEY) ?? '';
+}
+
+export function storeAdminToken(adminToken: string): void {
+  if (adminToken) sessionStorage.setItem(ADMIN_TOKEN_KEY, adminToken);
+  else sessionStorage.removeItem(ADMIN_TOKEN_KEY);
+}
+
+/** Replaces the organization's policy profile; the server validates it and answers 400 with the problems. */
+export function savePolicy(adminToken: string, policy: PolicyProfile): Promise<PolicyProfile> {
+  return request<PolicyProfile>('/api/policy', {
+    method: 'PUT',
+    headers: adminHeaders(adminToken, true),
+    body: JSON.stringify(policy),
+  });
+}
+
+export const POLICY_EXPORT_URL = '/api/policy/export';
+
+export function fetchApiKeys(adminToken: string): Promise<ApiKeyInfo[]> {
+  return request<ApiKeyInfo[]>('/api/integrations/keys', { method: 'GET', headers: adminHeaders(adminToken) });
+}
+
+/** Issues an API key for an integration; the response is the only place the key itself appears. */
+export function createApiKey(adminToken: string, name: string): Promise<CreatedApiKey> {
+  return request<CreatedApiKey>('/api/integrations/keys', {
+    method: 'POST',
+    headers: adminHeaders(adminToken, true),
+    body: JSON.stringify({ name }),
+  });
+}
+
+export function revokeApiKey(adminToken: string, id: string): Promise<void> {
+  return request<void>(`/api/integrations/keys/${encodeURIComponent(id)}`, { method: 'DELETE', headers: adminHeaders(adminToken) });
+}
+
+export function fetchWebhooks(adminToken: string): Promise<WebhookInfo[]> {
+  return request<WebhookInfo[]>('/api/integrations/webhooks', { method: 'GET', headers: adminHeaders(adminToken) });
+}
+
+/** Registers a webhook; the response is the only place its signing secret appears. */
+export function createWebhook(adminToken: string, name: string, url: string, minRisk: RiskLevel): Promise<CreatedWebhook> {
+  return request<CreatedWebhook>('/api/integrations/webhooks', {
+    method: 'POST',
+    headers: adminHeaders(adminToken, true),
+    body: JSON.stringify({ name, url, minRisk }),
+  });
+}
+
+export function deleteWebhook(adminToken: string, id: string): Promise<void> {
+  return request<void>(`/api/integrations/webhooks/${encodeURIComponent(id)}`, { method: 'DELETE', headers: adminHeaders(adminToken) });
+}
+
+export function fetchHistory(query: HistoryQuery): Promise<HistoryPage> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  }
+  return request<HistoryPage>(`/api/history?${params}`, { method: 'GET' });
+}
+
+export function fetchScan(id: string): Promise<ScanRecord> {
+  return request<ScanRecord>(`/api/history/${encodeURIComponent(id)}`, { method: 'GET' });
+}
+
+export function deleteScan(id: string): Promise<void> {
+  return request<void>(`/api/history/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+export function saveFeedback(id: string, label: FeedbackLabel, note: string): Promise<AnalystFeedback> {
+  return request<AnalystFeedback>(`/api/history/${encodeURIComponent(id)}/feedback`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ label, note }),
+  });
+}
+
+export function clearFeedback(id: string): Promise<void> {
+  return request<void>(`/api/history/${encodeURIComponent(id)}/feedback`, { method: 'DELETE' });
+}
+
+/** Download link for the IOCs of one or more stored scans, as a single file. */
+export function iocExportUrl(ids: string[], format: IocExportFormat): string {
+  return `/api/history/export?${new URLSearchParams({ ids: ids.join(','), format })}`;
+}
+
+function dashboardParams(query: DashboardQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) params.set(key, String(value));
+  }
+  return params;
+}
+
+export function fetchDashboard(query: DashboardQuery): Promise<DashboardData> {
+  return request<DashboardData>(`/api/dashboard?${dashboardParams(query)}`, { method: 'GET' });
+}
+
+/** Download link for the dashboard's figures over a date range. */
+export function dashboardExportUrl(query: DashboardQuery, format: DashboardExportFormat): string {
+  const params = dashboardParams(query);
+  params.set('format', format);
+  return `/api/dashboard/export?${params}`;
+}
+
+export function fetchCampaigns(): Promise<CampaignSummary[]> {
+  return request<CampaignSummary[]>('/api/campaigns', { method: 'GET' });
+}
+
+export function fetchCampaign(id: string): Promise<CampaignDetail> {
+  return request<CampaignDetail>(`/api/campaigns/${encodeURIComponent(id)}`, { method: 'GET' });
+}
+
+/** Queues uploaded .eml files and mbox exports for bulk analysis. */
+export function createBatch(files: BatchFile[], brands: Brand[], choice: ProviderChoice = {}): Promise<BatchJob> {
+  return request<BatchJob>('/api/batches', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ files, brands, ...choice }),
+  });
+}
+
+export function fetchBatch(id: string): Promise<BatchJob> {
+  return request<BatchJob>(`/api/batches/${encodeURIComponent(id)}`, { method: 'GET' });
+}
+
+export function cancelBatch(id: string): Promise<BatchJob> {
+  return request<BatchJob>(`/api/batches/${encodeURIComponent(id)}/cancel`, { method: 'POST' });
+}
@@ -0,0 +1,294 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AttachmentFinding, AttachmentReport, EmailAttachment, Indicator, ParsedEmail, Severity } from '../types';
+import { ZipEntryTooLargeError, listZipEntries, readZipEntry, type ZipEntry } from './zip';
+import { maxRisk } from './risk';
+import { SEVERITY_WEIGHTS } from './scoring';
+
+// Extensions Windows will run, install, mount or open with a script host.
+const DANGEROUS_EXTENSIONS = new Set([
+  'exe', 'scr', 'com', 'pif', 'bat', 'cmd', 'vbs', 'vbe', 'js', 'jse', 'wsf', 'wsh', 'hta',
+  'msi', 'msp', 'ps1', 'psm1', 'jar', 'lnk', 'cpl', 'dll', 'reg', 'scf', 'chm', 'appx',
+  'msix', 'application', 'gadget', 'xll', 'iso', 'img', 'vhd', 'vhdx', 'one', 'url', 'sct',
+]);
+
+const MACRO_EXTENSIONS = new Set(['docm', 'dotm', 'xlsm', 'xltm', 'xlam', 'pptm', 'potm', 'ppsm']);
+
+// Extensions used as the decoy half of "invoice.pdf.exe".
+const DECOY_EXTENSIONS = new Set([
+  'pdf', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx', 'txt', 'rtf', 'jpg', 'jpeg', 'png',
+  'gif', 'zip', 'csv', 'htm', 'html', 'mp3', 'mp4', 'wav',
+]);
+
+const ARCHIVE_EXTENSIONS = new Set(['zip', 'rar', '7z', 'gz', 'tgz', 'tar', 'cab', 'iso', 'img', 'ace', 'arj']);
+const HTML_EXTENSIONS = new Set(['html', 'htm', 'shtml', 'xhtml', 'svg', 'mht', 'mhtml']);
+
+// Coarse file families for comparing what an attachment claims to be with what it is.
+const EXTENSION_FAMILIES: Record<string, string> = {
+  pdf: 'pdf', doc: 'ole', xls: 'ole', ppt: 'ole', msg: 'ole',
+  docx: 'ooxml', xlsx: 'ooxml', pptx: 'ooxml', docm: 'ooxml', xlsm: 'ooxml', pptm: 'ooxml',
+  zip: 'zip', jar: 'zip', png: 'image', jpg: 'image', jpeg: 'image', gif: 'image',
+  html: 'html', htm: 'html', svg: 'html', exe: 'executable', dll: 'executable', scr: 'executable',
+  com: 'executable', cpl: 'executable', rar: 'rar', '7z': '7z', gz: 'gzip', rtf: 'rtf', iso: 'iso',
+  txt: 'text', csv: 'text',
+};
+
+interface Sniffed {
+  type: string;
+  family: string;
+}
+
+function startsWith(data: Uint8Array, signature: number[], offset = 0): boolean {
+  return signature.every((byte, i) => data[offset + i] === byte);
+}
+
+function ascii(data: Uint8Array, start = 0, length = 512): string {
+  return new TextDecoder('latin1').decode(data.subarray(start, start + length));
+}
+
+function sniff(data: Uint8Array, entries: ZipEntry[] | null): Sniffed | undefined {
+  if (startsWith(data, [0x4d, 0x5a])) return { type: 'application/x-msdownload (PE executable)', family: 'executable' };
+  if (startsWith(data, [0x7f, 0x45, 0x4c, 0x46])) return { type: 'application/x-elf (ELF executable)', family: 'executable' };
+  if (startsWith(data, [0x4c, 0x00, 0x00, 0x00, 0x01, 0x14, 0x02, 0x00])) return { type: 'application/x-ms-shortcut', family: 'executable' };
+  if (ascii(data, 0, 1024).includes('%PDF-')) return { type: 'application/pdf', family: 'pdf' };
+  if (startsWith(data, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return { type: 'application/x-ole-storage (legacy Office)', family: 'ole' };
+  if (startsWith(data, [0x50, 0x4b, 0x03, 0x04]) || startsWith(data, [0x50, 0x4b, 0x05, 0x06])) {
+    const names = entries?.map(e => e.name) ?? [];
+    if (names.includes('[Content_Types].xml')) {
+      if (names.some(n => n.startsWith('word/'))) return { type: 'application/vnd.openxmlformats (Word)', family: 'ooxml' };
+      if (names.some(n => n.startsWith('xl/'))) return { type: 'application/vnd.openxmlformats (Excel)', family: 'ooxml' };
+      if (names.some(n => n.startsWith('ppt/'))) return { type: 'application/vnd.openxmlformats (PowerPoint)', family: 'ooxml' };
+      return { type: 'application/vnd.openxmlformats', family: 'ooxml' };
+    }
+    if (names.includes('META-INF/MANIFEST.MF')) return { type: 'application/java-archive', family: 'zip' };
+    return { type: 'application/zip', family: 'zip' };
+  }
+  if (startsWith(data, [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07])) return { type: 'application/vnd.rar', family: 'rar' };
+  if (startsWith(data, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c])) return { type: 'application/x-7z-compressed', family: '7z' };
+  if (startsWith(data, [0x1f, 0x8b])) return { type: 'application/gzip', family: 'gzip' };
+  if (startsWith(data, [0x4d, 0x53, 0x43, 0x46])) return { type: 'application/vnd.ms-cab-compressed', family: 'cab' };
+  if (ascii(data, 0x8001, 5) === 'CD001') return { type: 'application/x-iso9660-image', family: 'iso' };
+  if (startsWith(data, [0x89, 0x50, 0x4e, 0x47])) return { type: 'image/png', family: 'image' };
+  if (startsWith(data, [0xff, 0xd8, 0xff])) return { type: 'image/jpeg', family: 'image' };
+  if (ascii(data, 0, 4) === 'GIF8') return { type: 'image/gif', family: 'image' };
+  if (ascii(data, 0, 5) === '{\\rtf') return { type: 'application/rtf', family: 'rtf' };
+  const head = ascii(data).replace(/^\xef\xbb\xbf/, '').trimStart().toLowerCase();
+  if (head.startsWith('<svg') || (head.startsWith('<?xml') && head.includes('<svg'))) return { type: 'image/svg+xml', family: 'html' };
+  if (/^<(!doctype html|html|head|body|script|meta|form|div|iframe)\b/.test(head)) return { type: 'text/html', family: 'html' };
+  return undefined;
+}
+
+function extensionsOf(filename: string): string[] {
+  return filename.toLowerCase().split('.').slice(1).map(e => e.trim());
+}
+
+async function sha256(data: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function containsUtf16(data: Uint8Array, text: string): boolean {
+  const needle = Array.from(text).flatMap(c => [c.charCodeAt(0), 0]);
+  outer: for (let i = 0; i <= data.length - needle.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (data[i + j] !== needle[j]) continue outer;
+    }
+    return true;
+  }
+  return false;
+}
+
+function inspectName(filename: string): AttachmentFinding[] {
+  const findings: AttachmentFinding[] = [];
+  const exts = extensionsOf(filename);
+  const last = exts[exts.length - 1] ?? '';
+
+  // U+202E flips display order so "invoice_fdp.exe" renders as "invoice_exe.pdf".
+  if (/[\u202a-\u202e\u2066-\u2069]/.test(filename)) {
+    findings.push({ title: 'Filename contains a right-to-left override that disguises its real extension', severity: 'critical' });
+  }
+  if (exts.length >= 2 && DANGEROUS_EXTENSIONS.has(last) && DECOY_EXTENSIONS.has(exts[exts.length - 2])) {
+    findings.push({ title: `Double extension .${exts[exts.length - 2]}.${last} hides an executable`, severity: 'critical' });
+  } else if (DANGEROUS_EXTENSIONS.has(last)) {
+    findings.push({ title: `Dangerous file type .${last}`, severity: 'high' });
+  }
+  if (MACRO_EXTENSIONS.has(last)) {
+    findings.push({ title: `Macro-enabled Office format .${last}`, severity: 'medium' });
+  }
+  if (/\s{5,}\.\w+$/.test(filename)) {
+    findings.push({ title: 'Long run of spaces pushes the real extension out of view', severity: 'high' });
+  }
+  return findings;
+}
+
+function inspectArchive(entries: ZipEntry[]): AttachmentFinding[] {
+  const findings: AttachmentFinding[] = [];
+  const executables = entries.filter(e => DANGEROUS_EXTENSIONS.has(extensionsOf(e.name).pop() ?? ''));
+  if (executables.length > 0) {
+    findings.push({
+      title: `Archive contains executable content: ${executables.slice(0, 5).map(e => e.name).join(', ')}${executables.length > 5 ? '…' : ''}`,
+      severity: 'critical',
+    });
+  }
+  if (entries.some(e => e.encrypted)) {
+    findings.push({ title: 'Password-protected archive cannot be scanned by mail filters', severity: 'medium' });
+  }
+  if (entries.some(e => ARCHIVE_EXTENSIONS.has(extensionsOf(e.name).pop() ?? ''))) {
+    findings.push({ title: 'Archive nests another archive', severity: 'low' });
+  }
+  if (entries.some(e => HTML_EXTENSIONS.has(extensionsOf(e.name).pop() ?? ''))) {
+    findings.push({ title: 'Archive contains HTML files', severity: 'medium' });
+  }
+  return findings;
+}
+
+async function inspectOoxml(data: Uint8Array, entries: ZipEntry[]): Promise<AttachmentFinding[]> {
+  const findings: AttachmentFinding[] = [];
+  if (entries.some(e => /(^|\/)vbaProject\.bin$/i.test(e.name))) {
+    findings.push({ title: 'Document contains VBA macros (vbaProject.bin)', severity: 'high' });
+  }
+  if (entries.some(e => /(^|\/)activeX\//i.test(e.name))) {
+    findings.push({ title: 'Document embeds ActiveX controls', severity: 'medium' });
+  }
+  if (entries.some(e => /(^|\/)embeddings\/oleObject/i.test(e.name))) {
+    findings.push({ title: 'Document embeds OLE objects', severity: 'medium' });
+  }
+
+  for (const entry of entries.filter(e => e.name.endsWith('.rels'))) {
+    let content: Uint8Array | null;
+    try {
+      content = await readZipEntry(data, entry);
+    } catch (err) {
+      if (!(err instanceof ZipEntryTooLargeError)) throw err;
+      // Relationship parts are a few kilobytes; anything this large is built to exhaust scanners.
+      findings.push({ title: `Attachment too large to inspect: ${entry.name} inflates beyond the safe limit (possible zip bomb)`, severity: 'high' });
+      break;
+    }
+    if (!content) continue;
+    const xml = new TextDecoder('utf-8').decode(content);
+    for (const rel of xml.matchAll(/<Relationship\b[^>]*>/gi)) {
+      if (!/TargetMode\s*=\s*"External"/i.test(rel[0])) continue;
+      const type = rel[0].match(/Type\s*=\s*"([^"]*)"/i)?.[1] ?? '';
+      const target = rel[0].match(/Target\s*=\s*"([^"]*)"/i)?.[1] ?? '';
+      if (/attachedTemplate/i.test(type)) {
+        findings.push({ title: `Remote template injection: loads ${target}`, severity: 'critical' });
+      } else if (/oleObject|frame|subDocument/i.test(type)) {
+        findings.push({ title: `External ${type.split('/').pop()} reference to ${target}`, severity: 'high' });
+      }
+    }
+  }
+  return findings;
+}
+
+function inspectOle(data: Uint8Array): AttachmentFinding[] {
+  // Directory entries store stream names in UTF-16LE; every VBA project has this stream.
+  if (containsUtf16(data, '_VBA_PROJECT')) {
+    return [{ title: 'Legacy Office document contains VBA macros', severity: 'high' }];
+  }
+  return [];
+}
+
+function inspectHtml(data: Uint8Array): AttachmentFinding[] {
+  const html = new TextDecoder('utf-8').decode(data.subarray(0, 2 * 1024 * 1024));
+  const findings: AttachmentFinding[] = [{ title: 'HTML attachment opens locally in the browser, bypassing URL filters', severity: 'medium' }];
+  const smuggling = [/\batob\s*\(/i, /new\s+Blob\s*\(/i, /URL\.createObjectURL/i, /msSaveOrOpenBlob/i, /\bdownload\s*=/i]
+    .filter(pattern => pattern.test(html)).length;
+  const largeBlob = /[A-Za-z0-9+/]{4000,}={0,2}/.test(html);
+  if (smuggling >= 2 || (smuggling >= 1 && largeBlob)) {
+    findings.push({ title: 'HTML smuggling: script assembles and downloads a file in the browser', severity: 'critical' });
+  } else if (largeBlob) {
+    findings.push({ title: 'Large embedded base64 payload', severity: 'medium' });
+  }
+  if (/<input[^>]+type\s*=\s*["']?password/i.test(html)) {
+    findings.push({ title: 'Contains a password form (credential harvesting page)', severity: 'high' });
+  }
+  if (/<meta[^>]+http-equiv\s*=\s*["']?refresh/i.test(html) || /(window|document)\.location(\.href)?\s*=/.test(html)) {
+    findings.push({ title: 'Redirects the browser to another page', severity: 'medium' });
+  }
+  return findings;
+}
+
+function inspectPdf(data: Uint8Array): AttachmentFinding[] {
+  const text = new TextDecoder('latin1').decode(data);
+  const findings: AttachmentFinding[] = [];
+  if (/\/(JavaScript|JS)\b/.test(text)) findings.push({ title: 'PDF contains JavaScript', severity: 'high' });
+  if (/\/Launch\b/.test(text)) findings.push({ title: 'PDF can launch external programs', severity: 'high' });
+  if (/\/EmbeddedFile\b/.test(text)) findings.push({ title: 'PDF embeds other files', severity: 'medium' });
+  if (/\/OpenAction\b|\/AA\b/.test(text) && findings.length > 0) findings.push({ title: 'PDF runs actions automatically when opened', severity: 'medium' });
+  return findings;
+}
+
+const SEVERITY_RISK: Record<Severity, 'Low' | 'Medium' | 'High'> = {
+  info: 'Low', low: 'Low', medium: 'Medium', high: 'High', critical: 'High',
+};
+
+export async function inspectAttachment(attachment: EmailAttachment): Promise<AttachmentReport> {
+  const data = attachment.content;
+  const entries = listZipEntries(data);
+  const sniffed = sniff(data, entries);
+  const last = extensionsOf(attachment.filename).pop() ?? '';
+  const findings: AttachmentFinding[] = inspectName(attachment.filename);
+
+  // Content that disagrees with its name or declared type.
+  const expected = EXTENSION_FAMILIES[last];
+  if (sniffed && expected && sniffed.family !== expected && !(expected === 'text' && sniffed.family === 'html')) {
+    findings.push({
+      title: `File named .${last} is actually ${sniffed.type}`,
+      severity: sniffed.family === 'executable' ? 'critical' : 'high',
+    });
+  } else if (sniffed?.family === 'executable' && !DANGEROUS_EXTENSIONS.has(last)) {
+    findings.push({ title: `Executable content disguised as ${attachment.contentType}`, severity: 'critical' });
+  }
+
+  if (entries && sniffed?.family === 'ooxml') findings.push(...await inspectOoxml(data, entries));
+  else if (entries) findings.push(...inspectArchive(entries));
+  if (sniffed?.family === 'ole') findings.push(...inspectOle(data));
+  if (sniffed?.family === 'pdf') findings.push(...inspectPdf(data));
+  if (sniffed?.family === 'html' || HTML_EXTENSIONS.has(last) || attachment.contentType === 'text/html') {
+    findings.push(...inspectHtml(data));
+  }
+  if (sniffed && ['rar', '7z', 'iso', 'cab'].includes(sniffed.family)) {
+    findings.push({ title: `${sniffed.type} archive contents cannot be inspected locally`, severity: 'medium' });
+  }
+
+  return {
+    filename: attachment.filename,
+    declaredType: attachment.contentType,
+    sniffedType: sniffed?.type,
+    size: attachment.size,
+    sha256: await sha256(data),
+    risk: maxRisk(findings.map(f => SEVERITY_RISK[f.severity])),
+    findings,
+    archiveEntries: entries && sniffed?.family !== 'ooxml' ? entries.map(e => e.name) : undefined,
+  };
+}
+
+/**
+ * Statically inspects every attachment: magic-byte sniffing, SHA-256,
+ * dangerous and disguised names, archive listings, Office macros and remote
+ * templates, PDF actions and HTML smuggling. Nothing is executed.
+ */
+export function inspectAttachments(email: ParsedEmail): Promise<AttachmentReport[]> {
+  return Promise.all(email.attachments.map(inspectAttachment));
+}
+
+/** Maps attachment findings to weighted scoring indicators. Critical findings force High risk. */
+export function attachmentScoreIndicators(reports: AttachmentReport[]): Indicator[] {
+  return reports.flatMap(report =>
+    report.findings
+      .filter(finding => SEVERITY_WEIGHTS[finding.severity] > 0)
+      .map((finding): Indicator => ({
+        source: 'attachment',
+        category: 'attachment',
+        severity: finding.severity,
+        weight: SEVERITY_WEIGHTS[finding.severity],
+        title: `${report.filename}: ${finding.title}`,
+        detail: `SHA-256 ${report.sha256}`,
+        minimumRisk: finding.severity === 'critical' ? 'High' : undefined,
+        evidence: [report.filename],
+      }))
+  );
+}
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { escapeRegExp } from './utils';
+
+export interface Brand {
+  name: string;
+  // Lower-case display-name keywords that identify the brand.
+  keywords: string[];
+  // Registrable domains the brand legitimately sends from or links to.
+  domains: string[];
+}
+
+export const DEFAULT_BRANDS: Brand[] = [
+  { name: 'PayPal', keywords: ['paypal'], domains: ['paypal.com', 'paypal.me'] },
+  { name: 'Microsoft', keywords: ['microsoft', 'office 365', 'office365', 'outlook', 'onedrive', 'sharepoint'], domains: ['microsoft.com', 'office.com', 'office365.com', 'outlook.com', 'live.com', 'sharepoint.com', 'microsoftonline.com'] },
+  { name: 'Apple', keywords: ['apple', 'icloud', 'itunes'], domains: ['apple.com', 'icloud.com'] },
+  { name: 'Amazon', keywords: ['amazon', 'aws'], domains: ['amazon.com', 'amazon.co.uk', 'amazon.de', 'amazonaws.com'] },
+  { name: 'Google', keywords: ['google', 'gmail'], domains: ['google.com', 'gmail.com', 'googlemail.com'] },
+  { name: 'Netflix', keywords: ['netflix'], domains: ['netflix.com'] },
+  { name: 'DocuSign', keywords: ['docusign'], domains: ['docusign.com', 'docusign.net'] },
+  { name: 'Dropbox', keywords: ['dropbox'], domains: ['dropbox.com', 'dropboxmail.com'] },
+  { name: 'LinkedIn', keywords: ['linkedin'], domains: ['linkedin.com'] },
+  { name: 'Facebook', keywords: ['facebook'], domains: ['facebook.com', 'facebookmail.com', 'meta.com'] },
+  { name: 'Instagram', keywords: ['instagram'], domains: ['instagram.com'] },
+  { name: 'Adobe', keywords: ['adobe'], domains: ['adobe.com'] },
+  { name: 'DHL', keywords: ['dhl'], domains: ['dhl.com', 'dhl.de'] },
+  { name: 'FedEx', keywords: ['fedex'], domains: ['fedex.com'] },
+  { name: 'UPS', keywords: ['ups'], domains: ['ups.com'] },
+  { name: 'Chase', keywords: ['chase'], domains: ['chase.com', 'jpmorgan.com'] },
+  { name: 'Bank of America', keywords: ['bank of america', 'bofa'], domains: ['bankofamerica.com', 'bofa.com'] },
+  { name: 'Wells Fargo', keywords: ['wells fargo'], domains: ['wellsfargo.com'] },
+  { name: 'IRS', keywords: ['irs', 'internal revenue'], domains: ['irs.gov'] },
+];
+
+/** Finds brands whose keywords appear as whole words in the given text. */
+export function findBrandMentions(text: string, brands: Brand[] = DEFAULT_BRANDS): Brand[] {
+  const lower = text.toLowerCase();
+  return brands.filter(brand =>
+    brand.keywords.some(keyword =>
+      new RegExp(`(^|[^a-z0-9])${escapeRegExp(keyword)}([^a-z0-9]|$)`).test(lower)
+    )
+  );
+}
+
+const STORAGE_KEY = 'phishguard.customBrands';
+
+/** Parses the editor format: one brand per line, "Name: domain.com, other.com". */
+export function parseBrandList(text: string): Brand[] {
+  return text.split('\n').flatMap(line => {
+    const colon = line.indexOf(':');
+    if (colon <= 0) return [];
+    const name = line.slice(0, colon).trim();
+    const domains = line.slice(colon + 1).split(',').map(d => d.trim().toLowerCase()).filter(Boolean);
+    return name && domains.length > 0 ? [{ name, keywords: [name.toLowerCase()], domains }] : [];
+  });
+}
+
+export function formatBrandList(brands: Brand[]): string {
+  return brands.map(b => `${b.name}: ${b.domains.join(', ')}`).join('\n');
+}
+
+export function loadCustomBrands(): Brand[] {
+  if (typeof localStorage === 'undefined') return [];
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]') as Brand[];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCustomBrands(brands: Brand[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(brands));
+}
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Exported charts are standalone files, so they carry their own colours and
+// fonts as SVG attributes rather than relying on the page's stylesheet.
+export const CHART_COLORS = {
+  background: '#121214',
+  grid: '#27272a',
+  text: '#94a3b8',
+  muted: '#475569',
+  bar: '#6366f1',
+  scans: '#334155',
+  detections: '#ef4444',
+  Low: '#10b981',
+  Medium: '#f59e0b',
+  High: '#ef4444',
+};
+
+export const CHART_FONT = 'ui-sans-serif, system-ui, sans-serif';
+
+function saveBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+function svgBlob(svg: SVGSVGElement): Blob {
+  const markup = new XMLSerializer().serializeToString(svg);
+  return new Blob([markup], { type: 'image/svg+xml' });
+}
+
+export function downloadSvg(svg: SVGSVGElement, name: string) {
+  saveBlob(svgBlob(svg), `${name}.svg`);
+}
+
+/** Renders the chart at twice its drawn size, for pasting into reports. */
+export async function downloadPng(svg: SVGSVGElement, name: string) {
+  const { width, height } = svg.viewBox.baseVal;
+  const url = URL.createObjectURL(svgBlob(svg));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    const canvas = document.createElement('canvas');
+    canvas.width = width * 2;
+    canvas.height = height * 2;
+    canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+    const png = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!png) throw new Error('The browser could not render the chart.');
+    saveBlob(png, `${name}.png`);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
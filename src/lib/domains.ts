@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Second-level suffixes under which registrations happen one label deeper.
+// Not a full public-suffix list, but covers the registries phishing mail most
+// often abuses or imitates.
+const MULTI_LABEL_SUFFIXES = new Set([
+  'co.uk', 'org.uk', 'ac.uk', 'gov.uk', 'me.uk', 'com.au', 'net.au', 'org.au',
+  'co.jp', 'ne.jp', 'co.nz', 'co.in', 'co.za', 'co.kr', 'com.br', 'com.cn',
+  'com.mx', 'com.sg', 'com.tr', 'com.hk', 'com.tw', 'com.ar', 'com.my',
+]);
+
+export function domainOf(address: string): string {
+  const at = address.lastIndexOf('@');
+  return (at === -1 ? '' : address.slice(at + 1)).trim().toLowerCase().replace(/\.$/, '');
+}
+
+export function isIpLiteral(host: string): boolean {
+  const bare = host.replace(/^\[|\]$/g, '');
+  return /^\d{1,3}(\.\d{1,3}){3}$/.test(bare) || (bare.includes(':') && /^[0-9a-f:.]+$/i.test(bare));
+}
+
+/** Returns the organisational ("registrable") domain, e.g. mail.paypal.co.uk → paypal.co.uk. */
+export function registrableDomain(host: string): string {
+  const clean = host.trim().toLowerCase().replace(/\.$/, '');
+  if (isIpLiteral(clean)) return clean;
+  const labels = clean.split('.');
+  if (labels.length <= 2) return clean;
+  const lastTwo = labels.slice(-2).join('.');
+  return MULTI_LABEL_SUFFIXES.has(lastTwo) ? labels.slice(-3).join('.') : lastTwo;
+}
+
+/** Relaxed DMARC-style alignment: both hosts share an organisational domain. */
+export function domainsAligned(a: string, b: string): boolean {
+  return Boolean(a && b) && registrableDomain(a) === registrableDomain(b);
+}
@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { FeedbackLabel, RiskLevel } from '../types';
+import { RISK_ORDER } from './risk';
+
+export const FEEDBACK_LABELS: Record<FeedbackLabel, { title: string; isPhishing: boolean }> = {
+  'confirmed-phish': { title: 'Confirmed phish', isPhishing: true },
+  'false-positive': { title: 'False positive', isPhishing: false },
+  'false-negative': { title: 'False negative', isPhishing: true },
+};
+
+export function isFeedbackLabel(value: unknown): value is FeedbackLabel {
+  return typeof value === 'string' && Object.hasOwn(FEEDBACK_LABELS, value);
+}
+
+/** Whether a scan counts as phishing: an analyst's label outweighs the scanner's verdict. */
+export function isPhishingVerdict(label: FeedbackLabel | undefined, scannerVerdict: boolean): boolean {
+  return label ? FEEDBACK_LABELS[label].isPhishing : scannerVerdict;
+}
+
+// One labelled message after it went through the pipeline.
+export interface EvalSample {
+  name: string;
+  expected: boolean;
+  predicted?: boolean;
+  riskLevel?: RiskLevel;
+  score?: number;
+  confidence?: number;
+  // Set instead of the prediction when the analysis failed.
+  error?: string;
+}
+
+export interface ConfusionMatrix {
+  truePositives: number;
+  falsePositives: number;
+  trueNegatives: number;
+  falseNegatives: number;
+}
+
+export interface CalibrationBucket {
+  riskLevel: RiskLevel;
+  count: number;
+  phishing: number;
+  // Share of messages at this level that really were phishing, 0–1; null when empty.
+  phishingRate: number | null;
+  meanScore: number | null;
+}
+
+export interface EvalReport {
+  total: number;
+  evaluated: number;
+  confusion: ConfusionMatrix;
+  // Null when undefined, e.g. precision with no positive predictions.
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+  accuracy: number | null;
+  calibration: CalibrationBucket[];
+  misclassified: EvalSample[];
+  errors: EvalSample[];
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+/** Precision, recall, confusion matrix and per-risk-level calibration, with phishing as the positive class. */
+export function evaluate(samples: EvalSample[]): EvalReport {
+  const scored = samples.filter(s => s.error === undefined && s.predicted !== undefined);
+  const confusion: ConfusionMatrix = { truePositives: 0, falsePositives: 0, trueNegatives: 0, falseNegatives: 0 };
+  for (const { expected, predicted } of scored) {
+    if (predicted && expected) confusion.truePositives++;
+    else if (predicted) confusion.falsePositives++;
+    else if (expected) confusion.falseNegatives++;
+    else confusion.trueNegatives++;
+  }
+
+  const { truePositives: tp, falsePositives: fp, falseNegatives: fn, trueNegatives: tn } = confusion;
+  const precision = ratio(tp, tp + fp);
+  const recall = ratio(tp, tp + fn);
+  const f1 = precision !== null && recall !== null && precision + recall > 0
+    ? (2 * precision * recall) / (precision + recall)
+    : null;
+
+  const calibration = RISK_ORDER.map((riskLevel): CalibrationBucket => {
+    const bucket = scored.filter(s => s.riskLevel === riskLevel);
+    const scores = bucket.map(s => s.score).filter((n): n is number => n !== undefined);
+    const phishing = bucket.filter(s => s.expected).length;
+    return {
+      riskLevel,
+      count: bucket.length,
+      phishing,
+      phishingRate: ratio(phishing, bucket.length),
+      meanScore: scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : null,
+    };
+  });
+
+  return {
+    total: samples.length,
+    evaluated: scored.length,
+    confusion,
+    precision,
+    recall,
+    f1,
+    accuracy: ratio(tp + tn, scored.length),
+    calibration,
+    misclassified: scored.filter(s => s.predicted !== s.expected),
+    errors: samples.filter(s => s.error !== undefined),
+  };
+}
+
+function percent(value: number | null): string {
+  return value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`;
+}
+
+/** Plain-text rendering of a report for the terminal. */
+export function formatReport(report: EvalReport, heading: string): string {
+  const { truePositives: tp, falsePositives: fp, trueNegatives: tn, falseNegatives: fn } = report.confusion;
+  const cell = (n: number) => String(n).padStart(12);
+  const lines = [
+    heading,
+    `Evaluated ${report.evaluated} of ${report.total} messages${report.errors.length > 0 ? ` (${report.errors.length} failed)` : ''}`,
+    '',
+    'Confusion matrix          predicted phish  predicted legit',
+    `  actual phishing     ${cell(tp)}     ${cell(fn)}`,
+    `  actual legitimate   ${cell(fp)}     ${cell(tn)}`,
+    '',
+    `Precision ${percent(report.precision)}   Recall ${percent(report.recall)}   F1 ${percent(report.f1)}   Accuracy ${percent(report.accuracy)}`,
+    '',
+    'Calibration by risk level (share actually phishing)',
+    ...report.calibration.map(b =>
+      `  ${b.riskLevel.padEnd(7)} ${String(b.count).padStart(5)} messages   ${percent(b.phishingRate).padStart(6)} phishing   mean score ${b.meanScore === null ? 'n/a' : b.meanScore.toFixed(1)}`
+    ),
+  ];
+  if (report.misclassified.length > 0) {
+    lines.push('', 'Misclassified');
+    for (const s of report.misclassified) {
+      lines.push(`  ${s.name}: expected ${s.expected ? 'phishing' : 'legitimate'}, got ${s.predicted ? 'phishing' : 'legitimate'} (${s.riskLevel}, score ${s.score})`);
+    }
+  }
+  if (report.errors.length > 0) {
+    lines.push('', 'Errors');
+    for (const s of report.errors) lines.push(`  ${s.name}: ${s.error}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Indicator, ParsedEmail, TextSpan } from '../types';
+import { escapeRegExp } from './utils';
+
+const MAX_QUOTE = 500;
+const MIN_QUOTE = 3;
+const MAX_SPANS = 5;
+
+/**
+ * The read-only rendering of a message that evidence offsets point into:
+ * decoded header fields one per line, the plain-text body and attachment
+ * names. It is stored with the result so offsets stay valid even if the
+ * parser changes later.
+ */
+export function buildEvidenceText(email: ParsedEmail): string {
+  const sections: string[] = [];
+  if (email.hasHeaders) sections.push(email.headers.map(h => `${h.name}: ${h.value}`).join('\n'));
+  sections.push(email.text);
+  if (email.attachments.length > 0) {
+    sections.push(`Attachments:\n${email.attachments.map(a => `- ${a.filename}`).join('\n')}`);
+  }
+  return sections.join('\n\n');
+}
+
+/**
+ * Finds a quote, preferring a match in the same case and tolerating
+ * differences in whitespace such as line wrapping. Quotes never match inside
+ * a word, so anchor text such as "pay" is not pinned to the middle of
+ * "paypal".
+ */
+function findQuote(text: string, quote: string): TextSpan | null {
+  const body = quote.split(/\s+/).map(escapeRegExp).join('\\s+');
+  const source = `${/^\w/.test(quote) ? '(?<!\\w)' : ''}${body}${/\w$/.test(quote) ? '(?!\\w)' : ''}`;
+  const match = new RegExp(source).exec(text) ?? new RegExp(source, 'i').exec(text);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+}
+
+/**
+ * Turns the excerpts a source claims as evidence into character ranges of
+ * the evidence text. Excerpts that do not occur in the text are dropped, so
+ * a model cannot point the analyst at something the message never said.
+ */
+export function locateEvidence(text: string, quotes: string[]): TextSpan[] {
+  const spans: TextSpan[] = [];
+  for (const raw of quotes) {
+    // Excerpts cut from a longer passage carry ellipses that are not in the message.
+    const quote = raw.replace(/^…|…$/g, '').trim();
+    if (quote.length < MIN_QUOTE || quote.length > MAX_QUOTE) continue;
+    const span = findQuote(text, quote);
+    if (span && !spans.some(s => s.start === span.start && s.end === span.end)) spans.push(span);
+    if (spans.length === MAX_SPANS) break;
+  }
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+/** Adds verified spans to every indicator whose evidence could be found in the text. */
+export function attachEvidenceSpans(text: string, indicators: Indicator[]): Indicator[] {
+  return indicators.map(indicator => {
+    const spans = indicator.evidence ? locateEvidence(text, indicator.evidence) : [];
+    return spans.length > 0 ? { ...indicator, spans } : indicator;
+  });
+}
@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { CampaignMatchReason, Ioc, ParsedEmail, ScanFingerprint } from '../types';
+import { registrableDomain } from './domains';
+
+// Fewer words than this make any two short messages look alike.
+const MIN_TOKENS = 8;
+const MAX_TOKENS = 3000;
+const SHINGLE_SIZE = 3;
+
+// Hamming distances between simhashes: near-identical text on its own, or
+// the same template with edits when something else is shared as well.
+const SAME_CONTENT_DISTANCE = 3;
+const SIMILAR_CONTENT_DISTANCE = 10;
+
+/**
+ * Lower-cases and drops what changes between copies of one lure: URLs,
+ * addresses and numbers (amounts, dates, ticket ids), plus all punctuation.
+ */
+function tokens(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/\b(?:https?|ftp):\/\/\S+/g, ' ')
+    .replace(/\S+@\S+/g, ' ')
+    .replace(/\d+/g, '0')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .slice(0, MAX_TOKENS);
+}
+
+function fnv1a(value: string, seed: number): number {
+  let hash = seed;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** Charikar's simhash: similar feature sets give hashes a small Hamming distance apart. */
+function simhash(features: string[]): string {
+  const counts = new Array<number>(64).fill(0);
+  for (const feature of features) {
+    // Two differently seeded 32-bit hashes make up the 64 bits.
+    const halves = [fnv1a(feature, 0x811c9dc5), fnv1a(feature, 0x01234567)];
+    for (let bit = 0; bit < 64; bit++) {
+      counts[bit] += (halves[bit >> 5] >>> (bit & 31)) & 1 ? 1 : -1;
+    }
+  }
+  let hex = '';
+  for (let half = 0; half < 2; half++) {
+    let value = 0;
+    for (let bit = 0; bit < 32; bit++) if (counts[half * 32 + bit] > 0) value |= 1 << bit;
+    hex += (value >>> 0).toString(16).padStart(8, '0');
+  }
+  return hex;
+}
+
+function popcount(value: number): number {
+  let count = 0;
+  for (let v = value >>> 0; v; v &= v - 1) count++;
+  return count;
+}
+
+export function hammingDistance(a: string, b: string): number {
+  return popcount(parseInt(a.slice(0, 8), 16) ^ parseInt(b.slice(0, 8), 16)) +
+    popcount(parseInt(a.slice(8), 16) ^ parseInt(b.slice(8), 16));
+}
+
+function normaliseUrl(value: string): string | null {
+  try {
+    const url = new URL(value);
+    // A bare host ("https://www.linkedin.com/") is shared by too many unrelated messages.
+    if (url.pathname.length <= 1) return null;
+    return `${url.hostname.toLowerCase()}${url.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reduces a scan to what copies of the same lure keep in common: a simhash
+ * of word shingles from the subject and body plus the message structure, the
+ * link paths, the sending infrastructure and the attachment hashes.
+ */
+export function fingerprintEmail(email: ParsedEmail, iocs: Ioc[]): ScanFingerprint {
+  const body = tokens(email.text);
+  const shingles = body.slice(0, Math.max(0, body.length - SHINGLE_SIZE + 1)).map((_, i) => body.slice(i, i + SHINGLE_SIZE).join(' '));
+  const features = [
+    ...tokens(email.subject).map(t => `subject:${t}`),
+    ...shingles,
+    ...(email.html ? ['structure:html'] : []),
+    ...email.attachments.map(a => `structure:attachment:${a.contentType.toLowerCase()}`),
+  ];
+
+  const unique = (values: (string | null)[]) => [...new Set(values.filter((v): v is string => Boolean(v)))].sort();
+  return {
+    simhash: body.length >= MIN_TOKENS ? simhash(features) : '',
+    urls: unique(iocs.filter(i => i.type === 'url').map(i => normaliseUrl(i.value))),
+    infrastructure: unique(iocs.map(i => {
+      if (i.type === 'domain' && i.locations.some(l => l.endsWith(' header'))) return registrableDomain(i.value);
+      if ((i.type === 'ipv4' || i.type === 'ipv6') && i.locations.some(l => l.startsWith('Received hop'))) return i.value;
+      return null;
+    })),
+    attachments: unique(iocs.filter(i => i.type === 'sha256').map(i => i.value.toLowerCase())),
+  };
+}
+
+function shares(a: string[], b: string[]): boolean {
+  const set = new Set(a);
+  return b.some(value => set.has(value));
+}
+
+/**
+ * Why two scans belong to one campaign, or an empty list when they do not.
+ * An identical attachment or near-identical text is enough on its own;
+ * otherwise two independent signals have to agree.
+ */
+export function compareFingerprints(a: ScanFingerprint, b: ScanFingerprint): CampaignMatchReason[] {
+  const distance = a.simhash && b.simhash ? hammingDistance(a.simhash, b.simhash) : Infinity;
+  const reasons: CampaignMatchReason[] = [];
+  if (distance <= SIMILAR_CONTENT_DISTANCE) reasons.push('content');
+  if (shares(a.urls, b.urls)) reasons.push('urls');
+  if (shares(a.infrastructure, b.infrastructure)) reasons.push('infrastructure');
+  if (shares(a.attachments, b.attachments)) reasons.push('attachments');
+
+  const strong = reasons.includes('attachments') || distance <= SAME_CONTENT_DISTANCE;
+  return strong || reasons.length >= 2 ? reasons : [];
+}
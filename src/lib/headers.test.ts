@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { HeaderCheck, HeaderIndicator } from '../types';
+import { authservIdOf, checkHeaders, headerScoreIndicators, parseAuthenticationResults } from './headers';
+import { parseEmail } from './mime';
+
+const TRUSTED = ['mx.corp.example'];
+
+function message(...headers: string[]) {
+  return parseEmail([...headers, 'From: PayPal Service <service@paypal.com>', 'Subject: Account notice', '', 'Hello'].join('\n'));
+}
+
+function byCheck(indicators: HeaderIndicator[], check: HeaderCheck) {
+  return indicators.filter(i => i.check === check);
+}
+
+describe('parseAuthenticationResults', () => {
+  it('reads each method with its properties and comment', () => {
+    const [spf, dmarc] = parseAuthenticationResults(
+      'mx.corp.example; spf=pass smtp.mailfrom=paypal.com; dmarc=fail (p=REJECT) header.from=paypal.com',
+    );
+    expect(spf).toMatchObject({ method: 'spf', result: 'pass', props: { 'smtp.mailfrom': 'paypal.com' } });
+    expect(dmarc).toMatchObject({ method: 'dmarc', result: 'fail', props: { 'header.from': 'paypal.com' } });
+    expect(dmarc.comment).toContain('p=REJECT');
+  });
+});
+
+describe('authservIdOf', () => {
+  it('reads the authserv-id without its version or comments', () => {
+    expect(authservIdOf('MX.Corp.Example 1 (relay); spf=pass')).toBe('mx.corp.example');
+    expect(authservIdOf('mx.corp.example;dkim=none')).toBe('mx.corp.example');
+  });
+});
+
+describe('checkHeaders authentication', () => {
+  it('uses the topmost header from a trusted server', () => {
+    const indicators = checkHeaders(message(
+      'Authentication-Results: mx.corp.example; spf=pass smtp.mailfrom=paypal.com; dkim=pass header.d=paypal.com; dmarc=pass header.from=paypal.com',
+      'Authentication-Results: mx.corp.example; spf=fail smtp.mailfrom=paypal.com; dmarc=fail header.from=paypal.com',
+    ), [], TRUSTED);
+    expect(byCheck(indicators, 'dmarc')[0]).toMatchObject({ status: 'pass', title: 'DMARC pass' });
+    expect(byCheck(indicators, 'spf')[0]).toMatchObject({ status: 'pass' });
+    expect(byCheck(indicators, 'dkim')[0]).toMatchObject({ status: 'pass' });
+    expect(byCheck(indicators, 'dmarc')[0].evidence).toContain('dmarc=pass');
+    expect(byCheck(indicators, 'untrusted-authentication')).toEqual([]);
+  });
+
+  it('ignores a forged header added before the trusted one and flags its claim', () => {
+    const indicators = checkHeaders(message(
+      'Authentication-Results: mx.corp.example; spf=fail smtp.mailfrom=evil.example; dmarc=fail header.from=paypal.com',
+      'Authentication-Results: mx.corp.example.evil.example; spf=pass smtp.mailfrom=paypal.com; dmarc=pass header.from=paypal.com',
+    ), [], TRUSTED);
+    expect(byCheck(indicators, 'dmarc')[0]).toMatchObject({ status: 'fail' });
+    expect(byCheck(indicators, 'spf')[0]).toMatchObject({ status: 'fail' });
+    const claim = byCheck(indicators, 'untrusted-authentication');
+    expect(claim).toHaveLength(1);
+    expect(claim[0]).toMatchObject({ status: 'fail' });
+    expect(claim[0].detail).toContain('mx.corp.example.evil.example');
+    expect(headerScoreIndicators(claim)[0]).toMatchObject({ severity: 'medium', category: 'authentication' });
+  });
+
+  it('believes no verdict when no trusted server is configured', () => {
+    const indicators = checkHeaders(message(
+      'Authentication-Results: mx.corp.example; spf=pass smtp.mailfrom=paypal.com; dmarc=pass header.from=paypal.com',
+    ));
+    expect(byCheck(indicators, 'dmarc')[0]).toMatchObject({ status: 'neutral', title: 'DMARC not reported' });
+    expect(byCheck(indicators, 'spf')[0]).toMatchObject({ status: 'neutral' });
+    expect(byCheck(indicators, 'untrusted-authentication')[0]).toMatchObject({ status: 'neutral' });
+    expect(headerScoreIndicators(indicators).filter(i => i.category === 'authentication')).toEqual([]);
+  });
+
+  it('believes failures from any server, without flagging them as claims', () => {
+    const header = 'Authentication-Results: mx.google.com; spf=fail smtp.mailfrom=paypal.com; dmarc=fail (p=REJECT) header.from=paypal.com';
+    for (const trusted of [[], TRUSTED]) {
+      const indicators = checkHeaders(message(header), [], trusted);
+      expect(byCheck(indicators, 'dmarc')[0]).toMatchObject({ status: 'fail', title: 'DMARC fail' });
+      expect(byCheck(indicators, 'dmarc')[0].detail).toContain('reported by mx.google.com');
+      expect(byCheck(indicators, 'spf')[0]).toMatchObject({ status: 'fail' });
+      expect(byCheck(indicators, 'untrusted-authentication')).toEqual([]);
+    }
+  });
+
+  it('prefers the trusted verdict over an untrusted failure', () => {
+    const indicators = checkHeaders(message(
+      'Authentication-Results: other.example; dmarc=fail header.from=paypal.com',
+      'Authentication-Results: mx.corp.example; dmarc=pass header.from=paypal.com',
+    ), [], TRUSTED);
+    expect(byCheck(indicators, 'dmarc')[0]).toMatchObject({ status: 'pass' });
+  });
+
+  it('aligns DKIM only on a signature the trusted server verified', () => {
+    const forged = checkHeaders(message('DKIM-Signature: v=1; a=rsa-sha256; d=paypal.com; s=x; b=abc'), [], TRUSTED);
+    expect(byCheck(forged, 'dkim')[0]).toMatchObject({ status: 'neutral', title: 'DKIM signed, not verified' });
+    expect(byCheck(forged, 'dkim-alignment')).toEqual([]);
+
+    const verified = checkHeaders(message(
+      'Authentication-Results: mx.corp.example; dkim=pass header.d=evil.example; dkim=pass header.d=paypal.com',
+      'DKIM-Signature: v=1; a=rsa-sha256; d=evil.example; s=x; b=abc',
+    ), [], TRUSTED);
+    expect(byCheck(verified, 'dkim-alignment')[0]).toMatchObject({ status: 'pass', title: 'DKIM domain aligned' });
+
+    const unaligned = checkHeaders(message('Authentication-Results: mx.corp.example; dkim=pass header.d=evil.example'), [], TRUSTED);
+    expect(byCheck(unaligned, 'dkim-alignment')[0]).toMatchObject({ status: 'fail' });
+  });
+
+  it('accepts a Received-SPF pass only from a trusted receiver', () => {
+    const trusted = checkHeaders(message('Received-SPF: fail (mailfrom) receiver=mx.corp.example; envelope-from=x@evil.example'), [], TRUSTED);
+    expect(byCheck(trusted, 'spf')[0]).toMatchObject({ status: 'fail', title: 'SPF fail' });
+    const forged = checkHeaders(message('Received-SPF: pass receiver=attacker.example'), [], TRUSTED);
+    expect(byCheck(forged, 'spf')[0]).toMatchObject({ status: 'neutral', title: 'SPF not reported' });
+    const failed = checkHeaders(message('Received-SPF: softfail receiver=relay.example'), [], TRUSTED);
+    expect(byCheck(failed, 'spf')[0]).toMatchObject({ status: 'fail' });
+  });
+});
+
+describe('checkHeaders sender checks', () => {
+  it('flags a display name that claims a brand the address does not belong to', () => {
+    const email = parseEmail('From: PayPal Support <alerts@secure-mail.example>\nSubject: hi\n\nbody');
+    const [displayName] = byCheck(checkHeaders(email), 'display-name');
+    expect(displayName).toMatchObject({ status: 'fail', title: 'Display name impersonates PayPal' });
+    expect(displayName.impersonates).toEqual([{ brand: 'PayPal' }]);
+  });
+
+  it('flags a Reply-To on another domain', () => {
+    const email = parseEmail('From: ceo@acme.example\nReply-To: ceo@acme-mail.example\nSubject: hi\n\nbody');
+    expect(byCheck(checkHeaders(email), 'reply-to')[0]).toMatchObject({ status: 'fail' });
+  });
+});
@@ -0,0 +1,422 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  CheckStatus,
+  HeaderCheck,
+  HeaderIndicator,
+  Indicator,
+  IndicatorCategory,
+  ParsedEmail,
+  RiskLevel,
+  Severity,
+} from '../types';
+import { getHeader, getHeaders, parseAddressList, splitOutside } from './mime';
+import { domainOf, domainsAligned, registrableDomain } from './domains';
+import { DEFAULT_BRANDS, findBrandMentions, type Brand } from './brands';
+import { SEVERITY_WEIGHTS } from './scoring';
+
+interface AuthResult {
+  method: string;
+  result: string;
+  props: Record<string, string>;
+  // Free-text comment, e.g. "(p=REJECT sp=NONE dis=NONE)".
+  comment: string;
+}
+
+export interface ReceivedHop {
+  from?: string;
+  by?: string;
+  ip?: string;
+  date?: Date;
+}
+
+// Received hops may legitimately disagree by a few minutes of clock skew.
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+function statusFor(result: string): CheckStatus {
+  switch (result.toLowerCase()) {
+    case 'pass':
+      return 'pass';
+    case 'fail':
+    case 'softfail':
+    case 'permerror':
+      return 'fail';
+    default:
+      return 'neutral';
+  }
+}
+
+/** The authserv-id naming the server that wrote an Authentication-Results header, lower-cased. */
+export function authservIdOf(value: string): string {
+  // "mx.example.com 1 (comment); spf=pass ..." names mx.example.com, version 1.
+  return splitOutside(value, ';')[0].replace(/\([^)]*\)/g, ' ').trim().split(/\s+/)[0].toLowerCase();
+}
+
+/** Parses the method results out of one Authentication-Results header (RFC 8601). */
+export function parseAuthenticationResults(value: string): AuthResult[] {
+  // The first segment is the authserv-id of the host that did the checks.
+  return splitOutside(value, ';').slice(1).flatMap(segment => {
+    const match = segment.match(/^\s*([a-z0-9_-]+)(?:\/[\d.]+)?\s*=\s*([a-z]+)/i);
+    if (!match) return [];
+    const props: Record<string, string> = {};
+    const withoutComments = segment.replace(/\([^)]*\)/g, ' ');
+    for (const prop of withoutComments.matchAll(/([a-z]+\.[a-z0-9_.-]+)\s*=\s*("[^"]*"|[^\s;]+)/gi)) {
+      props[prop[1].toLowerCase()] = prop[2].replace(/^"|"$/g, '');
+    }
+    const comment = (segment.match(/\(([^)]*)\)/g) ?? []).join(' ');
+    return [{ method: match[1].toLowerCase(), result: match[2].toLowerCase(), props, comment }];
+  });
+}
+
+export function parseReceived(value: string): ReceivedHop {
+  const semicolon = value.lastIndexOf(';');
+  const route = semicolon === -1 ? value : value.slice(0, semicolon);
+  const timestamp = semicolon === -1 ? NaN : Date.parse(value.slice(semicolon + 1).trim().replace(/\s*\([^)]*\)\s*$/, ''));
+  return {
+    from: route.match(/\bfrom\s+([^\s()]+)/i)?.[1],
+    by: route.match(/\bby\s+([^\s()]+)/i)?.[1],
+    ip: route.match(/\[(?:IPv6:)?([0-9a-f.:]+)\]/i)?.[1],
+    date: Number.isNaN(timestamp) ? undefined : new Date(timestamp),
+  };
+}
+
+/**
+ * Anyone can write an Authentication-Results header before sending, so a pass
+ * is believed only from the topmost header of a trusted authserv-id (the
+ * organization's own receiving servers). Headers from other servers that
+ * claim a pass are reported instead, and count against the message once
+ * trusted servers are configured, since those servers would have removed
+ * them. A failure is believed from any server: forging one gains nothing.
+ */
+function checkAuthentication(email: ParsedEmail, fromDomain: string, trustedAuthservIds: string[]): HeaderIndicator[] {
+  const indicators: HeaderIndicator[] = [];
+  const trusted = new Set(trustedAuthservIds.map(id => id.toLowerCase()));
+  // Headers are prepended, so the topmost was added by the server closest to the recipient.
+  const fields = email.headers.filter(h => h.name.toLowerCase() === 'authentication-results');
+  const field = fields.find(f => trusted.has(authservIdOf(f.value)));
+  const results = field ? parseAuthenticationResults(field.value) : [];
+  const failures = fields
+    .filter(f => f !== field)
+    .flatMap(f => parseAuthenticationResults(f.value).filter(r => statusFor(r.result) === 'fail').map(result => ({ result, field: f })));
+  // The trusted verdict for a method, else the topmost failure reported for it by any server.
+  const first = (method: string) => {
+    const result = results.find(r => r.method === method);
+    const found = result && field ? { result, field } : failures.find(f => f.result.method === method);
+    if (!found) return undefined;
+    const reporter = found.field === field ? '' : ` (reported by ${authservIdOf(found.field.value) || 'an unnamed server'})`;
+    return { ...found.result, reporter, evidence: `${found.field.name}: ${found.field.value}` };
+  };
+
+  const claims = fields
+    .filter(f => f !== field)
+    .map(f => ({ field: f, passed: parseAuthenticationResults(f.value).filter(r => r.result === 'pass').map(r => r.method) }))
+    .filter(claim => claim.passed.length > 0);
+  for (const { field: claim, passed } of claims) {
+    const id = authservIdOf(claim.value) || 'an unnamed server';
+    indicators.push({
+      check: 'untrusted-authentication',
+      status: trusted.size > 0 ? 'fail' : 'neutral',
+      title: 'Unverified authentication claim',
+      detail: trusted.size > 0
+        ? `An Authentication-Results header from ${id} claims ${passed.join(', ')} pass, but ${id} is not one of the trusted receiving servers, so the claim may be forged.`
+        : `An Authentication-Results header from ${id} claims ${passed.join(', ')} pass. No trusted receiving servers are configured (TRUSTED_AUTHSERV_IDS), so it is not relied on.`,
+      evidence: `${claim.name}: ${claim.value}`,
+    });
+  }
+
+  const dmarc = first('dmarc');
+  if (dmarc) {
+    const policy = dmarc.comment.match(/\bp=([a-z]+)/i)?.[1]?.toLowerCase()
+      ?? dmarc.props['policy.published-domain-policy'];
+    const domain = dmarc.props['header.from'] ?? fromDomain;
+    indicators.push({
+      check: 'dmarc',
+      status: statusFor(dmarc.result),
+      title: `DMARC ${dmarc.result}`,
+      detail: `DMARC evaluated ${dmarc.result} for ${domain || 'the From domain'}${policy ? ` (published policy p=${policy})` : ''}${dmarc.reporter}.`,
+      evidence: dmarc.evidence,
+    });
+  } else {
+    indicators.push({
+      check: 'dmarc',
+      status: 'neutral',
+      title: 'DMARC not reported',
+      detail: 'No Authentication-Results header from a trusted receiving server carried a DMARC verdict.',
+    });
+  }
+
+  const spf = first('spf');
+  // Received-SPF is just as easy to forge, so a pass counts only when a trusted server wrote it.
+  const receivedSpfResult = (value: string) => value.match(/^\s*([a-z]+)/i)?.[1]?.toLowerCase() ?? 'none';
+  const receivedSpf = getHeaders(email.headers, 'received-spf')
+    .find(value => trusted.has(value.match(/\breceiver=([^\s;]+)/i)?.[1]?.toLowerCase() ?? '')
+      || statusFor(receivedSpfResult(value)) === 'fail');
+  if (spf) {
+    const mailFrom = spf.props['smtp.mailfrom'] ?? spf.props['smtp.helo'] ?? '';
+    indicators.push({
+      check: 'spf',
+      status: statusFor(spf.result),
+      title: `SPF ${spf.result}`,
+      detail: `Sending server was evaluated ${spf.result} for ${mailFrom || 'the envelope sender'}${spf.reporter}.`,
+      evidence: spf.evidence,
+    });
+  } else if (receivedSpf) {
+    const result = receivedSpfResult(receivedSpf);
+    indicators.push({
+      check: 'spf',
+      status: statusFor(result),
+      title: `SPF ${result}`,
+      detail: `Received-SPF: ${receivedSpf}`,
+      evidence: `Received-SPF: ${receivedSpf}`,
+    });
+  } else {
+    indicators.push({
+      check: 'spf',
+      status: 'neutral',
+      title: 'SPF not reported',
+      detail: 'Neither Authentication-Results nor Received-SPF from a trusted receiving server carried an SPF verdict.',
+    });
+  }
+
+  const dkim = first('dkim');
+  const signatures = getHeaders(email.headers, 'dkim-signature').map(value => {
+    const tags: Record<string, string> = {};
+    for (const tag of value.split(';')) {
+      const eq = tag.indexOf('=');
+      if (eq > 0) tags[tag.slice(0, eq).trim().toLowerCase()] = tag.slice(eq + 1).replace(/\s+/g, '');
+    }
+    return tags;
+  });
+  const signingDomain = dkim?.props['header.d'] ?? dkim?.props['header.i']?.replace(/^.*@/, '') ?? '';
+
+  if (dkim) {
+    indicators.push({
+      check: 'dkim',
+      status: statusFor(dkim.result),
+      title: `DKIM ${dkim.result}`,
+      detail: `Signature${signingDomain ? ` from d=${signingDomain}` : ''} was evaluated ${dkim.result} by the receiving server${dkim.reporter}.`,
+      evidence: dkim.evidence,
+    });
+  } else if (signatures.length > 0) {
+    indicators.push({
+      check: 'dkim',
+      status: 'neutral',
+      title: 'DKIM signed, not verified',
+      detail: `Found ${signatures.length} DKIM-Signature header(s) (d=${signatures.map(s => s.d ?? '?').join(', ')}) but no verification result. Signatures are not verified locally.`,
+    });
+  } else {
+    indicators.push({
+      check: 'dkim',
+      status: 'neutral',
+      title: 'No DKIM signature',
+      detail: 'The message carries no DKIM-Signature header.',
+    });
+  }
+
+  // The d= of a DKIM-Signature header is unverified; only a trusted server's dkim=pass vouches for it.
+  const verified = results.filter(r => r.method === 'dkim' && r.result === 'pass' && r.props['header.d']).map(r => r.props['header.d']);
+  if (field && verified.length > 0 && fromDomain) {
+    const aligned = verified.find(domain => domainsAligned(domain, fromDomain));
+    indicators.push({
+      check: 'dkim-alignment',
+      status: aligned ? 'pass' : 'fail',
+      title: aligned ? 'DKIM domain aligned' : 'DKIM domain not aligned',
+      detail: aligned
+        ? `Verified signing domain ${aligned} matches the From domain ${fromDomain}.`
+        : `Verified signing domain ${verified.join(', ')} does not match the From domain ${fromDomain}.`,
+    });
+  }
+
+  return indicators;
+}
+
+function checkReceivedChain(email: ParsedEmail): HeaderIndicator | null {
+  // Received headers are prepended, so reverse them to walk from origin to recipient.
+  const hops = getHeaders(email.headers, 'received').map(parseReceived).reverse();
+  if (hops.length === 0) return null;
+
+  const origin = hops[0];
+  const originLabel = [origin.from, origin.ip && `[${origin.ip}]`].filter(Boolean).join(' ') || 'unknown host';
+  const problems: string[] = [];
+  let outOfOrder = false;
+
+  for (let i = 1; i < hops.length; i++) {
+    const prev = hops[i - 1].date;
+    const next = hops[i].date;
+    if (prev && next && next.getTime() + CLOCK_SKEW_MS < prev.getTime()) {
+      problems.push(`hop ${i + 1} (${hops[i].by ?? 'unknown'}) is timestamped before hop ${i}`);
+      outOfOrder = true;
+    }
+  }
+  if (hops.some(hop => !hop.date)) {
+    problems.push('one or more hops have no parseable timestamp');
+  }
+
+  return {
+    check: 'received-chain',
+    status: outOfOrder ? 'fail' : 'neutral',
+    title: `${hops.length} Received hop${hops.length === 1 ? '' : 's'}`,
+    detail: `Origin: ${originLabel}.${problems.length > 0 ? ` Inconsistencies: ${problems.join('; ')}.` : ' Hop timestamps are in order.'}`,
+  };
+}
+
+function compareAddressHeader(
+  check: HeaderCheck,
+  label: string,
+  value: string | undefined,
+  fromDomain: string,
+  mismatchStatus: CheckStatus
+): HeaderIndicator | null {
+  const address = parseAddressList(value)[0]?.address;
+  if (!address || !fromDomain) return null;
+  const domain = domainOf(address);
+  const aligned = domainsAligned(domain, fromDomain);
+  return {
+    check,
+    status: aligned ? 'pass' : mismatchStatus,
+    title: aligned ? `${label} matches From` : `${label} differs from From`,
+    detail: aligned
+      ? `${label} <${address}> shares the From domain ${registrableDomain(fromDomain)}.`
+      : `${label} <${address}> uses ${domain || 'no domain'}, but From uses ${fromDomain}.`,
+  };
+}
+
+function checkDisplayName(email: ParsedEmail, brands: Brand[]): HeaderIndicator | null {
+  const from = email.from[0];
+  if (!from?.name) return null;
+  const fromDomain = domainOf(from.address);
+
+  // A display name that is itself an address ("support@bank.com" <x@evil.tld>).
+  const embedded = from.name.match(/[a-z0-9._%+-]+@([a-z0-9.-]+\.[a-z]{2,})/i);
+  if (embedded && !domainsAligned(embedded[1], fromDomain)) {
+    return {
+      check: 'display-name',
+      status: 'fail',
+      title: 'Display name shows another address',
+      detail: `Display name "${from.name}" shows ${embedded[0]} but the message was sent from ${from.address}.`,
+      impersonates: [{ domain: embedded[1].toLowerCase() }],
+    };
+  }
+
+  const spoofed = findBrandMentions(from.name, brands)
+    .filter(brand => !brand.domains.some(domain => domainsAligned(domain, fromDomain)));
+  if (spoofed.length > 0) {
+    return {
+      check: 'display-name',
+      status: 'fail',
+      title: `Display name impersonates ${spoofed[0].name}`,
+      detail: `Display name "${from.name}" claims to be ${spoofed.map(b => b.name).join(', ')}, but the address ${from.address} is not on a known ${spoofed[0].name} domain.`,
+      impersonates: spoofed.map(brand => ({ brand: brand.name })),
+    };
+  }
+
+  return {
+    check: 'display-name',
+    status: 'pass',
+    title: 'Display name consistent',
+    detail: `No brand or address impersonation found in "${from.name}".`,
+  };
+}
+
+// Header field each check reads, highlighted as its evidence unless the check chose a field itself.
+const CHECKED_HEADERS: Record<HeaderCheck, string> = {
+  dmarc: 'authentication-results',
+  spf: 'authentication-results',
+  dkim: 'authentication-results',
+  'untrusted-authentication': 'authentication-results',
+  'dkim-alignment': 'authentication-results',
+  'received-chain': 'received',
+  'reply-to': 'reply-to',
+  'return-path': 'return-path',
+  sender: 'sender',
+  'display-name': 'from',
+};
+
+/**
+ * Runs deterministic checks over the parsed headers: authentication verdicts
+ * recorded by the trusted receiving servers (listed by authserv-id), the
+ * Received hop chain, From/Reply-To/Return-Path/Sender alignment and
+ * display-name spoofing.
+ */
+export function checkHeaders(
+  email: ParsedEmail,
+  brands: Brand[] = DEFAULT_BRANDS,
+  trustedAuthservIds: string[] = []
+): HeaderIndicator[] {
+  if (!email.hasHeaders) return [];
+  const fromDomain = domainOf(email.from[0]?.address ?? '');
+
+  return [
+    ...checkAuthentication(email, fromDomain, trustedAuthservIds),
+    checkReceivedChain(email),
+    compareAddressHeader('reply-to', 'Reply-To', getHeader(email.headers, 'reply-to'), fromDomain, 'fail'),
+    // Bulk senders routinely bounce through their own domain, so this is informative only.
+    compareAddressHeader('return-path', 'Return-Path', getHeader(email.headers, 'return-path'), fromDomain, 'neutral'),
+    compareAddressHeader('sender', 'Sender', getHeader(email.headers, 'sender'), fromDomain, 'neutral'),
+    checkDisplayName(email, brands),
+  ]
+    .filter((indicator): indicator is HeaderIndicator => indicator !== null)
+    .map(indicator => {
+      if (indicator.evidence) return indicator;
+      const field = email.headers.find(h => h.name.toLowerCase() === CHECKED_HEADERS[indicator.check]);
+      return field ? { ...indicator, evidence: `${field.name}: ${field.value}` } : indicator;
+    });
+}
+
+interface HeaderRule {
+  category: IndicatorCategory;
+  // Severity of a failed check; passing checks use passWeight (usually negative).
+  failSeverity?: Severity;
+  passWeight?: number;
+  minimumRisk?: RiskLevel;
+}
+
+const HEADER_RULES: Record<HeaderCheck, HeaderRule> = {
+  dmarc: { category: 'authentication', failSeverity: 'critical', passWeight: -10, minimumRisk: 'High' },
+  spf: { category: 'authentication', failSeverity: 'high', passWeight: -5 },
+  dkim: { category: 'authentication', failSeverity: 'high', passWeight: -5 },
+  'untrusted-authentication': { category: 'authentication', failSeverity: 'medium' },
+  'dkim-alignment': { category: 'authentication', failSeverity: 'medium', passWeight: -5 },
+  'received-chain': { category: 'infrastructure', failSeverity: 'medium' },
+  'reply-to': { category: 'sender', failSeverity: 'high' },
+  'return-path': { category: 'sender' },
+  sender: { category: 'sender' },
+  'display-name': { category: 'impersonation', failSeverity: 'high', minimumRisk: 'Medium' },
+};
+
+/**
+ * Maps header check results to weighted scoring indicators. Neutral results
+ * and checks without a weight for their outcome contribute nothing.
+ */
+export function headerScoreIndicators(indicators: HeaderIndicator[]): Indicator[] {
+  return indicators.flatMap((indicator): Indicator[] => {
+    const rule = HEADER_RULES[indicator.check];
+    if (indicator.status === 'fail' && rule.failSeverity) {
+      return [{
+        source: 'header',
+        category: rule.category,
+        severity: rule.failSeverity,
+        weight: SEVERITY_WEIGHTS[rule.failSeverity],
+        title: indicator.title,
+        detail: indicator.detail,
+        minimumRisk: rule.minimumRisk,
+        evidence: indicator.evidence ? [indicator.evidence] : undefined,
+      }];
+    }
+    if (indicator.status === 'pass' && rule.passWeight) {
+      return [{
+        source: 'header',
+        category: rule.category,
+        severity: 'info',
+        weight: rule.passWeight,
+        title: indicator.title,
+        detail: indicator.detail,
+        evidence: indicator.evidence ? [indicator.evidence] : undefined,
+      }];
+    }
+    return [];
+  });
+}
@@ -0,0 +1,28 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { Indicator } from '../types';
+import { heuristicAnalysis } from './heuristics';
+import { parseEmail } from './mime';
+
+const lure = parseEmail('From: x@example.com\nSubject: Urgent\n\nPlease verify your account password immediately.');
+const strongLocal: Indicator = { source: 'header', category: 'authentication', severity: 'critical', weight: 45, title: 'DMARC fail' };
+
+describe('heuristicAnalysis', () => {
+  it('judges on the content rules against the configured thresholds', () => {
+    // verify account (25) + password (12) + urgent (12) = 49 points.
+    expect(heuristicAnalysis(lure, []).isPhishing).toBe(true);
+    expect(heuristicAnalysis(lure, [], { medium: 50, high: 80 }).isPhishing).toBe(false);
+  });
+
+  it('leaves the local findings out of its verdict', () => {
+    const plain = parseEmail('From: x@example.com\nSubject: Lunch\n\nSee you at noon.');
+    const analysis = heuristicAnalysis(plain, [strongLocal]);
+    expect(analysis.isPhishing).toBe(false);
+    expect(analysis.indicators).toEqual([]);
+    expect(analysis.technicalDetails).toContain('DMARC fail');
+  });
+});
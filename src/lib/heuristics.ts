@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Indicator, IndicatorCategory, ModelAnalysis, ParsedEmail, ScoreThresholds, Severity } from '../types';
+import { DEFAULT_THRESHOLDS, SEVERITY_WEIGHTS, topIndicators } from './scoring';
+
+// Rule-based stand-in for the model when no network or model server is
+// available. It only reads the message content: header, link and attachment
+// findings come from the local checks, which scoreAnalysis weighs in
+// separately, so they are listed in the report but not in the verdict.
+
+interface ContentRule {
+  pattern: RegExp;
+  category: IndicatorCategory;
+  severity: Severity;
+  title: string;
+}
+
+const CONTENT_RULES: ContentRule[] = [
+  {
+    pattern: /\b(verify|confirm|validate|update|unlock|restore|reactivate)\b.{0,40}\b(account|password|credentials|identity|login|sign-?in)\b/i,
+    category: 'content',
+    severity: 'high',
+    title: 'Asks the recipient to verify account or login details',
+  },
+  {
+    pattern: /\b(password|passcode|PIN|one-time code|verification code|security code)\b/i,
+    category: 'content',
+    severity: 'medium',
+    title: 'Mentions passwords or one-time codes',
+  },
+  {
+    pattern: /\b(urgent(ly)?|immediately|right away|as soon as possible|within \d+ (hours?|days?)|final (notice|warning|reminder)|expires? (today|soon))\b/i,
+    category: 'content',
+    severity: 'medium',
+    title: 'Uses urgent or time-pressure language',
+  },
+  {
+    pattern: /\b(suspended|locked|disabled|terminated|deactivated|legal action|penalt(y|ies)|unusual (sign-?in|activity))\b/i,
+    category: 'content',
+    severity: 'medium',
+    title: 'Threatens account suspension or other consequences',
+  },
+  {
+    pattern: /\b(wire transfer|gift cards?|bitcoin|crypto(currency)? wallet|(new|updated|changed) (bank|banking|payment) (details|account)|overdue (invoice|payment)|outstanding (invoice|balance))\b/i,
+    category: 'content',
+    severity: 'high',
+    title: 'Requests a payment or a change of bank details',
+  },
+  {
+    pattern: /\b(you('ve| have) won|lottery|prize|inheritance|claim your (reward|refund|prize))\b/i,
+    category: 'content',
+    severity: 'medium',
+    title: 'Promises a prize, refund or windfall',
+  },
+  {
+    pattern: /\b(keep this (confidential|between us)|do not (tell|share|discuss)|are you available\?)/i,
+    category: 'content',
+    severity: 'medium',
+    title: 'Asks for secrecy, a common business email compromise lure',
+  },
+  {
+    pattern: /\b(open|enable|view) (the )?(attached|attachment|content|macros|editing)\b/i,
+    category: 'attachment',
+    severity: 'medium',
+    title: 'Urges opening an attachment or enabling content',
+  },
+  {
+    pattern: /\bdear (customer|user|client|member|account holder|sir\/madam|valued customer)\b/i,
+    category: 'content',
+    severity: 'low',
+    title: 'Generic greeting instead of the recipient\'s name',
+  },
+];
+
+/**
+ * Builds a model-shaped analysis whose verdict rests on the content rules
+ * alone, judged against the configured thresholds. The local findings only
+ * feed the report.
+ */
+export function heuristicAnalysis(
+  email: ParsedEmail,
+  localIndicators: Indicator[],
+  thresholds: ScoreThresholds = DEFAULT_THRESHOLDS
+): ModelAnalysis {
+  const text = `${email.subject}\n${email.text}`;
+  const hits = CONTENT_RULES.flatMap(rule => {
+    const match = rule.pattern.exec(text);
+    return match ? [{ ...rule, evidence: match[0] }] : [];
+  });
+
+  const contentScore = hits.reduce((sum, rule) => sum + SEVERITY_WEIGHTS[rule.severity], 0);
+  const localScore = localIndicators.reduce((sum, i) => sum + i.weight, 0);
+  const isPhishing = contentScore >= thresholds.medium;
+  // Confidence grows with the distance from the decision point.
+  const confidence = Math.min(90, 50 + Math.abs(contentScore - thresholds.medium));
+
+  const strongest = topIndicators(localIndicators, 5);
+  const details = [
+    '### Offline heuristic analysis',
+    `Content rules matched: **${hits.length}** (${contentScore} points). Local checks, scored separately: ${localScore} points.`,
+    ...(hits.length > 0 ? ['', '**Content signals**', ...hits.map(rule => `- ${rule.title} (${rule.severity})`)] : []),
+    ...(strongest.length > 0 ? ['', '**Strongest local findings**', ...strongest.map(i => `- ${i.title} (${i.severity})`)] : []),
+    '',
+    'No language model was consulted; wording-based judgement is limited to the rules above.',
+  ];
+
+  return {
+    isPhishing,
+    confidence,
+    indicators: hits.map(({ title, category, severity, evidence }) => ({ title, category, severity, evidence: [evidence] })),
+    recommendation: isPhishing
+      ? 'Treat this message as suspicious: do not click links, open attachments or reply until the sender is verified through another channel.'
+      : 'No strong phishing signals were found by the offline rules. Stay cautious with unexpected requests.',
+    summary: isPhishing
+      ? `Offline rules found ${hits.length} suspicious content signal${hits.length === 1 ? '' : 's'} and ${strongest.length} notable local finding${strongest.length === 1 ? '' : 's'}.`
+      : 'Offline rules found little evidence of phishing in this message.',
+    technicalDetails: details.join('\n'),
+  };
+}
@@ -0,0 +1,24 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { htmlToText } from './html';
+
+describe('htmlToText', () => {
+  it('keeps visible text and line breaks', () => {
+    const html = '<html><head><title>T</title><style>p {}</style></head><body><!-- note --><p>Hello&nbsp;<b>world</b></p><div>Two</div><script>if (a<b) {}</script></body>';
+    expect(htmlToText(html)).toBe('Hello world\nTwo');
+  });
+
+  it('keeps the body when the head is never closed', () => {
+    expect(htmlToText('<head><meta charset="utf-8"><p>Pay now</p>')).toBe('Pay now');
+  });
+
+  it('reads unclosed markup in linear time', () => {
+    const started = Date.now();
+    for (const chunk of ['<script>x', '<!--x', '<a', '</p']) htmlToText(chunk.repeat(50_000));
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
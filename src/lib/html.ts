@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Regex-based HTML helpers. These run in the browser and on the server alike,
+// so they deliberately avoid DOMParser and never render untrusted markup.
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  zwnj: '',
+  zwj: '',
+  shy: '',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    const named = NAMED_ENTITIES[entity.toLowerCase()];
+    return named ?? match;
+  });
+}
+
+// Elements whose content is never shown as text.
+const HIDDEN_CONTENT = new Set(['head', 'script', 'style', 'title']);
+// Closing tags that end a line of text.
+const BLOCK_ENDS = new Set(['p', 'div', 'tr', 'li', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'table', 'blockquote']);
+
+export interface HtmlTag {
+  // Lower-case tag name, or "!--" for a comment.
+  name: string;
+  closing: boolean;
+  // Raw text between the name and the closing '>'; a comment's content.
+  attributes: string;
+  // Offsets of the '<' and just past the '>'.
+  start: number;
+  end: number;
+}
+
+/**
+ * Yields the tags and comments of an HTML document in order. Each '<' is
+ * matched to the next '>' with indexOf and scanning resumes after it, so the
+ * pass is linear however malformed the markup. An unclosed comment runs to
+ * the end, as in a browser; after a '<' with no '>' nothing is markup.
+ */
+export function* scanTags(html: string): Generator<HtmlTag> {
+  let i = 0;
+  while (i < html.length) {
+    const start = html.indexOf('<', i);
+    if (start === -1) return;
+    if (html.startsWith('<!--', start)) {
+      const close = html.indexOf('-->', start + 4);
+      const end = close === -1 ? html.length : close + 3;
+      yield { name: '!--', closing: false, attributes: html.slice(start + 4, close === -1 ? end : close), start, end };
+      i = end;
+      continue;
+    }
+    const close = html.indexOf('>', start + 1);
+    if (close === -1) return;
+    i = close + 1;
+    const tag = /^<(\/?)([a-z][a-z0-9]*)/i.exec(html.slice(start, Math.min(close, start + 32)));
+    if (tag) {
+      const [head, slash, name] = tag;
+      yield { name: name.toLowerCase(), closing: slash === '/', attributes: html.slice(start + head.length, close), start, end: i };
+    } else {
+      yield { name: '', closing: false, attributes: '', start, end: i };
+    }
+  }
+}
+
+/**
+ * Start of the next `</name` closing tag at or after `from` in lower-cased
+ * markup, or -1. Found positions are kept in `seen`, so a run of unclosed
+ * elements of one name costs a single scan instead of one scan each.
+ */
+export function findClosingTag(lower: string, name: string, from: number, seen: Map<string, number>): number {
+  const known = seen.get(name);
+  if (known !== undefined && (known === -1 || known >= from)) return known;
+  const needle = `</${name}`;
+  let at = lower.indexOf(needle, from);
+  // </p must not match </pre.
+  while (at !== -1 && /[a-z0-9]/.test(lower[at + needle.length] ?? '')) at = lower.indexOf(needle, at + 1);
+  seen.set(name, at);
+  return at;
+}
+
+/** Plain text of an HTML body, read in one linear pass. */
+export function htmlToText(html: string): string {
+  const lower = html.toLowerCase();
+  const closing = new Map<string, number>();
+  const parts: string[] = [];
+  let pos = 0;
+  for (const tag of scanTags(html)) {
+    // Inside the content of a hidden element.
+    if (tag.start < pos) continue;
+    parts.push(html.slice(pos, tag.start));
+    pos = tag.end;
+    if (tag.name === 'br' && !tag.closing) parts.push('\n');
+    else if (tag.closing && BLOCK_ENDS.has(tag.name)) parts.push('\n');
+    else if (!tag.closing && HIDDEN_CONTENT.has(tag.name)) {
+      const end = findClosingTag(lower, tag.name, pos, closing);
+      if (end !== -1) {
+        const after = html.indexOf('>', end);
+        pos = after === -1 ? html.length : after + 1;
+      }
+    }
+  }
+  parts.push(html.slice(pos));
+  return decodeEntities(parts.join(''))
+    .replace(/[ \t ]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
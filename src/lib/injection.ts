@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Indicator, InjectionFinding, InjectionLocation, ParsedEmail } from '../types';
+import { findClosingTag, htmlToText, scanTags } from './html';
+import { SEVERITY_WEIGHTS } from './scoring';
+
+// Legitimate mail has no reason to address the software scanning it, so any
+// attempt to instruct an AI model is treated as evidence against the message.
+
+interface InjectionRule {
+  pattern: RegExp;
+  title: string;
+}
+
+const INJECTION_RULES: InjectionRule[] = [
+  {
+    pattern: /\b(ignore|disregard|forget|override|bypass)\s+(all\s+|any\s+|the\s+)?(previous|prior|above|earlier|preceding|your|system|safety)\s+(instructions?|prompts?|rules|directions|guidelines|context)\b/i,
+    title: 'Tries to override the analyser\'s instructions',
+  },
+  {
+    pattern: /\b(mark|classify|label|flag|rate|treat|report|score)\s+(this|the)\s+(e-?mail|message|sender)\s+as\s+(safe|legitimate|benign|clean|trusted|low[\s-]risk|not\s+(a\s+)?(phishing|spam|threat))\b/i,
+    title: 'Tries to dictate the scan verdict',
+  },
+  {
+    pattern: /["']?(isPhishing|riskLevel|risk_level|verdict)["']?\s*[:=]\s*["']?(false|low|safe|legitimate)\b/i,
+    title: 'Contains a pre-written scan result',
+  },
+  {
+    pattern: /\b(attention|note (to|for)|dear|hello|hey|instructions? (to|for))\s*,?\s+(the\s+)?(ai|a\.i\.|llm|language model|chatbot|gpt|gemini|copilot|scanner|e-?mail filter|security (scanner|filter|system))\b/i,
+    title: 'Addresses an AI model or automated scanner directly',
+  },
+  {
+    pattern: /\b(you are|you're|act as|pretend to be|from now on you are)\s+(now\s+)?(an?\s+)?(helpful\s+|friendly\s+)?(ai|assistant|language model|llm|chatbot)\b/i,
+    title: 'Tries to reassign the model\'s role',
+  },
+  {
+    pattern: /<\|?(system|im_start|im_end|assistant|endoftext)\|?>|\[\/?INST\]|<<\/?SYS>>|^\s*#{2,}\s*(system|instructions?)\b/im,
+    title: 'Contains chat-template or system-prompt markup',
+  },
+  {
+    pattern: /\b(reveal|print|output|repeat|show)\s+(me\s+)?(your|the)\s+(system\s+|hidden\s+|initial\s+)?(prompt|instructions)\b/i,
+    title: 'Tries to extract the analyser\'s instructions',
+  },
+];
+
+const EXCERPT_RADIUS = 60;
+// Only the start of an oversized part is searched, so a huge message cannot stall the scan.
+const MAX_SCANNED = 200_000;
+// Inline styles that hide text from the human reader but not from a model reading the source.
+const HIDDEN_STYLE = /display\s*:\s*none|visibility\s*:\s*hidden|font-size\s*:\s*0(?![.\d]*[1-9])|opacity\s*:\s*0(?![.\d]*[1-9])|max-height\s*:\s*0/i;
+
+function excerpt(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - EXCERPT_RADIUS);
+  const end = Math.min(text.length, index + length + EXCERPT_RADIUS);
+  const snippet = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+}
+
+/** Text of comments and of elements styled out of sight, found in one pass over the tags. */
+function hiddenText(html: string): string {
+  const lower = html.toLowerCase();
+  const closing = new Map<string, number>();
+  const parts: string[] = [];
+  // End of the hidden element being read; elements nested in it are already included.
+  let pos = 0;
+  for (const tag of scanTags(html)) {
+    if (tag.name === '!--') {
+      parts.push(tag.attributes);
+    } else if (tag.start >= pos && tag.name && !tag.closing) {
+      const style = /\bstyle\s*=\s*(?:"([^"]*)"|'([^']*)')/i.exec(tag.attributes);
+      if (!style || !HIDDEN_STYLE.test(style[1] ?? style[2])) continue;
+      const end = findClosingTag(lower, tag.name, tag.end, closing);
+      if (end === -1) continue;
+      parts.push(htmlToText(html.slice(tag.end, end)));
+      pos = end;
+    }
+  }
+  return parts.join('\n');
+}
+
+function scan(input: string, location: InjectionLocation): InjectionFinding[] {
+  const text = input.slice(0, MAX_SCANNED);
+  return INJECTION_RULES.flatMap(({ pattern, title }) => {
+    const match = pattern.exec(text);
+    return match ? [{ title, location, excerpt: excerpt(text, match.index, match[0].length) }] : [];
+  });
+}
+
+/**
+ * Finds text addressed to an AI model in the visible and hidden parts of a
+ * message. Each rule is reported once, at the most telling location: hidden
+ * HTML first, since a plain-text body derived from HTML repeats it.
+ */
+export function detectPromptInjection(email: ParsedEmail): InjectionFinding[] {
+  const findings: InjectionFinding[] = [];
+  const add = (text: string, location: InjectionLocation) => {
+    findings.push(...scan(text, location).filter(f => !findings.some(g => g.title === f.title)));
+  };
+
+  if (email.html) {
+    add(hiddenText(email.html.slice(0, MAX_SCANNED)), 'hidden');
+  }
+  add(email.subject, 'subject');
+  add(email.text, 'body');
+  if (email.html) add(htmlToText(email.html), 'html');
+  add(email.attachments.map(a => a.filename).join('\n'), 'attachment');
+  return findings;
+}
+
+/** One high-severity indicator for all attempts; the message cannot score below Medium. */
+export function injectionScoreIndicators(findings: InjectionFinding[]): Indicator[] {
+  if (findings.length === 0) return [];
+  const hidden = findings.some(f => f.location === 'hidden');
+  return [{
+    source: 'injection',
+    category: 'content',
+    severity: 'high',
+    weight: SEVERITY_WEIGHTS.high,
+    title: `Prompt injection attempt${hidden ? ' hidden in the HTML' : ''}: ${findings[0].title.toLowerCase()}`,
+    detail: findings.map(f => `${f.title} (${f.location}): "${f.excerpt}"`).join('\n'),
+    minimumRisk: 'Medium',
+    evidence: findings.map(f => f.excerpt),
+  }];
+}
@@ -0,0 +1,209 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AttachmentReport, Ioc, IocExportFormat, IocType, ParsedEmail } from '../types';
+import { getHeaders, parseAddressList } from './mime';
+import { parseReceived } from './headers';
+import { extractLinks } from './links';
+import { domainOf, isIpLiteral } from './domains';
+
+const LINK_LOCATIONS = {
+  text: 'Body text link',
+  anchor: 'HTML link',
+  form: 'HTML form action',
+  resource: 'Embedded resource',
+} as const;
+
+const ADDRESS_HEADERS = ['From', 'Reply-To', 'Return-Path', 'Sender'];
+
+export function defang(type: IocType, value: string): string {
+  switch (type) {
+    case 'url': {
+      const match = value.match(/^([a-z][a-z0-9+.-]*):\/\/([^/?#]*)(.*)$/i);
+      if (!match) return value.replace(/\./g, '[.]');
+      const scheme = match[1].toLowerCase().replace(/^http/, 'hxxp').replace(/^ftp/, 'fxp');
+      return `${scheme}://${match[2].replace(/\./g, '[.]')}${match[3]}`;
+    }
+    case 'email-address':
+      return value.replace('@', '[@]').replace(/\./g, '[.]');
+    case 'domain':
+    case 'ipv4':
+      return value.replace(/\./g, '[.]');
+    case 'ipv6':
+      return value.replace(/:/g, '[:]');
+    default:
+      return value;
+  }
+}
+
+/** Addresses that only identify the recipient's own network carry no intelligence value. */
+function isPrivateIp(ip: string): boolean {
+  if (ip.includes(':')) return /^(::1$|fe80:|fc|fd)/i.test(ip);
+  const [a, b] = ip.split('.').map(Number);
+  return a === 10 || a === 127 || a === 0 || (a === 169 && b === 254) || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168);
+}
+
+function ipType(ip: string): IocType {
+  return ip.includes(':') ? 'ipv6' : 'ipv4';
+}
+
+/**
+ * Collects sender addresses and domains, URLs and their hosts, public IPs from
+ * Received hops and attachment hashes. Repeated values are merged and keep
+ * every location they were seen in.
+ */
+export function extractIocs(email: ParsedEmail, attachmentReports: AttachmentReport[] = []): Ioc[] {
+  const iocs = new Map<string, Ioc>();
+  const add = (type: IocType, raw: string, location: string) => {
+    const value = type === 'url' || type === 'sha256' ? raw.trim() : raw.trim().toLowerCase();
+    if (!value) return;
+    const key = `${type}|${value}`;
+    const existing = iocs.get(key);
+    if (existing) {
+      if (!existing.locations.includes(location)) existing.locations.push(location);
+    } else {
+      iocs.set(key, { type, value, defanged: defang(type, value), locations: [location] });
+    }
+  };
+
+  for (const name of ADDRESS_HEADERS) {
+    for (const value of getHeaders(email.headers, name)) {
+      for (const { address } of parseAddressList(value)) {
+        if (!address.includes('@')) continue;
+        add('email-address', address, `${name} header`);
+        add('domain', domainOf(address), `${name} header`);
+      }
+    }
+  }
+
+  for (const link of extractLinks(email)) {
+    let host: string;
+    try {
+      host = new URL(link.url).hostname.replace(/^\[|\]$/g, '');
+    } catch {
+      continue;
+    }
+    // data: and javascript: URLs have no host and are not reusable indicators.
+    if (!host) continue;
+    add('url', link.url, LINK_LOCATIONS[link.source]);
+    if (isIpLiteral(host)) add(ipType(host), host, LINK_LOCATIONS[link.source]);
+    else add('domain', host, LINK_LOCATIONS[link.source]);
+  }
+
+  getHeaders(email.headers, 'Received').forEach((value, i) => {
+    const { ip } = parseReceived(value);
+    if (ip && isIpLiteral(ip) && !isPrivateIp(ip)) add(ipType(ip), ip, `Received hop ${i + 1}`);
+  });
+
+  for (const report of attachmentReports) {
+    add('sha256', report.sha256, `Attachment ${report.filename}`);
+  }
+
+  return [...iocs.values()];
+}
+
+// A scan as it appears in an export; several scans can share one file.
+export interface IocExportScan {
+  id?: string;
+  subject: string;
+  timestamp: number;
+  isPhishing: boolean;
+  iocs: Ioc[];
+}
+
+const CSV_COLUMNS = ['scan_id', 'scan_time', 'subject', 'verdict', 'type', 'value', 'defanged', 'locations'];
+
+export function csvCell(value: string): string {
+  // Leading =, +, - or @ would run as a formula in spreadsheet apps.
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function iocsToCsv(scans: IocExportScan[]): string {
+  const rows = scans.flatMap(scan => scan.iocs.map(ioc => [
+    scan.id ?? '',
+    new Date(scan.timestamp).toISOString(),
+    scan.subject,
+    scan.isPhishing ? 'phishing' : 'legitimate',
+    ioc.type,
+    ioc.value,
+    ioc.defanged,
+    ioc.locations.join('; '),
+  ]));
+  return [CSV_COLUMNS, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+export function iocsToJson(scans: IocExportScan[]): string {
+  return JSON.stringify({ generatedAt: new Date().toISOString(), scans }, null, 2);
+}
+
+const STIX_PATTERNS: Record<IocType, string> = {
+  'email-address': 'email-addr:value',
+  domain: 'domain-name:value',
+  url: 'url:value',
+  ipv4: 'ipv4-addr:value',
+  ipv6: 'ipv6-addr:value',
+  sha256: "file:hashes.'SHA-256'",
+};
+
+function stixString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/** A STIX 2.1 bundle: one indicator per IOC and one report per scan that groups them. */
+export function iocsToStix(scans: IocExportScan[]): string {
+  const now = new Date().toISOString();
+  const identity = {
+    type: 'identity',
+    spec_version: '2.1',
+    id: `identity--${crypto.randomUUID()}`,
+    created: now,
+    modified: now,
+    name: 'PhishGuard AI',
+    identity_class: 'system',
+  };
+  const objects: object[] = [identity];
+
+  for (const scan of scans) {
+    const validFrom = new Date(scan.timestamp).toISOString();
+    const indicators = scan.iocs.map(ioc => ({
+      type: 'indicator',
+      spec_version: '2.1',
+      id: `indicator--${crypto.randomUUID()}`,
+      created: now,
+      modified: now,
+      created_by_ref: identity.id,
+      name: `${ioc.type}: ${ioc.defanged}`,
+      description: `Seen in ${ioc.locations.join(', ')} of "${scan.subject}".`,
+      indicator_types: [scan.isPhishing ? 'malicious-activity' : 'anomalous-activity'],
+      pattern: `[${STIX_PATTERNS[ioc.type]} = ${stixString(ioc.value)}]`,
+      pattern_type: 'stix',
+      valid_from: validFrom,
+    }));
+    if (indicators.length === 0) continue;
+    objects.push(...indicators, {
+      type: 'report',
+      spec_version: '2.1',
+      id: `report--${crypto.randomUUID()}`,
+      created: now,
+      modified: now,
+      created_by_ref: identity.id,
+      name: scan.subject || '(no subject)',
+      description: `Email scanned ${validFrom}; verdict: ${scan.isPhishing ? 'phishing' : 'legitimate'}.`,
+      report_types: ['indicator'],
+      published: validFrom,
+      object_refs: indicators.map(i => i.id),
+      ...(scan.id ? { external_references: [{ source_name: 'phishguard-scan', external_id: scan.id }] } : {}),
+    });
+  }
+
+  return JSON.stringify({ type: 'bundle', id: `bundle--${crypto.randomUUID()}`, objects }, null, 2);
+}
+
+export const IOC_EXPORTS: Record<IocExportFormat, { extension: string; mimeType: string; render: (scans: IocExportScan[]) => string }> = {
+  stix: { extension: 'stix.json', mimeType: 'application/stix+json;version=2.1', render: iocsToStix },
+  csv: { extension: 'csv', mimeType: 'text/csv', render: iocsToCsv },
+  json: { extension: 'json', mimeType: 'application/json', render: iocsToJson },
+};
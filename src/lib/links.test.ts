@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { checkLinks, decodePunycode, linkScoreIndicators, toUnicodeHost } from './links';
+import { parseEmail } from './mime';
+
+function linksIn(body: string, contentType = 'text/plain') {
+  return checkLinks(parseEmail(`From: x@example.com\nSubject: hi\nContent-Type: ${contentType}\n\n${body}`));
+}
+
+describe('punycode', () => {
+  it('decodes internationalised labels', () => {
+    expect(decodePunycode('mnchen-3ya')).toBe('münchen');
+    expect(toUnicodeHost('xn--pypal-4ve.com')).toBe('pаypal.com');
+    expect(toUnicodeHost('www.example.com')).toBe('www.example.com');
+  });
+
+  it('leaves invalid labels untouched', () => {
+    expect(toUnicodeHost('xn--a-!.com')).toBe('xn--a-!.com');
+  });
+});
+
+describe('checkLinks', () => {
+  it('reports a Cyrillic homoglyph of a brand domain', () => {
+    const [link] = linksIn('Sign in at https://xn--pypal-4ve.com/login');
+    expect(link.host).toBe('xn--pypal-4ve.com');
+    expect(link.risk).toBe('High');
+    expect(link.reasons).toContain('Mixed-script internationalised domain (pаypal.com)');
+    expect(link.reasons).toContain('Homoglyph of paypal.com (PayPal)');
+    expect(link.impersonates).toEqual([{ brand: 'PayPal', domain: 'paypal.com' }]);
+  });
+
+  it('reports a single-script punycode domain at medium risk', () => {
+    const [link] = linksIn('https://xn--mnchen-3ya.de/');
+    expect(link.risk).toBe('Medium');
+    expect(link.reasons).toEqual(['Internationalised (punycode) domain: münchen.de']);
+  });
+
+  it('reports digits standing in for letters and near spellings', () => {
+    const [digit, typo] = linksIn('https://paypa1.com/verify https://paypall.com/verify');
+    expect(digit.reasons).toEqual(['Homoglyph of paypal.com (PayPal)']);
+    expect(typo.risk).toBe('High');
+    expect(typo.reasons).toEqual(['Lookalike of paypal.com (PayPal, edit distance 1)']);
+  });
+
+  it('does not treat short near-words or a brand\'s country domains as high-risk lookalikes', () => {
+    const links = linksIn('https://line.me/ https://mega.nz/ https://apply.com/ https://mail.com/ https://google.de/');
+    expect(links.map(l => l.risk)).toEqual(['Low', 'Low', 'Low', 'Low', 'Medium']);
+    expect(links[4].reasons).toEqual(['Uses the Google name on a different domain than google.com']);
+  });
+
+  it('reports anchor text that shows a different domain', () => {
+    const [link] = linksIn('<a href="https://login.evil.example/">https://www.paypal.com/signin</a>', 'text/html');
+    expect(link.displayText).toBe('https://www.paypal.com/signin');
+    expect(link.reasons).toContain('Link text shows www.paypal.com but opens login.evil.example');
+  });
+
+  it('reads image-map areas, which have no closing tag', () => {
+    const links = linksIn('<map><area shape="rect" href="https://evil.example/x"></map><a href="https://a.example/">one<a href="https://b.example/">two</a>', 'text/html');
+    expect(links.map(l => [l.url, l.displayText])).toEqual([
+      ['https://evil.example/x', undefined],
+      ['https://a.example/', 'one'],
+      ['https://b.example/', 'two'],
+    ]);
+  });
+
+  it('reads unclosed anchors in linear time', () => {
+    const started = Date.now();
+    linksIn('<a href="https://x.example/a">x'.repeat(20_000), 'text/html');
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('leaves the brand\'s own domains alone', () => {
+    const [link] = linksIn('https://www.paypal.com/signin');
+    expect(link.risk).toBe('Low');
+    expect(link.reasons).toEqual([]);
+    expect(link.impersonates).toBeUndefined();
+  });
+
+  it('weighs only the riskiest link in full', () => {
+    const indicators = linkScoreIndicators(linksIn('https://paypa1.com/a http://198.51.100.7/b https://example.com/'));
+    expect(indicators.map(i => i.weight)).toEqual([25, 8]);
+    expect(indicators[1].title).toMatch(/\(additional\)$/);
+  });
+});
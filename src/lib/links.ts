@@ -0,0 +1,334 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Impersonation, Indicator, LinkIndicator, LinkSource, ParsedEmail, RiskLevel, Severity } from '../types';
+import { decodeEntities, htmlToText, scanTags } from './html';
+import { domainsAligned, isIpLiteral, registrableDomain } from './domains';
+import { DEFAULT_BRANDS, type Brand } from './brands';
+import { RISK_ORDER, atLeast, maxRisk } from './risk';
+import { SEVERITY_WEIGHTS } from './scoring';
+
+const SHORTENERS = new Set([
+  'bit.ly', 'bitly.com', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'is.gd', 'buff.ly',
+  'rebrand.ly', 'cutt.ly', 'shorturl.at', 'rb.gy', 'tiny.cc', 'bit.do', 't.ly', 's.id',
+  'lnkd.in', 'shorte.st', 'adf.ly', 'v.gd', 'qrco.de', 'tiny.one', 'urlz.fr',
+]);
+
+// Characters from other scripts that render like Latin letters. Not exhaustive;
+// it covers the substitutions seen in real IDN phishing domains.
+const CONFUSABLES: Record<string, string> = {
+  'а': 'a', 'в': 'b', 'е': 'e', 'о': 'o', 'р': 'p', 'с': 'c', 'у': 'y', 'х': 'x',
+  'і': 'i', 'ј': 'j', 'ѕ': 's', 'һ': 'h', 'ԁ': 'd', 'ӏ': 'l', 'к': 'k', 'м': 'm',
+  'т': 't', 'ԛ': 'q', 'ԝ': 'w', 'ɡ': 'g', 'ɑ': 'a', 'ı': 'i', 'ο': 'o', 'α': 'a',
+  'ρ': 'p', 'ν': 'v', 'ι': 'i', 'κ': 'k', 'τ': 't', 'υ': 'u', 'ε': 'e',
+  '0': 'o', '1': 'l',
+};
+
+const MAX_LINKS = 200;
+
+interface RawLink {
+  url: string;
+  source: LinkSource;
+  displayText?: string;
+}
+
+interface Reason {
+  text: string;
+  severity: RiskLevel;
+  impersonates?: Impersonation;
+}
+
+/** Decodes one punycode label (RFC 3492), without the "xn--" prefix. */
+export function decodePunycode(input: string): string {
+  const base = 36, tMin = 1, tMax = 26, skew = 38, damp = 700;
+  const adapt = (delta: number, points: number, first: boolean) => {
+    delta = first ? Math.floor(delta / damp) : delta >> 1;
+    delta += Math.floor(delta / points);
+    let k = 0;
+    while (delta > ((base - tMin) * tMax) >> 1) {
+      delta = Math.floor(delta / (base - tMin));
+      k += base;
+    }
+    return k + Math.floor(((base - tMin + 1) * delta) / (delta + skew));
+  };
+
+  const basicEnd = input.lastIndexOf('-');
+  const output = basicEnd > 0 ? Array.from(input.slice(0, basicEnd)) : [];
+  let n = 128, i = 0, bias = 72;
+  let pos = basicEnd > 0 ? basicEnd + 1 : 0;
+
+  while (pos < input.length) {
+    const oldI = i;
+    let w = 1;
+    for (let k = base; ; k += base) {
+      if (pos >= input.length) throw new Error('Invalid punycode');
+      const c = input.charCodeAt(pos++);
+      const digit = c >= 48 && c <= 57 ? c - 22 : c >= 65 && c <= 90 ? c - 65 : c >= 97 && c <= 122 ? c - 97 : base;
+      if (digit >= base) throw new Error('Invalid punycode');
+      i += digit * w;
+      const t = k <= bias ? tMin : k >= bias + tMax ? tMax : k - bias;
+      if (digit < t) break;
+      w *= base - t;
+    }
+    const length = output.length + 1;
+    bias = adapt(i - oldI, length, oldI === 0);
+    n += Math.floor(i / length);
+    i %= length;
+    output.splice(i, 0, String.fromCodePoint(n));
+    i++;
+  }
+  return output.join('');
+}
+
+export function toUnicodeHost(host: string): string {
+  return host.split('.').map(label => {
+    if (!label.startsWith('xn--')) return label;
+    try {
+      return decodePunycode(label.slice(4));
+    } catch {
+      return label;
+    }
+  }).join('.');
+}
+
+/** Reduces a hostname to the Latin letters it visually resembles. */
+function skeleton(host: string): string {
+  return Array.from(host.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase())
+    .map(char => CONFUSABLES[char] ?? char)
+    .join('')
+    .replace(/rn/g, 'm')
+    .replace(/vv/g, 'w');
+}
+
+export function levenshtein(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  const value = match?.[1] ?? match?.[2] ?? match?.[3];
+  return value === undefined ? undefined : decodeEntities(value).trim();
+}
+
+function isFollowable(url: string): boolean {
+  return Boolean(url) && !/^(#|mailto:|tel:|cid:|sms:)/i.test(url);
+}
+
+function normaliseUrl(url: string): string {
+  return /^www\./i.test(url) ? `http://${url}` : url;
+}
+
+// Tags that load remote content, with the attribute holding its URL.
+const RESOURCE_ATTRIBUTES: Record<string, string> = { iframe: 'src', script: 'src', embed: 'src', frame: 'src', object: 'data' };
+
+/** Pulls every URL out of the text body and the HTML body's anchors, forms and embeds. */
+export function extractLinks(email: ParsedEmail): RawLink[] {
+  const links: RawLink[] = [];
+
+  if (email.html) {
+    const html = email.html;
+    // An anchor's text runs to its closing tag, or to the next anchor since anchors cannot nest.
+    let open: { link: RawLink; end: number } | null = null;
+    const closeAnchor = (at: number) => {
+      if (open) open.link.displayText = htmlToText(html.slice(open.end, at)) || undefined;
+      open = null;
+    };
+    for (const tag of scanTags(html)) {
+      if (tag.name === 'a') closeAnchor(tag.start);
+      if (tag.closing) continue;
+      if (tag.name === 'a' || tag.name === 'area') {
+        const href = attribute(tag.attributes, 'href');
+        if (!href || !isFollowable(href)) continue;
+        const link: RawLink = { url: normaliseUrl(href), source: 'anchor' };
+        links.push(link);
+        // <area> is a void element with no text of its own.
+        if (tag.name === 'a') open = { link, end: tag.end };
+      } else if (tag.name === 'form') {
+        const action = attribute(tag.attributes, 'action');
+        if (action && isFollowable(action)) links.push({ url: normaliseUrl(action), source: 'form' });
+      } else if (Object.hasOwn(RESOURCE_ATTRIBUTES, tag.name)) {
+        const src = attribute(tag.attributes, RESOURCE_ATTRIBUTES[tag.name]);
+        if (src && isFollowable(src)) links.push({ url: normaliseUrl(src), source: 'resource' });
+      }
+    }
+    // An anchor left open at the end has no reliable text.
+    open = null;
+  }
+
+  const seen = new Set(links.map(l => l.url));
+  for (const match of email.text.matchAll(/\b(?:(?:https?|ftp):\/\/|www\.)[^\s<>"'`]+|\b(?:data|javascript|vbscript):[^\s<>"'`]+/gi)) {
+    const url = normaliseUrl(match[0].replace(/[.,;:!?)\]}>]+$/, ''));
+    if (!seen.has(url)) {
+      seen.add(url);
+      links.push({ url, source: 'text' });
+    }
+  }
+
+  const unique = new Map<string, RawLink>();
+  for (const link of links) {
+    const key = `${link.source}|${link.url}|${link.displayText ?? ''}`;
+    if (!unique.has(key)) unique.set(key, link);
+  }
+  return [...unique.values()].slice(0, MAX_LINKS);
+}
+
+function lookalikeReasons(host: string, brands: Brand[]): Reason[] {
+  if (brands.some(brand => brand.domains.some(domain => domainsAligned(domain, host)))) return [];
+
+  const unicodeHost = toUnicodeHost(host);
+  const registrable = registrableDomain(unicodeHost);
+  const label = registrable.split('.')[0];
+  const segments = unicodeHost.split(/[.-]/);
+  const reasons: Reason[] = [];
+
+  for (const brand of brands) {
+    // Report at most one reason per brand, keeping the most severe.
+    let best: Reason | null = null;
+    for (const domain of brand.domains) {
+      const brandLabel = domain.split('.')[0];
+      let candidate: Reason | null = null;
+      if (skeleton(registrable) === skeleton(domain)) {
+        candidate = { text: `Homoglyph of ${domain} (${brand.name})`, severity: 'High', impersonates: { brand: brand.name, domain } };
+      } else if (label === brandLabel) {
+        // Brands register their name under many country codes (google.de),
+        // so only a generic TLD is strong evidence on its own.
+        const countryCode = /^[a-z]{2}$/.test(registrable.split('.').pop() ?? '');
+        candidate = { text: `Uses the ${brand.name} name on a different domain than ${domain}`, severity: countryCode ? 'Medium' : 'High', impersonates: { brand: brand.name, domain } };
+      } else {
+        // Short labels sit one edit away from ordinary words (line, mail,
+        // apply), so a bare typo only counts against longer brand names.
+        const distance = levenshtein(label, brandLabel);
+        const threshold = brandLabel.length >= 8 ? 2 : 1;
+        if (skeleton(label) === brandLabel) {
+          candidate = { text: `Lookalike of ${domain} (${brand.name}, look-alike characters)`, severity: 'High', impersonates: { brand: brand.name, domain } };
+        } else if (brandLabel.length >= 6 && distance <= threshold) {
+          candidate = { text: `Lookalike of ${domain} (${brand.name}, edit distance ${distance})`, severity: 'High', impersonates: { brand: brand.name, domain } };
+        } else if (brandLabel.length >= 3 && segments.includes(brandLabel)) {
+          candidate = { text: `Contains "${brandLabel}" but is not a ${brand.name} domain`, severity: 'Medium', impersonates: { brand: brand.name } };
+        }
+      }
+      if (candidate && (!best || atLeast(best.severity, candidate.severity) !== best.severity)) best = candidate;
+    }
+    if (best) reasons.push(best);
+  }
+  return reasons;
+}
+
+function assessLink(link: RawLink, brands: Brand[]): LinkIndicator {
+  const reasons: Reason[] = [];
+  let host = '';
+
+  const scheme = link.url.match(/^([a-z][a-z0-9+.-]*):/i)?.[1]?.toLowerCase();
+  if (scheme === 'data') {
+    reasons.push({ text: 'data: URI can embed an entire phishing page', severity: 'High' });
+  } else if (scheme === 'javascript' || scheme === 'vbscript') {
+    reasons.push({ text: `${scheme}: URI runs script when clicked`, severity: 'High' });
+  } else {
+    let parsed: URL | null = null;
+    try {
+      parsed = new URL(link.url);
+    } catch {
+      reasons.push({ text: 'Malformed URL', severity: 'Medium' });
+    }
+
+    if (parsed) {
+      host = parsed.hostname.replace(/^\[|\]$/g, '');
+      const registrable = registrableDomain(host);
+
+      if (parsed.protocol === 'http:') reasons.push({ text: 'Unencrypted HTTP link', severity: 'Low' });
+      if (parsed.protocol === 'file:') reasons.push({ text: 'file: URI points at a local or network share', severity: 'Medium' });
+      if (parsed.username || parsed.password) {
+        reasons.push({ text: `Text before "@" disguises the real host ${host}`, severity: 'High' });
+      }
+      if (isIpLiteral(host)) {
+        reasons.push({ text: 'Host is a raw IP address', severity: 'High' });
+      } else if (host) {
+        if (host.split('.').some(label => label.startsWith('xn--'))) {
+          const unicode = toUnicodeHost(host);
+          const mixed = [/\p{Script=Latin}/u, /\p{Script=Cyrillic}/u, /\p{Script=Greek}/u]
+            .filter(script => script.test(unicode)).length > 1;
+          reasons.push({
+            text: mixed ? `Mixed-script internationalised domain (${unicode})` : `Internationalised (punycode) domain: ${unicode}`,
+            severity: mixed ? 'High' : 'Medium',
+          });
+        }
+        if (SHORTENERS.has(host) || SHORTENERS.has(registrable)) {
+          reasons.push({ text: 'URL shortener hides the final destination', severity: 'Medium' });
+        }
+        const depth = host.split('.').length - registrable.split('.').length;
+        if (depth >= 3) {
+          reasons.push({ text: `Excessive subdomains (${depth} levels above ${registrable})`, severity: 'Medium' });
+        }
+        reasons.push(...lookalikeReasons(host, brands));
+      }
+      if (link.source === 'form') {
+        reasons.push({ text: `HTML form submits data to ${host || link.url}`, severity: 'Medium' });
+      }
+      if (link.source === 'resource') {
+        reasons.push({ text: 'Embedded frame, script or object loads remote content', severity: 'Medium' });
+      }
+    }
+  }
+
+  // Anchor text that looks like a URL or domain but points somewhere else.
+  const shown = link.displayText?.trim().match(/^(?:https?:\/\/)?((?:[a-z0-9-]+\.)+[a-z]{2,})(?:[/:?#]\S*)?$/i)?.[1];
+  if (shown && host && !domainsAligned(shown, host)) {
+    reasons.push({ text: `Link text shows ${shown} but opens ${host}`, severity: 'High', impersonates: { domain: shown.toLowerCase() } });
+  }
+
+  const impersonates = reasons.flatMap(r => (r.impersonates ? [r.impersonates] : []));
+  return {
+    url: link.url,
+    host,
+    source: link.source,
+    displayText: link.displayText,
+    risk: maxRisk(reasons.map(r => r.severity)),
+    reasons: reasons.map(r => r.text),
+    ...(impersonates.length > 0 ? { impersonates } : {}),
+  };
+}
+
+/**
+ * Extracts and scores every link in the message against scheme, host and
+ * lookalike-domain rules. Brands default to the built-in list; callers pass
+ * the user's configured list to protect their own domains too.
+ */
+export function checkLinks(email: ParsedEmail, brands: Brand[] = DEFAULT_BRANDS): LinkIndicator[] {
+  return extractLinks(email).map(link => assessLink(link, brands));
+}
+
+// Each flagged link after the riskiest one adds only this share of its weight,
+// so a newsletter full of tracking links does not saturate the score.
+const ADDITIONAL_LINK_FACTOR = 1 / 3;
+
+const LINK_SEVERITY: Record<RiskLevel, Severity | null> = { High: 'high', Medium: 'medium', Low: null };
+
+/** Maps flagged links to weighted scoring indicators, riskiest first. */
+export function linkScoreIndicators(links: LinkIndicator[]): Indicator[] {
+  return links
+    .filter(link => LINK_SEVERITY[link.risk])
+    .sort((a, b) => RISK_ORDER.indexOf(b.risk) - RISK_ORDER.indexOf(a.risk))
+    .map((link, i): Indicator => {
+      const severity = LINK_SEVERITY[link.risk]!;
+      const weight = SEVERITY_WEIGHTS[severity];
+      return {
+        source: 'link',
+        category: 'link',
+        severity,
+        weight: i === 0 ? weight : Math.round(weight * ADDITIONAL_LINK_FACTOR),
+        title: `${link.risk}-risk link: ${link.host || link.url.slice(0, 60)}${i === 0 ? '' : ' (additional)'}`,
+        detail: link.reasons.join('; '),
+        evidence: link.displayText ? [link.url, link.displayText] : [link.url],
+      };
+    });
+}
@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// An mbox file is a concatenation of messages, each introduced by a
+// "From sender date" envelope line. Body lines that would look like an
+// envelope are escaped with ">" (mboxo/mboxrd), so only a "From " line at the
+// start of the file or after a blank line starts a new message.
+
+export function isMbox(source: string): boolean {
+  return /^From \S/.test(source);
+}
+
+/** Splits an mbox export into raw messages without their envelope lines. */
+export function splitMbox(source: string): string[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const messages: string[] = [];
+  let current: string[] | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    // The blank line before the next envelope belongs to the format, not the message.
+    while (current.length > 0 && current[current.length - 1] === '') current.pop();
+    if (current.length > 0) messages.push(current.join('\n'));
+  };
+
+  lines.forEach((line, i) => {
+    if (line.startsWith('From ') && (i === 0 || lines[i - 1] === '')) {
+      flush();
+      current = [];
+    } else if (current) {
+      // mboxrd unescaping: ">From " -> "From ", ">>From " -> ">From ".
+      current.push(/^>+From /.test(line) ? line.slice(1) : line);
+    }
+  });
+  flush();
+  return messages;
+}
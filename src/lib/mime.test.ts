@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { parseEmail } from './mime';
+
+const multipart = [
+  'From: "Billing, Acme" <billing@acme.example>',
+  'To: alice@example.com, Bob <bob@example.com>',
+  'Subject: =?UTF-8?B?WmFobHVuZyBmw6RsbGln?= (invoice)',
+  'Message-ID: <abc@acme.example>',
+  'Content-Type: multipart/mixed; boundary="outer"',
+  '',
+  '--outer',
+  'Content-Type: multipart/alternative; boundary="inner"',
+  '',
+  '--inner',
+  'Content-Type: text/plain; charset=utf-8',
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  'Total: 10 =E2=82=AC, please pay soon=',
+  '.',
+  '--inner',
+  'Content-Type: text/html; charset=utf-8',
+  '',
+  '<p>Total: 10 &euro;</p>',
+  '--inner--',
+  '--outer',
+  'Content-Type: application/pdf; name="invoice.pdf"',
+  'Content-Disposition: attachment; filename="invoice.pdf"',
+  'Content-Transfer-Encoding: base64',
+  '',
+  'JVBERi0xLjQ=',
+  '--outer--',
+  '',
+].join('\r\n');
+
+describe('parseEmail', () => {
+  it('reads addresses, encoded words and the message id', () => {
+    const email = parseEmail(multipart);
+    expect(email.hasHeaders).toBe(true);
+    expect(email.subject).toBe('Zahlung fällig (invoice)');
+    expect(email.from).toEqual([{ name: 'Billing, Acme', address: 'billing@acme.example' }]);
+    expect(email.to.map(a => a.address)).toEqual(['alice@example.com', 'bob@example.com']);
+    expect(email.messageId).toBe('abc@acme.example');
+  });
+
+  it('decodes the text alternatives and keeps attachments apart', () => {
+    const email = parseEmail(multipart);
+    expect(email.text).toBe('Total: 10 €, please pay soon.');
+    expect(email.html).toContain('<p>Total: 10 &euro;</p>');
+    expect(email.attachments).toHaveLength(1);
+    expect(email.attachments[0]).toMatchObject({ filename: 'invoice.pdf', contentType: 'application/pdf', inline: false });
+    expect(new TextDecoder().decode(email.attachments[0].content)).toBe('%PDF-1.4');
+  });
+
+  it('unfolds continued header lines', () => {
+    const email = parseEmail('Subject: a long\n  subject line\nFrom: x@example.com\n\nbody');
+    expect(email.subject).toBe('a long subject line');
+    expect(email.text).toBe('body');
+  });
+
+  it('treats text without a header block as a bare body', () => {
+    const email = parseEmail('Hi, please review the attached document today.');
+    expect(email.hasHeaders).toBe(false);
+    expect(email.headers).toEqual([]);
+    expect(email.text).toBe('Hi, please review the attached document today.');
+  });
+
+  it('falls back to the HTML body when there is no plain text', () => {
+    const email = parseEmail('From: x@example.com\nContent-Type: text/html\n\n<p>Click <a href="https://example.com">here</a></p>');
+    expect(email.html).toBeDefined();
+    expect(email.text).toContain('Click');
+  });
+});
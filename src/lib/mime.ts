@@ -0,0 +1,473 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { EmailAddress, EmailAttachment, EmailHeader, MimePart, ParsedEmail } from '../types';
+import { htmlToText } from './html';
+
+// Headers that mark the start of the input as a real RFC 5322 header block
+// rather than a body that happens to begin with "Something: ...".
+const KNOWN_HEADERS = new Set([
+  'from', 'to', 'cc', 'subject', 'date', 'message-id', 'received', 'return-path',
+  'reply-to', 'sender', 'mime-version', 'content-type', 'delivered-to',
+  'authentication-results', 'received-spf', 'dkim-signature', 'x-mailer',
+]);
+
+const HEADER_LINE = /^[\x21-\x39\x3b-\x7e]+:/;
+const MAX_DEPTH = 20;
+
+/**
+ * Converts a string to bytes. Code points up to 0xFF are treated as raw octets
+ * (the "binary string" convention used for undecoded mail); anything above
+ * that can only come from already-decoded pasted text and is encoded as UTF-8.
+ */
+export function stringToBytes(value: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of value) {
+    const code = char.codePointAt(0)!;
+    if (code <= 0xff) {
+      bytes.push(code);
+    } else {
+      bytes.push(...new TextEncoder().encode(char));
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+function bytesToBinaryString(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    out += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return out;
+}
+
+export function decodeBytes(bytes: Uint8Array, charset = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset.trim().toLowerCase()).decode(bytes);
+  } catch {
+    // Unknown or misspelled charset labels are common in spam; fall back to UTF-8.
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+export function decodeBase64(value: string): Uint8Array {
+  let clean = value.replace(/[^A-Za-z0-9+/]/g, '');
+  if (clean.length % 4 === 1) clean = clean.slice(0, -1);
+  while (clean.length % 4 !== 0) clean += '=';
+  return stringToBytes(atob(clean));
+}
+
+export function decodeQuotedPrintable(value: string): Uint8Array {
+  const unfolded = value.replace(/=[ \t]*\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < unfolded.length; i++) {
+    const char = unfolded[i];
+    if (char === '=' && /^[0-9a-f]{2}$/i.test(unfolded.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(unfolded.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(...stringToBytes(char));
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+function decodeQEncoding(value: string): Uint8Array {
+  return decodeQuotedPrintable(value.replace(/_/g, ' '));
+}
+
+const ENCODED_WORD = /=\?([^?\s]+)\?([bq])\?([^?\s]*)\?=/gi;
+
+/**
+ * Decodes RFC 2047 encoded-words. Adjacent words separated only by whitespace
+ * are joined, and consecutive words in the same charset are decoded together
+ * so multi-byte sequences split across words survive.
+ */
+export function decodeEncodedWords(value: string): string {
+  if (!value.includes('=?')) return value;
+
+  let out = '';
+  let pending: { charset: string; bytes: number[] } | null = null;
+  let lastIndex = 0;
+
+  const flush = () => {
+    if (pending) {
+      out += decodeBytes(Uint8Array.from(pending.bytes), pending.charset);
+      pending = null;
+    }
+  };
+
+  for (const match of value.matchAll(ENCODED_WORD)) {
+    const between = value.slice(lastIndex, match.index);
+    if (pending === null || between.trim() !== '') {
+      flush();
+      out += between;
+    }
+
+    // RFC 2231 allows a language suffix: =?utf-8*en?Q?...?=
+    const charset = match[1].split('*')[0];
+    const bytes = match[2].toLowerCase() === 'b' ? decodeBase64(match[3]) : decodeQEncoding(match[3]);
+    const current = pending as { charset: string; bytes: number[] } | null;
+    if (current && current.charset.toLowerCase() === charset.toLowerCase()) {
+      current.bytes.push(...bytes);
+    } else {
+      flush();
+      pending = { charset, bytes: Array.from(bytes) };
+    }
+    lastIndex = match.index! + match[0].length;
+  }
+
+  flush();
+  return out + value.slice(lastIndex);
+}
+
+export function parseHeaders(block: string): EmailHeader[] {
+  const headers: EmailHeader[] = [];
+  for (const line of block.split('\n')) {
+    if (/^[ \t]/.test(line)) {
+      const last = headers[headers.length - 1];
+      if (last) last.raw += ' ' + line.trim();
+      continue;
+    }
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    headers.push({ name: line.slice(0, colon).trim(), value: '', raw: line.slice(colon + 1).trim() });
+  }
+  for (const header of headers) {
+    header.value = decodeEncodedWords(header.raw);
+  }
+  return headers;
+}
+
+export function getHeader(headers: EmailHeader[], name: string): string | undefined {
+  const lower = name.toLowerCase();
+  return headers.find(h => h.name.toLowerCase() === lower)?.value;
+}
+
+function getRawHeader(headers: EmailHeader[], name: string): string | undefined {
+  const lower = name.toLowerCase();
+  return headers.find(h => h.name.toLowerCase() === lower)?.raw;
+}
+
+export function getHeaders(headers: EmailHeader[], name: string): string[] {
+  const lower = name.toLowerCase();
+  return headers.filter(h => h.name.toLowerCase() === lower).map(h => h.value);
+}
+
+/** Splits on a delimiter, ignoring occurrences inside quotes, comments or angle brackets. */
+export function splitOutside(value: string, delimiter: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  let depth = 0;
+  let angle = false;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (quoted && char === '\\') {
+      current += char + (value[i + 1] ?? '');
+      i++;
+      continue;
+    }
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && char === '(') depth++;
+    else if (!quoted && char === ')') depth = Math.max(0, depth - 1);
+    else if (!quoted && char === '<') angle = true;
+    else if (!quoted && char === '>') angle = false;
+    if (char === delimiter && !quoted && depth === 0 && !angle) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')) {
+    return trimmed.slice(1, -1).replace(/\\(.)/g, '$1');
+  }
+  return trimmed;
+}
+
+/**
+ * Parses a structured header such as Content-Type or Content-Disposition into
+ * its main value and parameters, including RFC 2231 continuations and
+ * charset-tagged values (filename*=utf-8''...).
+ */
+export function parseHeaderValue(raw: string): { value: string; params: Record<string, string> } {
+  const [main, ...rest] = splitOutside(raw, ';');
+  const sections: Record<string, { index: number; encoded: boolean; text: string }[]> = {};
+  const params: Record<string, string> = {};
+
+  for (const segment of rest) {
+    const eq = segment.indexOf('=');
+    if (eq <= 0) continue;
+    const key = segment.slice(0, eq).trim().toLowerCase();
+    const text = unquote(segment.slice(eq + 1));
+    const continuation = key.match(/^([^*]+)\*(\d+)(\*)?$/);
+    if (continuation) {
+      (sections[continuation[1]] ??= []).push({
+        index: Number(continuation[2]),
+        encoded: continuation[3] === '*',
+        text,
+      });
+    } else if (key.endsWith('*')) {
+      (sections[key.slice(0, -1)] ??= []).push({ index: 0, encoded: true, text });
+    } else {
+      params[key] = decodeEncodedWords(text);
+    }
+  }
+
+  for (const [key, pieces] of Object.entries(sections)) {
+    pieces.sort((a, b) => a.index - b.index);
+    let charset = 'utf-8';
+    const bytes: number[] = [];
+    pieces.forEach((piece, i) => {
+      let text = piece.text;
+      if (piece.encoded && i === 0) {
+        const match = text.match(/^([^']*)'[^']*'(.*)$/);
+        if (match) {
+          charset = match[1] || charset;
+          text = match[2];
+        }
+      }
+      if (piece.encoded) {
+        bytes.push(...decodeQuotedPrintable(text.replace(/%([0-9a-f]{2})/gi, '=$1').replace(/=(?![0-9a-f]{2})/gi, '=3D')));
+      } else {
+        bytes.push(...stringToBytes(text));
+      }
+    });
+    params[key] = decodeBytes(Uint8Array.from(bytes), charset);
+  }
+
+  return { value: main.trim().toLowerCase(), params };
+}
+
+export function parseAddressList(value: string | undefined): EmailAddress[] {
+  if (!value) return [];
+  const addresses: EmailAddress[] = [];
+  for (let entry of splitOutside(value, ',')) {
+    // Drop group syntax ("undisclosed-recipients:;", "Team: a@b, c@d;").
+    entry = entry.replace(/^[^"<]*?:(?!\/)/, '').replace(/;\s*$/, '').trim();
+    if (!entry) continue;
+
+    const angle = entry.match(/^(.*)<([^>]*)>\s*(\(.*\))?$/);
+    if (angle) {
+      addresses.push({ name: unquote(angle[1]), address: angle[2].trim() });
+      continue;
+    }
+    const comment = entry.match(/\(([^)]*)\)/);
+    const address = entry.replace(/\([^)]*\)/g, '').trim();
+    addresses.push({ name: comment ? comment[1].trim() : '', address });
+  }
+  return addresses;
+}
+
+export function formatAddress(address: EmailAddress): string {
+  return address.name ? `${address.name} <${address.address}>` : address.address;
+}
+
+function looksLikeHeaderBlock(block: string): boolean {
+  const lines = block.split('\n');
+  if (!HEADER_LINE.test(lines[0])) return false;
+  let known = 0;
+  for (const line of lines) {
+    if (/^[ \t]/.test(line)) continue;
+    if (!HEADER_LINE.test(line)) return false;
+    if (KNOWN_HEADERS.has(line.slice(0, line.indexOf(':')).trim().toLowerCase())) known++;
+  }
+  return known > 0;
+}
+
+function splitHeaderAndBody(source: string): { headerBlock: string; body: string } | null {
+  const separator = source.indexOf('\n\n');
+  const headerBlock = separator === -1 ? source : source.slice(0, separator);
+  if (!looksLikeHeaderBlock(headerBlock)) return null;
+  return { headerBlock, body: separator === -1 ? '' : source.slice(separator + 2) };
+}
+
+function decodeTransfer(body: string, encoding: string): Uint8Array {
+  switch (encoding) {
+    case 'base64':
+      return decodeBase64(body);
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body);
+    default:
+      return stringToBytes(body);
+  }
+}
+
+/**
+ * Decodes a text body with its declared charset. Unencoded bodies that still
+ * hold non-ASCII characters may be pasted text that is already decoded, so
+ * they are only re-decoded when the bytes are valid in the declared charset.
+ */
+function decodeText(body: string, content: Uint8Array, encoding: string, charset = 'utf-8'): string {
+  if (encoding === 'base64' || encoding === 'quoted-printable') return decodeBytes(content, charset);
+  if (!/[^\x00-\x7f]/.test(body) || /[^\x00-\xff]/.test(body)) return body;
+  try {
+    return new TextDecoder(charset.trim().toLowerCase(), { fatal: true }).decode(content);
+  } catch {
+    return body;
+  }
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = '--' + boundary;
+  const parts: string[] = [];
+  let current: string[] | null = null;
+  for (const line of body.split('\n')) {
+    const trimmed = line.trimEnd();
+    if (trimmed === delimiter + '--') {
+      if (current) parts.push(current.join('\n'));
+      return parts;
+    }
+    if (trimmed === delimiter) {
+      if (current) parts.push(current.join('\n'));
+      current = [];
+      continue;
+    }
+    current?.push(line);
+  }
+  // Missing close delimiter: keep whatever was collected.
+  if (current) parts.push(current.join('\n'));
+  return parts;
+}
+
+function parsePart(source: string, depth: number, defaultType = 'text/plain'): MimePart {
+  const separator = source.startsWith('\n') ? 0 : source.indexOf('\n\n');
+  const headerBlock = separator === -1 ? source : source.slice(0, separator);
+  const body = separator === -1 ? '' : source.slice(separator + (separator === 0 ? 1 : 2));
+  return buildPart(parseHeaders(headerBlock), body, depth, defaultType);
+}
+
+function buildPart(headers: EmailHeader[], body: string, depth: number, defaultType = 'text/plain'): MimePart {
+  const contentType = parseHeaderValue(getRawHeader(headers, 'content-type') ?? defaultType);
+  const disposition = parseHeaderValue(getRawHeader(headers, 'content-disposition') ?? '');
+  const transferEncoding = (getHeader(headers, 'content-transfer-encoding') ?? '7bit').trim().toLowerCase();
+  const type = contentType.value.includes('/') ? contentType.value : defaultType;
+
+  const part: MimePart = {
+    headers,
+    contentType: type,
+    params: contentType.params,
+    disposition: disposition.value || undefined,
+    filename: disposition.params.filename || contentType.params.name || undefined,
+    contentId: getHeader(headers, 'content-id')?.replace(/^<|>$/g, ''),
+    transferEncoding,
+    content: new Uint8Array(),
+    children: [],
+  };
+
+  if (type.startsWith('multipart/') && contentType.params.boundary && depth < MAX_DEPTH) {
+    const childDefault = type === 'multipart/digest' ? 'message/rfc822' : 'text/plain';
+    part.children = splitMultipart(body, contentType.params.boundary)
+      .map(child => parsePart(child, depth + 1, childDefault));
+  } else {
+    part.content = decodeTransfer(body, transferEncoding);
+    if (type.startsWith('text/')) {
+      part.text = decodeText(body, part.content, transferEncoding, contentType.params.charset);
+    }
+  }
+  return part;
+}
+
+function isAttachment(part: MimePart): boolean {
+  if (part.disposition === 'attachment') return true;
+  if (part.contentType === 'text/plain' || part.contentType === 'text/html') return Boolean(part.filename);
+  return !part.contentType.startsWith('multipart/');
+}
+
+function extensionFor(type: string): string {
+  if (type === 'message/rfc822') return 'eml';
+  return type.split('/')[1]?.split(/[+.;]/)[0] || 'bin';
+}
+
+/**
+ * Parses pasted message source or the contents of a .eml file into headers,
+ * text and HTML bodies, and an attachment list. Input without a recognisable
+ * header block is treated as a plain-text body.
+ */
+export function parseEmail(source: string): ParsedEmail {
+  // Normalise line endings and drop an mbox "From " envelope line if present.
+  const normalised = source.replace(/\r\n?/g, '\n').replace(/^From [^\n]*\n/, '');
+  const split = splitHeaderAndBody(normalised);
+  const headers = split ? parseHeaders(split.headerBlock) : [];
+  const rawBody = split ? split.body : normalised;
+  const root = buildPart(headers, rawBody, 0);
+
+  const textParts: string[] = [];
+  let html: string | undefined;
+  const attachments: EmailAttachment[] = [];
+
+  const walk = (part: MimePart) => {
+    if (part.children.length > 0) {
+      if (part.contentType === 'multipart/alternative') {
+        // Prefer the richest text/plain and text/html alternatives; ignore the rest.
+        const plain = [...part.children].reverse().find(c => c.contentType === 'text/plain' && !isAttachment(c));
+        const rich = [...part.children].reverse().find(c => c.contentType === 'text/html' && !isAttachment(c));
+        const nested = part.children.filter(c => c.children.length > 0);
+        if (plain) textParts.push(plain.text ?? '');
+        if (rich && html === undefined) html = rich.text;
+        nested.forEach(walk);
+        return;
+      }
+      part.children.forEach(walk);
+      return;
+    }
+
+    if (isAttachment(part)) {
+      attachments.push({
+        filename: part.filename ?? `attachment-${attachments.length + 1}.${extensionFor(part.contentType)}`,
+        contentType: part.contentType,
+        size: part.content.length,
+        contentId: part.contentId,
+        inline: part.disposition === 'inline',
+        content: part.content,
+      });
+    } else if (part.contentType === 'text/html') {
+      html = html === undefined ? part.text : html + '\n' + part.text;
+    } else {
+      textParts.push(part.text ?? '');
+    }
+  };
+  walk(root);
+
+  let text = textParts.join('\n\n').trim();
+  if (!text && html) text = htmlToText(html);
+
+  return {
+    hasHeaders: Boolean(split),
+    headers,
+    subject: getHeader(headers, 'subject') ?? '',
+    from: parseAddressList(getHeader(headers, 'from')),
+    to: parseAddressList(getHeader(headers, 'to')),
+    cc: parseAddressList(getHeader(headers, 'cc')),
+    replyTo: parseAddressList(getHeader(headers, 'reply-to')),
+    date: getHeader(headers, 'date'),
+    messageId: getHeader(headers, 'message-id')?.replace(/^<|>$/g, ''),
+    text,
+    html,
+    attachments,
+    root,
+  };
+}
+
+/**
+ * Reads a dropped .eml file. Valid UTF-8 is decoded normally; anything else
+ * is kept as a binary string so 8bit parts can be decoded with their own
+ * declared charset.
+ */
+export async function readEmailFile(file: Blob): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return bytesToBinaryString(bytes);
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { PolicyProfile } from '../types';
+import { checkHeaders } from './headers';
+import { checkLinks } from './links';
+import { parseEmail } from './mime';
+import { EMPTY_POLICY, PolicyError, evaluatePolicy, parsePolicy, policyScoreIndicators } from './policy';
+
+const POLICY: PolicyProfile = parsePolicy({
+  organization: 'Acme',
+  trustedDomains: ['@acme.example'],
+  blockedDomains: ['https://bad.example/'],
+  vips: ['Jane Doe'],
+  vendorPaymentDomains: ['supplier.example'],
+  rules: [
+    { name: 'Gift cards', type: 'keyword', pattern: 'gift card', severity: 'high' },
+    { name: 'Invoice number', type: 'regex', pattern: 'INV-\\d{4}', severity: 'medium' },
+    { name: 'Disabled', type: 'keyword', pattern: 'hello', severity: 'low', enabled: false },
+  ],
+});
+
+function findings(source: string, policy = POLICY, trustedAuthservIds: string[] = ['mx.acme.example']) {
+  const email = parseEmail(source);
+  return evaluatePolicy(email, policy, checkHeaders(email, [], trustedAuthservIds), checkLinks(email, []));
+}
+
+const kinds = (list: ReturnType<typeof findings>) => list.map(f => f.kind);
+
+describe('parsePolicy', () => {
+  it('normalises domains and defaults rules to enabled', () => {
+    expect(POLICY.trustedDomains).toEqual(['acme.example']);
+    expect(POLICY.blockedDomains).toEqual(['bad.example']);
+    expect(POLICY.rules[0].enabled).toBe(true);
+    expect(POLICY.rules[2].enabled).toBe(false);
+  });
+
+  it('lists every problem at once', () => {
+    try {
+      parsePolicy({ trustedDomains: 'acme.example', rules: [{ name: '', type: 'glob', pattern: 'x', severity: 'huge' }] });
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(PolicyError);
+      expect((err as PolicyError).problems).toEqual([
+        'rules[0].name must be a non-empty string',
+        'rules[0].type must be keyword or regex',
+        expect.stringMatching(/^rules\[0\]\.severity must be one of/),
+        '"trustedDomains" must be an array of strings',
+      ]);
+    }
+  });
+
+  it('rejects regex features the linear-time engine does not support', () => {
+    expect(() => parsePolicy({ rules: [{ name: 'Repeat', type: 'regex', pattern: '(a)\\1', severity: 'low' }] }))
+      .toThrow(/backreferences and lookaround are not supported/);
+  });
+});
+
+describe('evaluatePolicy', () => {
+  it('finds nothing with an empty policy', () => {
+    expect(findings('From: Jane Doe <jane@bad.example>\nSubject: gift card\n\nINV-1234', EMPTY_POLICY)).toEqual([]);
+  });
+
+  it('blocks senders and links on blocked domains', () => {
+    const result = findings('From: a@mail.bad.example\nSubject: hi\n\nSee https://bad.example/x');
+    expect(kinds(result)).toEqual(['blocked-sender', 'blocked-link']);
+    expect(policyScoreIndicators(result).map(i => i.minimumRisk)).toEqual(['High', 'High']);
+  });
+
+  it('vouches for a trusted domain only when a trusted server authenticated it', () => {
+    const authenticated = 'Authentication-Results: mx.acme.example; spf=pass smtp.mailfrom=acme.example; dmarc=pass header.from=acme.example';
+    const forged = 'Authentication-Results: relay.attacker.example; spf=pass smtp.mailfrom=acme.example; dmarc=pass header.from=acme.example';
+    const body = '\nFrom: it@acme.example\nSubject: hi\n\nhello';
+    const trusted = findings(authenticated + body);
+    expect(kinds(trusted)).toEqual(['trusted-sender']);
+    expect(policyScoreIndicators(trusted)[0].weight).toBeLessThan(0);
+    expect(findings(forged + body)).toEqual([]);
+  });
+
+  it('flags a trusted domain that fails authentication', () => {
+    const result = findings('Authentication-Results: mx.acme.example; dmarc=fail header.from=acme.example\nFrom: it@acme.example\nSubject: hi\n\nhello');
+    expect(kinds(result)).toEqual(['trusted-unauthenticated']);
+  });
+
+  it('flags lookalikes of trusted and vendor domains', () => {
+    const result = findings('From: billing@supp1ier.example\nSubject: hi\n\nhello');
+    expect(result[0]).toMatchObject({ kind: 'lookalike-domain', title: 'supp1ier.example imitates vendor domain supplier.example' });
+  });
+
+  it('flags executive names from outside the organization', () => {
+    expect(kinds(findings('From: "Jane Doe" <jane.doe@freemail.example>\nSubject: hi\n\nAre you free?'))).toEqual(['vip-impersonation']);
+    expect(findings('From: "Jane Doe" <jane@acme.example>\nSubject: hi\n\nAre you free?')).toEqual([]);
+  });
+
+  it('flags payment requests from unknown vendors', () => {
+    expect(kinds(findings('From: ap@other.example\nSubject: Overdue invoice\n\nPlease pay.'))).toEqual(['vendor-payment']);
+    expect(findings('From: ap@supplier.example\nSubject: Overdue invoice\n\nPlease pay.')).toEqual([]);
+  });
+
+  it('runs the enabled custom rules', () => {
+    const result = findings('From: a@other.example\nSubject: hello\n\nBuy a Gift Card and send INV-2024.');
+    expect(result.map(f => [f.title, f.evidence])).toEqual([
+      ['Policy rule "Gift cards" matched', 'Gift Card'],
+      ['Policy rule "Invoice number" matched', 'INV-2024'],
+    ]);
+  });
+
+  it('matches regex rules in linear time', () => {
+    const policy = parsePolicy({ rules: [{ name: 'Nested', type: 'regex', pattern: '(a+)+$', severity: 'low' }] });
+    const started = Date.now();
+    findings(`From: a@other.example\nSubject: hi\n\n${'a'.repeat(30_000)}!`, policy);
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+});
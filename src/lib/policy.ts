@@ -0,0 +1,328 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  HeaderIndicator,
+  Indicator,
+  IndicatorCategory,
+  LinkIndicator,
+  ParsedEmail,
+  PolicyFinding,
+  PolicyFindingKind,
+  PolicyProfile,
+  PolicyRule,
+  RiskLevel,
+} from '../types';
+import { RE2JS } from 're2js';
+import { getHeader, parseAddressList } from './mime';
+import { domainOf, registrableDomain } from './domains';
+import { levenshtein } from './links';
+import { SEVERITIES } from './prompt';
+import { SEVERITY_WEIGHTS } from './scoring';
+import { escapeRegExp, isObject } from './utils';
+
+export const EMPTY_POLICY: PolicyProfile = {
+  organization: '',
+  trustedDomains: [],
+  blockedDomains: [],
+  vips: [],
+  vendorPaymentDomains: [],
+  rules: [],
+};
+
+const MAX_LIST = 1000;
+const MAX_RULES = 200;
+const MAX_PATTERN = 500;
+// Text custom rules are run against; the rest of a very long message is not searched.
+const MAX_RULE_INPUT = 20_000;
+const DOMAIN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+// Edit distance at which a domain counts as a lookalike of a trusted or vendor one.
+const LOOKALIKE_DISTANCE = 2;
+const MIN_LOOKALIKE_LENGTH = 6;
+const TRUSTED_SENDER_WEIGHT = -15;
+
+const PAYMENT_LANGUAGE = /\b(invoice|remittance|wire transfer|bank (details|account)|payment (details|instructions)|iban|swift|routing number|account number|overdue|outstanding balance)\b/i;
+
+/** The policy file or request body is unusable; `problems` lists every failed check. */
+export class PolicyError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid policy: ${problems.slice(0, 3).join('; ')}${problems.length > 3 ? '; …' : ''}`);
+    this.name = 'PolicyError';
+  }
+}
+
+/** Accepts what people paste: "@acme.com", "*.acme.com", "https://acme.com/". */
+export function normaliseDomain(value: string): string {
+  return value.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/^[@*.]+/, '').replace(/[/:].*$/, '');
+}
+
+function stringList(value: unknown, field: string, problems: string[]): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) {
+    problems.push(`"${field}" must be an array of strings`);
+    return [];
+  }
+  if (value.length > MAX_LIST) problems.push(`"${field}" has more than ${MAX_LIST} entries`);
+  return [...new Set((value as string[]).map(v => v.trim()).filter(Boolean))];
+}
+
+function domainList(value: unknown, field: string, problems: string[]): string[] {
+  const domains = [...new Set(stringList(value, field, problems).map(normaliseDomain))];
+  for (const domain of domains) {
+    if (!DOMAIN.test(domain)) problems.push(`"${field}" contains "${domain}", which is not a domain name`);
+  }
+  return domains;
+}
+
+function parseRule(value: unknown, i: number, problems: string[]): PolicyRule | null {
+  if (!isObject(value)) {
+    problems.push(`rules[${i}] must be an object`);
+    return null;
+  }
+  const name = typeof value.name === 'string' ? value.name.trim() : '';
+  const pattern = typeof value.pattern === 'string' ? value.pattern.trim() : '';
+  if (!name) problems.push(`rules[${i}].name must be a non-empty string`);
+  if (!pattern) problems.push(`rules[${i}].pattern must be a non-empty string`);
+  if (pattern.length > MAX_PATTERN) problems.push(`rules[${i}].pattern is longer than ${MAX_PATTERN} characters`);
+  if (value.type !== 'keyword' && value.type !== 'regex') problems.push(`rules[${i}].type must be keyword or regex`);
+  if (!SEVERITIES.includes(value.severity as never)) problems.push(`rules[${i}].severity must be one of ${SEVERITIES.join(', ')}`);
+  if (value.type === 'regex' && pattern) {
+    try {
+      compileRegexRule(pattern);
+    } catch {
+      problems.push(`rules[${i}].pattern is not a valid regular expression (backreferences and lookaround are not supported)`);
+    }
+  }
+  return {
+    name,
+    type: value.type as PolicyRule['type'],
+    pattern,
+    severity: value.severity as PolicyRule['severity'],
+    enabled: value.enabled !== false,
+  };
+}
+
+/** Validates an imported or submitted profile and returns it in canonical form. */
+export function parsePolicy(value: unknown): PolicyProfile {
+  if (!isObject(value)) throw new PolicyError(['the policy must be a JSON object']);
+  const problems: string[] = [];
+
+  if (value.organization !== undefined && typeof value.organization !== 'string') {
+    problems.push('"organization" must be a string');
+  }
+  let rules: PolicyRule[] = [];
+  if (value.rules !== undefined && !Array.isArray(value.rules)) {
+    problems.push('"rules" must be an array');
+  } else if (Array.isArray(value.rules)) {
+    if (value.rules.length > MAX_RULES) problems.push(`"rules" has more than ${MAX_RULES} entries`);
+    rules = value.rules.map((rule, i) => parseRule(rule, i, problems)).filter((r): r is PolicyRule => r !== null);
+  }
+
+  const policy: PolicyProfile = {
+    organization: typeof value.organization === 'string' ? value.organization.trim().slice(0, 200) : '',
+    trustedDomains: domainList(value.trustedDomains, 'trustedDomains', problems),
+    blockedDomains: domainList(value.blockedDomains, 'blockedDomains', problems),
+    vips: stringList(value.vips, 'vips', problems),
+    vendorPaymentDomains: domainList(value.vendorPaymentDomains, 'vendorPaymentDomains', problems),
+    rules,
+  };
+  if (problems.length > 0) throw new PolicyError(problems);
+  return policy;
+}
+
+export function isEmptyPolicy(policy: PolicyProfile): boolean {
+  return !policy.trustedDomains.length && !policy.blockedDomains.length && !policy.vips.length &&
+    !policy.vendorPaymentDomains.length && !policy.rules.some(r => r.enabled);
+}
+
+function inDomains(host: string, domains: string[]): string | undefined {
+  return domains.find(d => host === d || host.endsWith(`.${d}`));
+}
+
+/** Matches a phrase as whole words in any case, allowing any whitespace between words. */
+function phrasePattern(phrase: string): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}])${phrase.split(/\s+/).map(escapeRegExp).join('\\s+')}(?![\\p{L}\\p{N}])`, 'iu');
+}
+
+/**
+ * Custom regexes come from whoever edits the profile, so they run on RE2,
+ * whose matching time is linear in the input. A backtracking pattern such as
+ * (a+)+$ would otherwise stall the server on a crafted message.
+ */
+function compileRegexRule(pattern: string): RE2JS {
+  return RE2JS.compile(pattern, RE2JS.CASE_INSENSITIVE);
+}
+
+function matchRule(rule: PolicyRule, content: string): string | null {
+  if (rule.type === 'keyword') return phrasePattern(rule.pattern).exec(content)?.[0] ?? null;
+  const matcher = compileRegexRule(rule.pattern).matcher(content);
+  return matcher.find() ? matcher.group() : null;
+}
+
+/** Whether the receiving server's authentication verdicts vouch for the From domain. */
+function authentication(headerIndicators: HeaderIndicator[]): 'pass' | 'fail' | 'unknown' {
+  const auth = headerIndicators.filter(i => i.check === 'dmarc' || i.check === 'spf' || i.check === 'dkim');
+  if (auth.some(i => i.status === 'fail')) return 'fail';
+  return auth.some(i => i.status === 'pass') ? 'pass' : 'unknown';
+}
+
+/**
+ * Applies the organization's policy to a message: blocked and trusted
+ * domains, lookalikes of trusted and vendor domains, executive names in the
+ * display name, payment requests from outside the vendor list and the custom
+ * rules. Each finding becomes its own indicator.
+ */
+export function evaluatePolicy(
+  email: ParsedEmail,
+  policy: PolicyProfile,
+  headerIndicators: HeaderIndicator[] = [],
+  linkIndicators: LinkIndicator[] = []
+): PolicyFinding[] {
+  const findings: PolicyFinding[] = [];
+  const from = email.from[0];
+  const fromLine = getHeader(email.headers, 'from');
+  const fromEvidence = fromLine ? `From: ${fromLine}` : undefined;
+  const fromDomain = from ? domainOf(from.address) : '';
+  const trustedMatch = fromDomain ? inDomains(fromDomain, policy.trustedDomains) : undefined;
+  const content = `${email.subject}\n${email.text}`;
+
+  const senders = ['from', 'reply-to', 'return-path', 'sender'].flatMap(name =>
+    parseAddressList(getHeader(email.headers, name)).map(a => ({ name, domain: domainOf(a.address) }))
+  );
+  for (const { name, domain } of senders) {
+    const blocked = domain && inDomains(domain, policy.blockedDomains);
+    if (blocked && !findings.some(f => f.kind === 'blocked-sender')) {
+      findings.push({
+        kind: 'blocked-sender',
+        severity: 'critical',
+        title: `Sender domain ${domain} is blocked by policy`,
+        detail: `The ${name} address uses ${domain}, which matches the blocked domain ${blocked}.`,
+        evidence: domain,
+      });
+    }
+  }
+
+  const linkHosts = [...new Set(linkIndicators.map(l => l.host.toLowerCase()).filter(Boolean))];
+  for (const host of linkHosts) {
+    const blocked = inDomains(host, policy.blockedDomains);
+    if (blocked) {
+      findings.push({
+        kind: 'blocked-link',
+        severity: 'high',
+        title: `Links to blocked domain ${host}`,
+        detail: `The message links to ${host}, which matches the blocked domain ${blocked}.`,
+        evidence: host,
+      });
+    }
+  }
+
+  if (trustedMatch) {
+    const auth = authentication(headerIndicators);
+    if (auth === 'fail') {
+      findings.push({
+        kind: 'trusted-unauthenticated',
+        severity: 'high',
+        title: `Claims trusted domain ${fromDomain} but fails authentication`,
+        detail: `${trustedMatch} is on the trusted list, but SPF, DKIM or DMARC failed, so the From address is likely forged.`,
+        evidence: fromEvidence,
+      });
+    } else if (auth === 'pass') {
+      findings.push({
+        kind: 'trusted-sender',
+        severity: 'info',
+        title: `Authenticated sender from trusted domain ${fromDomain}`,
+        detail: `${trustedMatch} is on the trusted list and the message passed authentication.`,
+        evidence: fromEvidence,
+      });
+    }
+  }
+
+  const known = [...new Set([...policy.trustedDomains, ...policy.vendorPaymentDomains])];
+  const candidates = [...new Set([fromDomain, ...linkHosts].filter(Boolean).map(registrableDomain))];
+  for (const domain of candidates) {
+    if (domain.length < MIN_LOOKALIKE_LENGTH || inDomains(domain, known)) continue;
+    const target = known.find(k => k.length >= MIN_LOOKALIKE_LENGTH && levenshtein(domain, k) <= LOOKALIKE_DISTANCE);
+    if (target) {
+      findings.push({
+        kind: 'lookalike-domain',
+        severity: 'critical',
+        title: `${domain} imitates ${policy.trustedDomains.includes(target) ? 'trusted' : 'vendor'} domain ${target}`,
+        detail: `${domain} differs from ${target} by only ${levenshtein(domain, target)} character(s).`,
+        evidence: domain,
+      });
+    }
+  }
+
+  if (from?.name && !trustedMatch) {
+    const vip = policy.vips.find(name => phrasePattern(name).test(from.name!));
+    if (vip) {
+      findings.push({
+        kind: 'vip-impersonation',
+        severity: 'high',
+        title: `Display name impersonates executive ${vip}`,
+        detail: `"${from.name}" matches a name on the VIP list, but ${from.address} is not on a trusted domain.`,
+        evidence: fromEvidence,
+      });
+    }
+  }
+
+  const payment = PAYMENT_LANGUAGE.exec(content);
+  if (payment && policy.vendorPaymentDomains.length > 0 && fromDomain &&
+      !inDomains(fromDomain, [...policy.vendorPaymentDomains, ...policy.trustedDomains])) {
+    findings.push({
+      kind: 'vendor-payment',
+      severity: 'high',
+      title: `Payment request from ${fromDomain}, which is not a known vendor`,
+      detail: `The message mentions "${payment[0]}" but ${fromDomain} is not on the vendor payment list.`,
+      evidence: payment[0],
+    });
+  }
+
+  const ruleInput = content.slice(0, MAX_RULE_INPUT);
+  for (const rule of policy.rules.filter(r => r.enabled)) {
+    let match: string | null = null;
+    try {
+      match = matchRule(rule, ruleInput);
+    } catch {
+      // Profiles are validated on save; skip a rule this runtime cannot compile.
+    }
+    if (match) {
+      findings.push({
+        kind: 'custom-rule',
+        severity: rule.severity,
+        title: `Policy rule "${rule.name}" matched`,
+        detail: `${rule.type === 'regex' ? 'Pattern' : 'Keyword'} ${JSON.stringify(rule.pattern)} matched "${match.slice(0, 100)}".`,
+        evidence: match,
+      });
+    }
+  }
+
+  return findings;
+}
+
+const FINDING_RULES: Record<PolicyFindingKind, { category: IndicatorCategory; minimumRisk?: RiskLevel }> = {
+  'blocked-sender': { category: 'sender', minimumRisk: 'High' },
+  'blocked-link': { category: 'link', minimumRisk: 'High' },
+  'trusted-sender': { category: 'authentication' },
+  'trusted-unauthenticated': { category: 'authentication', minimumRisk: 'Medium' },
+  'lookalike-domain': { category: 'impersonation', minimumRisk: 'Medium' },
+  'vip-impersonation': { category: 'impersonation', minimumRisk: 'Medium' },
+  'vendor-payment': { category: 'content' },
+  'custom-rule': { category: 'content' },
+};
+
+/** One weighted indicator per finding; an authenticated trusted sender lowers the score. */
+export function policyScoreIndicators(findings: PolicyFinding[]): Indicator[] {
+  return findings.map(finding => ({
+    source: 'policy',
+    category: FINDING_RULES[finding.kind].category,
+    severity: finding.severity,
+    weight: finding.kind === 'trusted-sender' ? TRUSTED_SENDER_WEIGHT : SEVERITY_WEIGHTS[finding.severity],
+    title: finding.title,
+    detail: finding.detail,
+    minimumRisk: FINDING_RULES[finding.kind].minimumRisk,
+    evidence: finding.evidence ? [finding.evidence] : undefined,
+  }));
+}
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AnalysisErrorCode, AnalysisEvent, LocalFindings } from '../types';
+
+/** What the user sees while a streamed analysis runs. */
+export interface ScanProgress {
+  local?: LocalFindings;
+  // Raw model output so far; reset when a failed attempt is retried.
+  modelText: string;
+  retry?: Extract<AnalysisEvent, { type: 'retry' }>;
+}
+
+export const EMPTY_PROGRESS: ScanProgress = { modelText: '' };
+
+export function applyAnalysisEvent(progress: ScanProgress, event: AnalysisEvent): ScanProgress {
+  switch (event.type) {
+    case 'local':
+      return { ...progress, local: event.findings };
+    case 'model':
+      return { ...progress, modelText: progress.modelText + event.text };
+    case 'retry':
+      return { ...progress, modelText: '', retry: event };
+    default:
+      return progress;
+  }
+}
+
+const STRING = '"((?:[^"\\\\]|\\\\.)*)';
+
+function decode(raw: string): string {
+  // A cut-off escape sequence at the end of a still-streaming string.
+  const text = raw.replace(/\\(u[0-9a-fA-F]{0,3})?$/, '');
+  try {
+    return JSON.parse(`"${text}"`);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Pulls what is readable out of the model's unfinished JSON reply: the
+ * summary as far as it has been written and the titles of completed findings.
+ */
+export function readPartialAnalysis(text: string): { summary?: string; findings: string[] } {
+  const summary = text.match(new RegExp(`"summary"\\s*:\\s*${STRING}`))?.[1];
+  const findings = [...text.matchAll(new RegExp(`"title"\\s*:\\s*${STRING}"`, 'g'))].map(m => decode(m[1]));
+  return { summary: summary === undefined ? undefined : decode(summary), findings };
+}
+
+export const ANALYSIS_ERROR_MESSAGES: Record<AnalysisErrorCode, string> = {
+  quota: "The analysis engine's rate limit or quota is used up. Wait a minute and try again, or switch the analysis engine.",
+  network: 'The server could not reach the analysis engine. Check that it is running and reachable, then try again.',
+  timeout: 'The analysis took too long and was stopped. Try again, or switch to a faster analysis engine.',
+  cancelled: 'The scan was cancelled.',
+  safety_block: "The model's safety filters refused to analyse this message, so no verdict was produced. Switch the analysis engine, or rely on the local checks.",
+  invalid_model_response: 'The AI model returned a response that failed validation, so no verdict was produced. Try again or switch the analysis engine.',
+  provider_error: 'The analysis engine failed to answer. Try again later or switch the analysis engine.',
+};
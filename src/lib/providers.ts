@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AnalysisResult, ProviderCatalog, ProviderChoice, ProviderInfo } from '../types';
+
+const STORAGE_KEY = 'phishguard.provider';
+
+export function loadProviderChoice(): ProviderChoice {
+  if (typeof localStorage === 'undefined') return {};
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as ProviderChoice;
+  } catch {
+    return {};
+  }
+}
+
+export function saveProviderChoice(choice: ProviderChoice): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(choice));
+}
+
+/** The provider and model a request will use: the saved choice if the server still offers it, else its default. */
+export function resolveChoice(catalog: ProviderCatalog, choice: ProviderChoice): { provider: ProviderInfo; model: string } | null {
+  const provider =
+    catalog.providers.find(p => p.id === choice.provider && p.available) ??
+    catalog.providers.find(p => p.id === catalog.defaultProvider);
+  if (!provider) return null;
+  const model = choice.model && provider.models.includes(choice.model) ? choice.model : provider.defaultModel;
+  return { provider, model };
+}
+
+export function providerLabel(result: AnalysisResult): string {
+  return result.provider ? `${result.provider.label} (${result.provider.model})` : 'Gemini';
+}
@@ -0,0 +1,16 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { RiskLevel } from '../types';
+
+export const RISK_ORDER: RiskLevel[] = ['Low', 'Medium', 'High'];
+
+export function atLeast(level: RiskLevel, floor: RiskLevel): RiskLevel {
+  return RISK_ORDER.indexOf(level) >= RISK_ORDER.indexOf(floor) ? level : floor;
+}
+
+export function maxRisk(levels: RiskLevel[]): RiskLevel {
+  return levels.reduce<RiskLevel>((max, level) => atLeast(max, level), 'Low');
+}
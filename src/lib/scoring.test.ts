@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { Indicator, ModelAnalysis } from '../types';
+import { DEFAULT_THRESHOLDS, modelIndicators, riskLevelFor, scoreAnalysis, topIndicators } from './scoring';
+
+function model(overrides: Partial<ModelAnalysis> = {}): ModelAnalysis {
+  return {
+    isPhishing: false,
+    confidence: 100,
+    indicators: [],
+    recommendation: '',
+    summary: '',
+    technicalDetails: '',
+    ...overrides,
+  };
+}
+
+function local(weight: number, overrides: Partial<Indicator> = {}): Indicator {
+  return { source: 'header', category: 'authentication', severity: 'high', weight, title: `Local ${weight}`, ...overrides };
+}
+
+describe('riskLevelFor', () => {
+  it('applies the thresholds inclusively', () => {
+    expect(riskLevelFor(29, DEFAULT_THRESHOLDS)).toBe('Low');
+    expect(riskLevelFor(30, DEFAULT_THRESHOLDS)).toBe('Medium');
+    expect(riskLevelFor(60, DEFAULT_THRESHOLDS)).toBe('High');
+  });
+});
+
+describe('modelIndicators', () => {
+  it('scales the verdict by confidence and weighs findings by severity', () => {
+    const indicators = modelIndicators(model({
+      isPhishing: true,
+      confidence: 80,
+      indicators: [{ title: 'Urgent tone', category: 'content', severity: 'medium' }],
+    }));
+    expect(indicators.map(i => i.weight)).toEqual([20, 12]);
+  });
+});
+
+describe('scoreAnalysis', () => {
+  it('sums model and local weights into the score', () => {
+    const result = scoreAnalysis(model({ isPhishing: true }), [local(25), local(12)]);
+    expect(result.score).toBe(62);
+    expect(result.riskLevel).toBe('High');
+    expect(result.isPhishing).toBe(true);
+    expect(result.indicators).toHaveLength(3);
+  });
+
+  it('clamps the score to 0–100', () => {
+    expect(scoreAnalysis(model(), [local(-40)]).score).toBe(0);
+    expect(scoreAnalysis(model({ isPhishing: true }), [local(45), local(45)]).score).toBe(100);
+  });
+
+  it('uses the configured thresholds', () => {
+    const result = scoreAnalysis(model({ isPhishing: true }), [local(25)], { medium: 20, high: 40 });
+    expect(result.score).toBe(50);
+    expect(result.riskLevel).toBe('High');
+    expect(result.thresholds).toEqual({ medium: 20, high: 40 });
+  });
+
+  it('raises the score to the minimum risk of a hard indicator', () => {
+    const result = scoreAnalysis(model(), [local(45, { minimumRisk: 'High', title: 'DMARC fail' })]);
+    expect(result.score).toBe(DEFAULT_THRESHOLDS.high);
+    expect(result.riskLevel).toBe('High');
+    expect(result.scoreFloor).toEqual({ level: 'High', reason: 'DMARC fail' });
+  });
+
+  it('calls Medium risk phishing only when the model agrees', () => {
+    expect(scoreAnalysis(model({ isPhishing: true, confidence: 40 }), [local(25)])).toMatchObject({ riskLevel: 'Medium', isPhishing: true });
+    expect(scoreAnalysis(model({ confidence: 0 }), [local(45)])).toMatchObject({ riskLevel: 'Medium', isPhishing: false });
+  });
+
+  it('keeps confidence within 5–99', () => {
+    const { confidence } = scoreAnalysis(model({ isPhishing: true }), [local(45), local(45), local(45)]);
+    expect(confidence).toBeGreaterThanOrEqual(5);
+    expect(confidence).toBeLessThanOrEqual(99);
+  });
+});
+
+describe('topIndicators', () => {
+  it('ranks findings by weight without the model verdict', () => {
+    const { indicators } = scoreAnalysis(model({ isPhishing: true }), [local(5), local(45), local(12)]);
+    expect(topIndicators(indicators, 2).map(i => i.weight)).toEqual([45, 12]);
+  });
+});
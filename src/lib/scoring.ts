@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AnalysisResult, Indicator, ModelAnalysis, RiskLevel, ScoreThresholds, Severity } from '../types';
+import { RISK_ORDER, maxRisk } from './risk';
+
+export const SEVERITY_WEIGHTS: Record<Severity, number> = {
+  info: 0,
+  low: 5,
+  medium: 12,
+  high: 25,
+  critical: 45,
+};
+
+export const DEFAULT_THRESHOLDS: ScoreThresholds = { medium: 30, high: 60 };
+
+// Points the model's overall verdict contributes at full confidence.
+const MODEL_PHISHING_WEIGHT = 25;
+const MODEL_LEGITIMATE_WEIGHT = -15;
+const VERDICT_TITLE = 'Model verdict: ';
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+export function riskLevelFor(score: number, thresholds: ScoreThresholds): RiskLevel {
+  if (score >= thresholds.high) return 'High';
+  if (score >= thresholds.medium) return 'Medium';
+  return 'Low';
+}
+
+/** Converts the model's own findings, plus its overall verdict, into weighted indicators. */
+export function modelIndicators(model: ModelAnalysis): Indicator[] {
+  const confidence = clamp(model.confidence ?? 50, 0, 100) / 100;
+  const verdict: Indicator = model.isPhishing
+    ? {
+        source: 'model',
+        category: 'content',
+        severity: 'high',
+        weight: Math.round(MODEL_PHISHING_WEIGHT * confidence),
+        title: `${VERDICT_TITLE}phishing`,
+        detail: `The model judged the message to be phishing with ${Math.round(confidence * 100)}% confidence.`,
+      }
+    : {
+        source: 'model',
+        category: 'content',
+        severity: 'info',
+        weight: Math.round(MODEL_LEGITIMATE_WEIGHT * confidence),
+        title: `${VERDICT_TITLE}legitimate`,
+        detail: `The model judged the message to be legitimate with ${Math.round(confidence * 100)}% confidence.`,
+      };
+
+  return [
+    verdict,
+    ...model.indicators.map(({ title, category, severity, evidence }): Indicator => ({
+      source: 'model',
+      category,
+      severity,
+      weight: SEVERITY_WEIGHTS[severity] ?? 0,
+      title,
+      evidence,
+    })),
+  ];
+}
+
+/**
+ * Combines weighted indicators from every source into a 0–100 risk score,
+ * a risk level from the configured thresholds and a confidence value.
+ * Indicator weights are summed and clamped, so the breakdown adds up to the
+ * score unless a hard indicator raised it to its minimum risk level.
+ */
+export function scoreAnalysis(
+  model: ModelAnalysis,
+  localIndicators: Indicator[],
+  thresholds: ScoreThresholds = DEFAULT_THRESHOLDS
+): Pick<AnalysisResult, 'score' | 'confidence' | 'riskLevel' | 'isPhishing' | 'indicators' | 'thresholds' | 'scoreFloor'> {
+  const indicators = [...modelIndicators(model), ...localIndicators];
+  let score = clamp(indicators.reduce((sum, i) => sum + i.weight, 0), 0, 100);
+  let riskLevel = riskLevelFor(score, thresholds);
+
+  let scoreFloor: AnalysisResult['scoreFloor'];
+  const floors = indicators.filter(i => i.minimumRisk);
+  const floor = maxRisk(floors.map(i => i.minimumRisk!));
+  if (floors.length > 0 && RISK_ORDER.indexOf(floor) > RISK_ORDER.indexOf(riskLevel)) {
+    score = floor === 'High' ? thresholds.high : thresholds.medium;
+    riskLevel = floor;
+    scoreFloor = { level: floor, reason: floors.find(i => i.minimumRisk === floor)!.title };
+  }
+
+  const isPhishing = riskLevel === 'High' || (riskLevel === 'Medium' && model.isPhishing);
+
+  // Confidence blends the model's self-reported confidence with how far the
+  // score sits from a threshold, how much deterministic evidence backs it and
+  // whether the model's verdict agrees with the final one.
+  const margin = clamp(Math.min(Math.abs(score - thresholds.medium), Math.abs(score - thresholds.high)) / 25, 0, 1);
+  const evidence = indicators.filter(i => i.source !== 'model' && i.weight !== 0).length;
+  const local = 0.5 + 0.3 * margin + 0.04 * Math.min(evidence, 5) - (model.isPhishing === isPhishing ? 0 : 0.3);
+  const confidence = Math.round(clamp(0.5 * (clamp(model.confidence ?? 50, 0, 100) / 100) + 0.5 * local, 0.05, 0.99) * 100);
+
+  return { score, confidence, riskLevel, isPhishing, indicators, thresholds, scoreFloor };
+}
+
+/** The strongest findings behind a result, excluding the model's overall verdict. */
+export function topIndicators(indicators: Indicator[], limit = 3): Indicator[] {
+  return indicators
+    .filter(i => i.weight > 0 && !i.title.startsWith(VERDICT_TITLE))
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, limit);
+}
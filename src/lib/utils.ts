@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { clsx, type ClassValue } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+
+// Utility for tailwind classes
+export function cn(...inputs: ClassValue[]) {
+  return twMerge(clsx(inputs));
+}
+
+// A plain JSON object, as opposed to null, an array or a primitive.
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function formatBytes(size: number): string {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function getRiskColor(level: string): string {
+  switch (level) {
+    case 'High': return 'text-red-500 bg-red-500/10 border-red-500/20';
+    case 'Medium': return 'text-amber-500 bg-amber-500/10 border-amber-500/20';
+    case 'Low': return 'text-emerald-500 bg-emerald-500/10 border-emerald-500/20';
+    default: return 'text-slate-500 bg-slate-500/10 border-slate-500/20';
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ModelAnalysis } from '../types';
+import { INDICATOR_CATEGORIES, SEVERITIES } from './prompt';
+import { isObject } from './utils';
+
+// Model output is untrusted input: a provider may return malformed JSON, drop
+// fields or, after a successful prompt injection, return something shaped to
+// look harmless. Nothing reaches scoring without passing these checks.
+
+const MAX_INDICATORS = 50;
+const MAX_TITLE = 300;
+const MAX_EVIDENCE = 5;
+const MAX_TEXT = 20000;
+
+/** The model's reply could not be used; `problems` lists every failed check. */
+export class ModelOutputError extends Error {
+  constructor(public problems: string[]) {
+    super(`The model returned an invalid response: ${problems.slice(0, 3).join('; ')}${problems.length > 3 ? '; …' : ''}`);
+    this.name = 'ModelOutputError';
+  }
+}
+
+/** Parses a raw model reply, tolerating a Markdown code fence around the JSON. */
+export function parseModelJson(text: string | undefined): unknown {
+  const trimmed = (text ?? '').trim();
+  if (!trimmed) throw new ModelOutputError(['the response was empty']);
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
+  try {
+    return JSON.parse(fenced ? fenced[1] : trimmed);
+  } catch {
+    throw new ModelOutputError(['the response is not valid JSON']);
+  }
+}
+
+function checkText(value: unknown, field: string, problems: string[], limit = MAX_TEXT): string {
+  if (typeof value !== 'string') {
+    problems.push(`"${field}" must be a string`);
+    return '';
+  }
+  if (!value.trim()) problems.push(`"${field}" is empty`);
+  if (value.length > limit) problems.push(`"${field}" is longer than ${limit} characters`);
+  return value;
+}
+
+/** Checks a parsed reply against the ModelAnalysis contract and returns only the known fields. */
+export function validateModelAnalysis(value: unknown): ModelAnalysis {
+  const problems: string[] = [];
+  if (!isObject(value)) throw new ModelOutputError(['the response is not a JSON object']);
+
+  if (typeof value.isPhishing !== 'boolean') problems.push('"isPhishing" must be true or false');
+  const confidence = value.confidence;
+  if (typeof confidence !== 'number' || !Number.isFinite(confidence) || confidence < 0 || confidence > 100) {
+    problems.push('"confidence" must be a number from 0 to 100');
+  }
+
+  const indicators: ModelAnalysis['indicators'] = [];
+  if (!Array.isArray(value.indicators)) {
+    problems.push('"indicators" must be an array');
+  } else if (value.indicators.length > MAX_INDICATORS) {
+    problems.push(`"indicators" has more than ${MAX_INDICATORS} entries`);
+  } else {
+    value.indicators.forEach((indicator, i) => {
+      if (!isObject(indicator)) {
+        problems.push(`indicators[${i}] must be an object`);
+        return;
+      }
+      const title = checkText(indicator.title, `indicators[${i}].title`, problems, MAX_TITLE);
+      if (!INDICATOR_CATEGORIES.includes(indicator.category as never)) {
+        problems.push(`indicators[${i}].category must be one of ${INDICATOR_CATEGORIES.join(', ')}`);
+      }
+      if (!SEVERITIES.includes(indicator.severity as never)) {
+        problems.push(`indicators[${i}].severity must be one of ${SEVERITIES.join(', ')}`);
+      }
+      const evidence = indicator.evidence;
+      if (evidence !== undefined && (!Array.isArray(evidence) || evidence.length > MAX_EVIDENCE || evidence.some(e => typeof e !== 'string'))) {
+        problems.push(`indicators[${i}].evidence must be an array of at most ${MAX_EVIDENCE} strings`);
+      }
+      indicators.push({
+        title,
+        category: indicator.category as ModelAnalysis['indicators'][number]['category'],
+        severity: indicator.severity as ModelAnalysis['indicators'][number]['severity'],
+        ...(Array.isArray(evidence) && evidence.length > 0 ? { evidence: evidence as string[] } : {}),
+      });
+    });
+  }
+
+  const recommendation = checkText(value.recommendation, 'recommendation', problems);
+  const summary = checkText(value.summary, 'summary', problems);
+  const technicalDetails = checkText(value.technicalDetails, 'technicalDetails', problems);
+
+  if (problems.length > 0) throw new ModelOutputError(problems);
+  return {
+    isPhishing: value.isPhishing as boolean,
+    confidence: confidence as number,
+    indicators,
+    recommendation,
+    summary,
+    technicalDetails,
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Minimal read-only ZIP support for inspecting attachments: lists entries from
+// the central directory and inflates small members on demand. Nothing is ever
+// written to disk or executed.
+
+export interface ZipEntry {
+  name: string;
+  compressedSize: number;
+  size: number;
+  method: number;
+  encrypted: boolean;
+  localHeaderOffset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+// Refuse to inflate members larger than this; rels/XML parts are tiny.
+const MAX_INFLATE_SIZE = 2 * 1024 * 1024;
+
+/** An entry inflates, or claims to inflate, beyond MAX_INFLATE_SIZE: likely a decompression bomb. */
+export class ZipEntryTooLargeError extends Error {
+  constructor(public entryName: string) {
+    super(`ZIP entry ${entryName} inflates beyond ${MAX_INFLATE_SIZE} bytes`);
+    this.name = 'ZipEntryTooLargeError';
+  }
+}
+
+function decodeName(bytes: Uint8Array, utf8: boolean): string {
+  return new TextDecoder(utf8 ? 'utf-8' : 'latin1').decode(bytes);
+}
+
+/** Returns the archive's entries, or null when the bytes are not a readable ZIP. */
+export function listZipEntries(data: Uint8Array): ZipEntry[] | null {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  // The end-of-central-directory record sits in the last 22 bytes plus an optional comment.
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) return null;
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > data.length || view.getUint32(offset, true) !== CENTRAL_SIGNATURE) return entries;
+    const flags = view.getUint16(offset + 8, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    entries.push({
+      name: decodeName(data.subarray(offset + 46, offset + 46 + nameLength), (flags & 0x800) !== 0),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      size: view.getUint32(offset + 24, true),
+      encrypted: (flags & 0x1) !== 0,
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+// The declared size is attacker-controlled, so the output is counted as it is produced.
+async function inflateRaw(data: Uint8Array, entry: ZipEntry): Promise<Uint8Array> {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > MAX_INFLATE_SIZE) {
+      await reader.cancel();
+      throw new ZipEntryTooLargeError(entry.name);
+    }
+    chunks.push(value);
+  }
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+/**
+ * Extracts one stored or deflated, unencrypted entry. Returns null if it
+ * cannot be read, and throws ZipEntryTooLargeError for an oversized one.
+ */
+export async function readZipEntry(data: Uint8Array, entry: ZipEntry): Promise<Uint8Array | null> {
+  if (entry.encrypted) return null;
+  if (entry.size > MAX_INFLATE_SIZE) throw new ZipEntryTooLargeError(entry.name);
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const offset = entry.localHeaderOffset;
+  if (offset + 30 > data.length || view.getUint32(offset, true) !== LOCAL_SIGNATURE) return null;
+
+  const start = offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true);
+  const raw = data.subarray(start, start + entry.compressedSize);
+  try {
+    if (entry.method === 0) return raw;
+    if (entry.method === 8) return await inflateRaw(raw, entry);
+  } catch (err) {
+    if (err instanceof ZipEntryTooLargeError) throw err;
+    // Corrupt streams are reported as unreadable rather than failing the scan.
+  }
+  return null;
+}
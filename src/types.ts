@@ -0,0 +1,550 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type RiskLevel = 'Low' | 'Medium' | 'High';
+
+export type CheckStatus = 'pass' | 'fail' | 'neutral';
+
+export type HeaderCheck =
+  | 'dmarc'
+  | 'spf'
+  | 'dkim'
+  | 'untrusted-authentication'
+  | 'dkim-alignment'
+  | 'received-chain'
+  | 'reply-to'
+  | 'return-path'
+  | 'sender'
+  | 'display-name';
+
+// A brand, or one of its domains, that a link or header imitates.
+export interface Impersonation {
+  brand?: string;
+  domain?: string;
+}
+
+export interface HeaderIndicator {
+  check: HeaderCheck;
+  status: CheckStatus;
+  title: string;
+  detail: string;
+  // The header field the check read, as "Name: value".
+  evidence?: string;
+  impersonates?: Impersonation[];
+}
+
+export type LinkSource = 'text' | 'anchor' | 'form' | 'resource';
+
+export interface LinkIndicator {
+  url: string;
+  host: string;
+  source: LinkSource;
+  // Visible anchor text, when the link came from an HTML <a> element.
+  displayText?: string;
+  risk: RiskLevel;
+  reasons: string[];
+  impersonates?: Impersonation[];
+}
+
+export type Severity = 'info' | 'low' | 'medium' | 'high' | 'critical';
+
+export type IndicatorCategory =
+  | 'authentication'
+  | 'sender'
+  | 'impersonation'
+  | 'link'
+  | 'content'
+  | 'attachment'
+  | 'infrastructure';
+
+export type IndicatorSource = 'model' | 'header' | 'link' | 'attachment' | 'injection' | 'policy';
+
+export interface Indicator {
+  source: IndicatorSource;
+  category: IndicatorCategory;
+  severity: Severity;
+  // Points this indicator adds to (positive) or removes from (negative) the risk score.
+  weight: number;
+  title: string;
+  detail?: string;
+  // Hard evidence that forces the verdict to at least this level regardless of score.
+  minimumRisk?: RiskLevel;
+  // Excerpts of the message the source based this indicator on.
+  evidence?: string[];
+  // Where those excerpts were found in AnalysisResult.evidenceText.
+  spans?: TextSpan[];
+}
+
+// Character range [start, end) of a text.
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+export interface ScoreThresholds {
+  // Scores at or above these values map to Medium and High risk.
+  medium: number;
+  high: number;
+}
+
+// The structured verdict the model returns, before local evidence is merged in.
+export interface ModelAnalysis {
+  isPhishing: boolean;
+  // Model's own confidence in its verdict, 0–100.
+  confidence: number;
+  // evidence: verbatim excerpts of the message, located and verified after validation.
+  indicators: { title: string; category: IndicatorCategory; severity: Severity; evidence?: string[] }[];
+  recommendation: string;
+  summary: string;
+  technicalDetails: string;
+}
+
+export interface AttachmentFinding {
+  title: string;
+  severity: Severity;
+}
+
+export interface AttachmentReport {
+  filename: string;
+  declaredType: string;
+  // Type identified from the file's magic bytes, when recognised.
+  sniffedType?: string;
+  size: number;
+  sha256: string;
+  risk: RiskLevel;
+  findings: AttachmentFinding[];
+  // Member names, for ZIP-based archives and documents.
+  archiveEntries?: string[];
+}
+
+export type PolicyRuleType = 'keyword' | 'regex';
+
+// A custom detection rule, matched against the subject and plain-text body.
+export interface PolicyRule {
+  name: string;
+  type: PolicyRuleType;
+  // A literal phrase for keyword rules (whole words, any case), an RE2 regex source otherwise.
+  pattern: string;
+  severity: Severity;
+  enabled: boolean;
+}
+
+// The organization's own context for the scanner, edited by its security team.
+export interface PolicyProfile {
+  organization: string;
+  // Our own and partner domains; mail from them is expected and must authenticate.
+  trustedDomains: string[];
+  blockedDomains: string[];
+  // Executive names that attackers put in display names.
+  vips: string[];
+  // Domains that legitimately send invoices and payment instructions.
+  vendorPaymentDomains: string[];
+  rules: PolicyRule[];
+  updatedAt?: number;
+}
+
+export type PolicyFindingKind =
+  | 'blocked-sender'
+  | 'blocked-link'
+  | 'trusted-sender'
+  | 'trusted-unauthenticated'
+  | 'lookalike-domain'
+  | 'vip-impersonation'
+  | 'vendor-payment'
+  | 'custom-rule';
+
+export interface PolicyFinding {
+  kind: PolicyFindingKind;
+  title: string;
+  detail: string;
+  severity: Severity;
+  // Excerpt of the message that triggered the finding.
+  evidence?: string;
+}
+
+export type IocType = 'email-address' | 'domain' | 'url' | 'ipv4' | 'ipv6' | 'sha256';
+
+// An indicator of compromise observed in a message, ready for blocklists and threat-intel tools.
+export interface Ioc {
+  type: IocType;
+  value: string;
+  // Safe to paste into chat or tickets: hxxp://, [.] and [@].
+  defanged: string;
+  // Where in the message it appeared, e.g. "From header" or "Received hop 2".
+  locations: string[];
+}
+
+export type IocExportFormat = 'stix' | 'csv' | 'json';
+
+export type InjectionLocation = 'subject' | 'body' | 'html' | 'hidden' | 'attachment';
+
+// Text in the message that tries to instruct the AI analysing it.
+export interface InjectionFinding {
+  title: string;
+  excerpt: string;
+  location: InjectionLocation;
+}
+
+export interface AnalysisResult {
+  isPhishing: boolean;
+  riskLevel: RiskLevel;
+  suspiciousIndicators: string[];
+  recommendation: string;
+  summary: string;
+  technicalDetails: string;
+  // Deterministic header checks run locally; absent on results from before they existed.
+  headerIndicators?: HeaderIndicator[];
+  linkIndicators?: LinkIndicator[];
+  attachmentReports?: AttachmentReport[];
+  injectionFindings?: InjectionFinding[];
+  iocs?: Ioc[];
+  // Decoded headers, body and attachment names that indicator spans point into.
+  evidenceText?: string;
+  // 0–100 risk score, its confidence and every weighted indicator behind it.
+  score?: number;
+  confidence?: number;
+  indicators?: Indicator[];
+  thresholds?: ScoreThresholds;
+  // Set when a hard indicator lifted the score to its minimum risk level.
+  scoreFloor?: { level: RiskLevel; reason: string };
+  // Provider and model that produced the verdict; absent on results from before providers were selectable.
+  provider?: { id: ProviderId; label: string; model: string };
+  // Campaign of earlier similar scans this one joined when it was stored.
+  campaign?: CampaignMatch;
+}
+
+// Why an analysis failed, so the UI can say what to do about it.
+export type AnalysisErrorCode =
+  | 'quota'
+  | 'network'
+  | 'timeout'
+  | 'cancelled'
+  | 'safety_block'
+  | 'invalid_model_response'
+  | 'provider_error';
+
+// The local checks, available before the model has answered.
+export interface LocalFindings {
+  headerIndicators: HeaderIndicator[];
+  linkIndicators: LinkIndicator[];
+  attachmentReports: AttachmentReport[];
+  injectionFindings: InjectionFinding[];
+  indicators: Indicator[];
+  provider: { id: ProviderId; label: string; model: string };
+}
+
+// One line of the newline-delimited JSON stream from POST /api/analyze/stream.
+export type AnalysisEvent =
+  | { type: 'local'; findings: LocalFindings }
+  // Next piece of the model's raw reply.
+  | { type: 'model'; text: string }
+  // The last attempt failed transiently; text streamed so far is discarded.
+  | { type: 'retry'; attempt: number; maxAttempts: number; delayMs: number; code: AnalysisErrorCode; error: string }
+  | { type: 'result'; scan: ScanRecord }
+  | { type: 'error'; code?: AnalysisErrorCode; error: string; details?: string[] };
+
+// What a scan is compared on to find other messages of the same campaign.
+export interface ScanFingerprint {
+  // 64-bit simhash of the normalised subject, body and structure as 16 hex digits; empty when too short to compare.
+  simhash: string;
+  // Link hosts and paths, without query strings that differ per recipient.
+  urls: string[];
+  // Sender domains and public relay IPs.
+  infrastructure: string[];
+  attachments: string[];
+}
+
+export type CampaignMatchReason = 'content' | 'urls' | 'infrastructure' | 'attachments';
+
+export type CampaignVerdict = 'malicious' | 'suspicious' | 'benign';
+
+// A campaign as it stood when a scan joined it, before that scan was counted.
+export interface CampaignMatch {
+  id: string;
+  matchedOn: CampaignMatchReason[];
+  size: number;
+  phishing: number;
+  firstSeen: number;
+  lastSeen: number;
+  verdict: CampaignVerdict;
+}
+
+export interface CampaignSummary {
+  id: string;
+  // Most common subject among the members.
+  label: string;
+  size: number;
+  // Members judged phishing, by analyst feedback where there is some and by the scanner otherwise.
+  phishing: number;
+  riskLevel: RiskLevel;
+  verdict: CampaignVerdict;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+export interface CampaignMember {
+  id: string;
+  timestamp: number;
+  subject: string;
+  sender: string;
+  isPhishing: boolean;
+  riskLevel: RiskLevel;
+  score?: number;
+  feedback?: FeedbackLabel;
+}
+
+export interface CampaignDetail extends CampaignSummary {
+  members: CampaignMember[];
+  // Indicators and observables seen in more than one member, most widespread first.
+  commonIndicators: { title: string; count: number }[];
+  commonIocs: { type: IocType; value: string; defanged: string; count: number }[];
+}
+
+export type ProviderId = 'gemini' | 'openai' | 'heuristics' | 'mock';
+
+export interface ProviderInfo {
+  id: ProviderId;
+  label: string;
+  models: string[];
+  defaultModel: string;
+  // False when the server lacks the configuration (API key, endpoint) the provider needs.
+  available: boolean;
+}
+
+export interface ProviderCatalog {
+  providers: ProviderInfo[];
+  defaultProvider: ProviderId;
+}
+
+// Provider and model requested for an analysis; the server default applies to whatever is omitted.
+export interface ProviderChoice {
+  provider?: ProviderId;
+  model?: string;
+}
+
+export type FeedbackLabel = 'confirmed-phish' | 'false-positive' | 'false-negative';
+
+// An analyst's judgement of a stored result.
+export interface AnalystFeedback {
+  label: FeedbackLabel;
+  note: string;
+  createdAt: number;
+}
+
+export interface HistoryItem {
+  id: string;
+  timestamp: number;
+  emailPreview: string;
+  subject: string;
+  sender: string;
+  // Model that produced the result, e.g. "gemini-3-flash-preview".
+  model: string;
+  result: AnalysisResult;
+  feedback?: AnalystFeedback;
+}
+
+// A stored scan with everything needed to re-open it.
+export interface ScanRecord extends HistoryItem {
+  source: string;
+  headers: EmailHeader[];
+}
+
+export type VerdictFilter = 'phishing' | 'legitimate';
+
+export interface HistoryQuery {
+  q?: string;
+  riskLevel?: RiskLevel;
+  verdict?: VerdictFilter;
+  // Scan times in ms since the epoch; since is inclusive, until exclusive.
+  since?: number;
+  until?: number;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface HistoryPage {
+  items: HistoryItem[];
+  total: number;
+  page: number;
+  pageSize: number;
+  // Unfiltered counts across all stored scans.
+  totals: { scans: number; phishing: number };
+}
+
+export type DashboardInterval = 'day' | 'week';
+
+export interface DashboardQuery {
+  // Bounds as in HistoryQuery.
+  since?: number;
+  until?: number;
+  // The viewer's Date.getTimezoneOffset(), so days and weeks start at local midnight.
+  tzOffset?: number;
+}
+
+export interface DashboardBucket {
+  // Start of the day or week, ms since the epoch.
+  start: number;
+  scans: number;
+  detections: number;
+}
+
+export interface DashboardCount {
+  label: string;
+  count: number;
+}
+
+/** Trends across stored scans. Detections count analyst labels over the scanner's verdict. */
+export interface DashboardData {
+  since?: number;
+  until?: number;
+  interval: DashboardInterval;
+  totals: { scans: number; detections: number; confirmed: number; falsePositives: number };
+  timeline: DashboardBucket[];
+  riskLevels: Record<RiskLevel, number>;
+  // The rankings below count each detection at most once per entry.
+  brands: DashboardCount[];
+  domains: DashboardCount[];
+  categories: DashboardCount[];
+  infrastructure: DashboardCount[];
+}
+
+export type DashboardExportFormat = 'csv' | 'json';
+
+export type BatchStatus = 'running' | 'completed' | 'cancelled';
+export type BatchItemStatus = 'queued' | 'running' | 'retrying' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchItem {
+  index: number;
+  // Uploaded file name, with the message number for mbox exports.
+  filename: string;
+  subject: string;
+  sender: string;
+  status: BatchItemStatus;
+  attempts: number;
+  error?: string;
+  // Set once the scan is stored; the full result is fetched from history.
+  scanId?: string;
+  isPhishing?: boolean;
+  riskLevel?: RiskLevel;
+  score?: number;
+  topIndicators?: string[];
+}
+
+export interface BatchJob {
+  id: string;
+  createdAt: number;
+  status: BatchStatus;
+  items: BatchItem[];
+}
+
+export interface BatchFile {
+  name: string;
+  source: string;
+}
+
+export type ApiScanStatus = 'pending' | 'completed' | 'failed';
+
+// A scan as the versioned integration API (/api/v1/scans) and webhooks report it.
+export interface ApiScan {
+  id: string;
+  status: ApiScanStatus;
+  createdAt: number;
+  // Name of the integration whose API key submitted it; absent for scans made in the app.
+  integration?: string;
+  subject?: string;
+  sender?: string;
+  result?: AnalysisResult;
+  feedback?: AnalystFeedback;
+  error?: string;
+}
+
+export interface ApiScanPage {
+  items: ApiScan[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface ApiKeyInfo {
+  id: string;
+  name: string;
+  // First characters of the key, enough to tell keys apart.
+  prefix: string;
+  createdAt: number;
+  lastUsedAt?: number;
+}
+
+// Returned only when the key is created; the server keeps just its hash.
+export interface CreatedApiKey extends ApiKeyInfo {
+  key: string;
+}
+
+export interface WebhookInfo {
+  id: string;
+  name: string;
+  url: string;
+  // Scans at this risk level or above are delivered.
+  minRisk: RiskLevel;
+  createdAt: number;
+  lastDelivery?: { at: number; ok: boolean; status?: number; error?: string };
+}
+
+// Returned only when the webhook is created, with the secret deliveries are signed with.
+export interface CreatedWebhook extends WebhookInfo {
+  secret: string;
+}
+
+export interface EmailHeader {
+  name: string;
+  // Unfolded value with RFC 2047 encoded-words decoded.
+  value: string;
+  // Unfolded value exactly as it appeared in the source.
+  raw: string;
+}
+
+export interface EmailAddress {
+  name: string;
+  address: string;
+}
+
+export interface MimePart {
+  headers: EmailHeader[];
+  contentType: string;
+  params: Record<string, string>;
+  disposition?: string;
+  filename?: string;
+  contentId?: string;
+  transferEncoding: string;
+  content: Uint8Array;
+  // Charset-decoded body, present for text/* leaf parts.
+  text?: string;
+  children: MimePart[];
+}
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  size: number;
+  contentId?: string;
+  inline: boolean;
+  content: Uint8Array;
+}
+
+export interface ParsedEmail {
+  // False when the input had no recognisable header block and was treated as a bare body.
+  hasHeaders: boolean;
+  headers: EmailHeader[];
+  subject: string;
+  from: EmailAddress[];
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  replyTo: EmailAddress[];
+  date?: string;
+  messageId?: string;
+  text: string;
+  html?: string;
+  attachments: EmailAttachment[];
+  root: MimePart;
+}